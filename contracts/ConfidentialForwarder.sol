@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Confidential Forwarder - Anonymous relay for ConfidentialTransmission
+/// @author confidential-transmission
+/// @notice Lets a relayer submit calls on behalf of users without revealing who they are
+/// @dev EIP-2771-style forwarder that deliberately does NOT verify or append the original signer:
+///      doing so would publish the caller on-chain, which is exactly what anonymous recalls and opens avoid.
+///      ConfidentialTransmission refuses sends through it: FHE inputs bound to this forwarder could be
+///      replayed by anyone, so anonymous sends come from sponsored one-time accounts instead.
+///      It adds no authentication either: anyone can call `execute` with any request, so access control
+///      and abuse limits are the relayer's job (see tasks/Relayer.ts).
+contract ConfidentialForwarder {
+    /// @notice A call to be executed on behalf of an anonymous user
+    struct ForwardRequest {
+        address to; // Target contract
+        uint256 deadline; // Request is rejected after this timestamp
+        bytes data; // Encoded call data
+    }
+
+    /// @notice Emitted when a request has been forwarded
+    /// @param to The target contract
+    /// @param relayer The account that submitted the request and paid for gas
+    event Forwarded(address indexed to, address indexed relayer);
+
+    /// @notice Thrown when a request targets the zero address
+    error InvalidTarget();
+
+    /// @notice Thrown when a request is executed after its deadline
+    /// @param deadline The request's deadline
+    error RequestExpired(uint256 deadline);
+
+    /// @notice Execute a forwarded call
+    /// @param _request The request to execute
+    /// @return result Raw return data of the target call
+    function execute(ForwardRequest calldata _request) external returns (bytes memory result) {
+        if (_request.to == address(0)) {
+            revert InvalidTarget();
+        }
+        if (block.timestamp > _request.deadline) {
+            revert RequestExpired(_request.deadline);
+        }
+
+        bool success;
+        // solhint-disable-next-line avoid-low-level-calls
+        (success, result) = _request.to.call(_request.data);
+
+        // Bubble up the target's revert reason
+        if (!success) {
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+
+        emit Forwarded(_request.to, msg.sender);
+    }
+}
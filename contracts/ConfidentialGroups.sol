@@ -0,0 +1,481 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, eaddress, euint256, externalEaddress, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title Confidential Groups - Encrypted group channels for Confidential Transmission
+/// @author confidential-transmission
+/// @notice Named groups whose members all receive every message posted to the group
+/// @dev Companion to ConfidentialTransmission, which is at the EIP-170 size limit. Group messages use the
+///      same envelope (content AES encrypted on IPFS, key and sender FHE encrypted) but are stored here, so
+///      their handles are decrypted against this contract's address.
+contract ConfidentialGroups is SepoliaConfig {
+    /// @notice A named group and its membership
+    struct Group {
+        string name; // Display name
+        address[] admins; // Members who manage membership and admins
+        address[] members; // Current members, each granted the key of every new message
+    }
+
+    /// @notice An encrypted message posted to a group
+    struct GroupMessage {
+        eaddress encryptedSender; // FHE encrypted sender address
+        ebool senderVerified; // FHE encrypted: encryptedSender is the member that posted the message
+        euint256 encryptedKey; // FHE encrypted AES decryption key (256-bit)
+        bytes32 contentDigest; // sha2-256 digest of the content's IPFS CID
+        uint256 timestamp; // Time the message was posted
+    }
+
+    /// @notice Public metadata of a group message (no encrypted handles)
+    struct GroupMessageMetadata {
+        uint256 index; // Position in the group's history
+        bytes32 contentDigest; // sha2-256 digest of the content's IPFS CID
+        uint256 timestamp; // Time the message was posted
+    }
+
+    /// @notice Group storage
+    mapping(uint256 groupId => Group group) private groups;
+
+    /// @notice Messages posted to each group, in posting order
+    mapping(uint256 groupId => GroupMessage[] history) private groupMessages;
+
+    /// @notice Index of the first message of a group each member can read
+    mapping(uint256 groupId => mapping(address member => uint256 index)) private historyStart;
+
+    /// @notice Groups each account is a member of
+    mapping(address account => uint256[] groupIds) private groupsOf;
+
+    /// @notice Total number of groups created
+    uint256 public groupCount;
+
+    /// @notice Maximum number of members per group (each costs ACL grants on every message)
+    uint256 public constant MAX_GROUP_MEMBERS = 50;
+
+    /// @notice Maximum number of earlier messages shared with a new member in one call
+    uint256 public constant MAX_SHARED_HISTORY = 100;
+
+    /// @notice Maximum number of results per paged view call
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    // Names, history positions and digests are read from the logs, not filtered on
+    // solhint-disable gas-indexed-events
+
+    /// @notice Emitted when a group is created
+    /// @param groupId The new group
+    /// @param admin The creator, its first admin and member
+    /// @param name Display name of the group
+    event GroupCreated(uint256 indexed groupId, address indexed admin, string name);
+
+    /// @notice Emitted when an account joins a group
+    /// @param groupId The group
+    /// @param member The new member
+    /// @param historyStart Index of the first group message the member can read
+    event MemberAdded(uint256 indexed groupId, address indexed member, uint256 historyStart);
+
+    /// @notice Emitted when a member is removed from or leaves a group
+    /// @param groupId The group
+    /// @param member The former member
+    event MemberRemoved(uint256 indexed groupId, address indexed member);
+
+    /// @notice Emitted when a member is made or stops being an admin
+    /// @param groupId The group
+    /// @param account The member
+    /// @param isAdmin Whether the member is now an admin
+    event AdminChanged(uint256 indexed groupId, address indexed account, bool isAdmin);
+
+    /// @notice Emitted when a message is posted to a group
+    /// @param groupId The group
+    /// @param index Position of the message in the group's history
+    /// @param contentDigest sha2-256 digest of the content's IPFS CID
+    /// @param timestamp Time the message was posted
+    event GroupMessageSent(uint256 indexed groupId, uint256 index, bytes32 contentDigest, uint256 timestamp);
+
+    // solhint-enable gas-indexed-events
+
+    /// @notice Thrown when a group is created without a name
+    error EmptyName();
+
+    /// @notice Thrown when an account that must be a member of the group is not
+    /// @param account The account
+    error NotAMember(address account);
+
+    /// @notice Thrown when promoting a member that is already an admin
+    /// @param account The member
+    error AlreadyAnAdmin(address account);
+
+    /// @notice Thrown when demoting an account that is not an admin
+    /// @param account The account
+    error NotAnAdmin(address account);
+
+    /// @notice Thrown when the caller must be an admin of the group and is not
+    error NotAGroupAdmin();
+
+    /// @notice Thrown when demoting the only admin of a group
+    /// @dev The last admin can still leave with `removeMember`, which hands the role to another member
+    error LastAdmin();
+
+    /// @notice Thrown when a message is posted without a content digest
+    error InvalidContent();
+
+    /// @notice Thrown when a group ID has not been created
+    error GroupNotFound();
+
+    /// @notice Thrown when a message index is past the end of a group's history
+    error MessageNotFound();
+
+    /// @notice Thrown when the caller cannot read a group message
+    error NotAuthorized();
+
+    /// @notice Thrown when a page size is above `MAX_PAGE_SIZE`
+    error PageTooLarge();
+
+    /// @notice Thrown when adding the zero address
+    error InvalidMember();
+
+    /// @notice Thrown when adding an account that is already a member
+    /// @param account The account
+    error AlreadyAMember(address account);
+
+    /// @notice Thrown when a group already has `MAX_GROUP_MEMBERS` members
+    error TooManyMembers();
+
+    /// @notice Thrown when sharing more than `MAX_SHARED_HISTORY` earlier messages
+    error TooMuchHistory();
+
+    /// @notice Create a group; the caller becomes its first admin and member
+    /// @param _name Display name of the group
+    /// @param _members Initial members besides the caller
+    /// @return groupId The ID of the new group
+    function createGroup(string calldata _name, address[] calldata _members) external returns (uint256 groupId) {
+        if (bytes(_name).length == 0) {
+            revert EmptyName();
+        }
+
+        groupId = groupCount;
+        ++groupCount;
+        Group storage group = groups[groupId];
+        group.name = _name;
+        group.admins.push(msg.sender);
+
+        _addMember(groupId, msg.sender, 0);
+        for (uint256 i = 0; i < _members.length; ++i) {
+            _addMember(groupId, _members[i], 0);
+        }
+
+        emit GroupCreated(groupId, msg.sender, _name);
+    }
+
+    /// @notice Add a member to a group (admins only)
+    /// @dev The member is granted the key of every message posted from now on, and of the latest
+    ///      `_historyCount` earlier messages. FHE ACL grants are permanent, so shared history stays readable.
+    /// @param _groupId The group
+    /// @param _member The account to add
+    /// @param _historyCount Number of earlier messages to share (0 = none, at most `MAX_SHARED_HISTORY`)
+    function addMember(uint256 _groupId, address _member, uint256 _historyCount) external {
+        _requireAdmin(_groupId);
+        _addMember(_groupId, _member, _historyCount);
+    }
+
+    /// @notice Remove a member from a group (admins only), or leave a group yourself
+    /// @dev Stops future grants and `getGroupMessage` access; keys already granted cannot be revoked.
+    ///      Admins give up the role when they leave. If the last admin leaves, the first remaining
+    ///      member in `getGroup` order becomes admin, so a group only runs out of admins once it is empty.
+    /// @param _groupId The group
+    /// @param _member The member to remove
+    function removeMember(uint256 _groupId, address _member) external {
+        if (_member != msg.sender) {
+            _requireAdmin(_groupId);
+        }
+
+        Group storage group = groups[_groupId];
+        uint256 index = _indexOf(group.members, _member);
+        if (index == group.members.length) {
+            revert NotAMember(_member);
+        }
+
+        group.members[index] = group.members[group.members.length - 1];
+        group.members.pop();
+
+        uint256 adminIndex = _indexOf(group.admins, _member);
+        if (adminIndex < group.admins.length) {
+            group.admins[adminIndex] = group.admins[group.admins.length - 1];
+            group.admins.pop();
+        }
+
+        uint256[] storage memberGroups = groupsOf[_member];
+        for (uint256 i = 0; i < memberGroups.length; ++i) {
+            if (memberGroups[i] == _groupId) {
+                memberGroups[i] = memberGroups[memberGroups.length - 1];
+                memberGroups.pop();
+                break;
+            }
+        }
+
+        emit MemberRemoved(_groupId, _member);
+
+        if (group.admins.length == 0 && group.members.length > 0) {
+            address successor = group.members[0];
+            group.admins.push(successor);
+            emit AdminChanged(_groupId, successor, true);
+        }
+    }
+
+    /// @notice Make a member an admin or revoke their admin role (admins only)
+    /// @dev The only admin cannot be demoted; promote another member first, or leave the group
+    /// @param _groupId The group
+    /// @param _account A member of the group
+    /// @param _isAdmin Whether the member should be an admin
+    function setAdmin(uint256 _groupId, address _account, bool _isAdmin) external {
+        _requireAdmin(_groupId);
+
+        Group storage group = groups[_groupId];
+        uint256 adminIndex = _indexOf(group.admins, _account);
+        if (_isAdmin) {
+            if (_indexOf(group.members, _account) == group.members.length) {
+                revert NotAMember(_account);
+            }
+            if (adminIndex < group.admins.length) {
+                revert AlreadyAnAdmin(_account);
+            }
+            group.admins.push(_account);
+        } else {
+            if (adminIndex == group.admins.length) {
+                revert NotAnAdmin(_account);
+            }
+            if (group.admins.length == 1) {
+                revert LastAdmin();
+            }
+            group.admins[adminIndex] = group.admins[group.admins.length - 1];
+            group.admins.pop();
+        }
+
+        emit AdminChanged(_groupId, _account, _isAdmin);
+    }
+
+    /// @notice Post an encrypted file/message to every current member of a group (members only)
+    /// @dev The sender and key come from one encrypted input. Only the members at send time are granted
+    ///      the key; later members get it only if an admin shares history when adding them.
+    /// @param _groupId The group
+    /// @param _encryptedSender Encrypted sender address
+    /// @param _encryptedKey Encrypted AES decryption key (256-bit)
+    /// @param _inputProof Proof for the encrypted input
+    /// @param _contentDigest sha2-256 digest of the encrypted content's IPFS CID
+    /// @return index Position of the message in the group's history
+    function sendToGroup(
+        uint256 _groupId,
+        externalEaddress _encryptedSender,
+        externalEuint256 _encryptedKey,
+        bytes calldata _inputProof,
+        bytes32 _contentDigest
+    ) external returns (uint256 index) {
+        Group storage group = groups[_groupId];
+        if (_indexOf(group.members, msg.sender) == group.members.length) {
+            revert NotAMember(msg.sender);
+        }
+        if (_contentDigest == bytes32(0)) {
+            revert InvalidContent();
+        }
+
+        eaddress sender = FHE.fromExternal(_encryptedSender, _inputProof);
+        euint256 key = FHE.fromExternal(_encryptedKey, _inputProof);
+        ebool senderVerified = FHE.eq(sender, FHE.asEaddress(msg.sender));
+
+        FHE.allowThis(sender);
+        FHE.allowThis(senderVerified);
+        FHE.allowThis(key);
+
+        GroupMessage[] storage history = groupMessages[_groupId];
+        index = history.length;
+        history.push(
+            GroupMessage({
+                encryptedSender: sender,
+                senderVerified: senderVerified,
+                encryptedKey: key,
+                contentDigest: _contentDigest,
+                timestamp: block.timestamp
+            })
+        );
+
+        // Grant decryption permission to the current members only
+        for (uint256 i = 0; i < group.members.length; ++i) {
+            _allowMessage(history[index], group.members[i]);
+        }
+
+        emit GroupMessageSent(_groupId, index, _contentDigest, block.timestamp);
+    }
+
+    /// @notice Get a group's name, admins, members and number of messages
+    /// @param _groupId The group
+    /// @return name Display name of the group
+    /// @return admins Current admins
+    /// @return members Current members
+    /// @return messageCount Number of messages posted to the group
+    function getGroup(
+        uint256 _groupId
+    )
+        external
+        view
+        returns (string memory name, address[] memory admins, address[] memory members, uint256 messageCount)
+    {
+        if (!(_groupId < groupCount)) {
+            revert GroupNotFound();
+        }
+        Group storage group = groups[_groupId];
+        return (group.name, group.admins, group.members, groupMessages[_groupId].length);
+    }
+
+    /// @notice Get the groups an account is a member of
+    /// @param _account The account
+    /// @return groupIds IDs of the account's groups
+    function getGroupsOf(address _account) external view returns (uint256[] memory groupIds) {
+        return groupsOf[_account];
+    }
+
+    /// @notice Get the encrypted handles of a group message (current members with access only)
+    /// @param _groupId The group
+    /// @param _index Position of the message in the group's history
+    /// @return encryptedSender FHE encrypted sender address
+    /// @return senderVerified FHE encrypted: encryptedSender is the member that posted the message
+    /// @return encryptedKey FHE encrypted AES decryption key
+    /// @return contentDigest sha2-256 digest of the content's IPFS CID
+    /// @return timestamp Time the message was posted
+    function getGroupMessage(
+        uint256 _groupId,
+        uint256 _index
+    )
+        external
+        view
+        returns (
+            eaddress encryptedSender,
+            ebool senderVerified,
+            euint256 encryptedKey,
+            bytes32 contentDigest,
+            uint256 timestamp
+        )
+    {
+        if (!(_index < groupMessages[_groupId].length)) {
+            revert MessageNotFound();
+        }
+        if (!_canRead(_groupId, _index, msg.sender)) {
+            revert NotAuthorized();
+        }
+
+        GroupMessage storage message = groupMessages[_groupId][_index];
+        return (
+            message.encryptedSender,
+            message.senderVerified,
+            message.encryptedKey,
+            message.contentDigest,
+            message.timestamp
+        );
+    }
+
+    /// @notice Get the public metadata of a range of group messages
+    /// @param _groupId The group
+    /// @param _offset Index of the first message
+    /// @param _limit Maximum number of messages to return (at most `MAX_PAGE_SIZE`)
+    /// @return page Metadata of the messages from `_offset` on
+    function getGroupMessagesPage(
+        uint256 _groupId,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (GroupMessageMetadata[] memory page) {
+        if (_limit > MAX_PAGE_SIZE) {
+            revert PageTooLarge();
+        }
+
+        GroupMessage[] storage history = groupMessages[_groupId];
+        uint256 end = _offset + _limit < history.length ? _offset + _limit : history.length;
+        page = new GroupMessageMetadata[](end > _offset ? end - _offset : 0);
+        for (uint256 i = 0; i < page.length; ++i) {
+            GroupMessage storage message = history[_offset + i];
+            page[i] = GroupMessageMetadata({
+                index: _offset + i,
+                contentDigest: message.contentDigest,
+                timestamp: message.timestamp
+            });
+        }
+    }
+
+    /// @notice Whether an account is a current member that joined before a message or was shared it
+    /// @param _groupId The group
+    /// @param _index Position of the message in the group's history
+    /// @param _account The account to check
+    /// @return True if the account can read the message
+    function canRead(uint256 _groupId, uint256 _index, address _account) external view returns (bool) {
+        return _canRead(_groupId, _index, _account);
+    }
+
+    /// @notice Add a member and share the latest `_historyCount` messages with it
+    /// @param _groupId The group
+    /// @param _member The account to add
+    /// @param _historyCount Number of earlier messages to share
+    function _addMember(uint256 _groupId, address _member, uint256 _historyCount) private {
+        Group storage group = groups[_groupId];
+        if (_member == address(0)) {
+            revert InvalidMember();
+        }
+        if (_indexOf(group.members, _member) < group.members.length) {
+            revert AlreadyAMember(_member);
+        }
+        if (group.members.length == MAX_GROUP_MEMBERS) {
+            revert TooManyMembers();
+        }
+        if (_historyCount > MAX_SHARED_HISTORY) {
+            revert TooMuchHistory();
+        }
+
+        GroupMessage[] storage history = groupMessages[_groupId];
+        uint256 start = history.length > _historyCount ? history.length - _historyCount : 0;
+        for (uint256 i = start; i < history.length; ++i) {
+            _allowMessage(history[i], _member);
+        }
+
+        group.members.push(_member);
+        groupsOf[_member].push(_groupId);
+        historyStart[_groupId][_member] = start;
+
+        emit MemberAdded(_groupId, _member, start);
+    }
+
+    /// @notice Grant an account the sender, sender verification and key handles of a group message
+    /// @param _message The group message
+    /// @param _account The account to grant
+    function _allowMessage(GroupMessage storage _message, address _account) private {
+        FHE.allow(_message.encryptedSender, _account);
+        FHE.allow(_message.senderVerified, _account);
+        FHE.allow(_message.encryptedKey, _account);
+    }
+
+    /// @notice Revert unless the caller is an admin of the group
+    /// @param _groupId The group
+    function _requireAdmin(uint256 _groupId) private view {
+        address[] storage admins = groups[_groupId].admins;
+        if (_indexOf(admins, msg.sender) == admins.length) {
+            revert NotAGroupAdmin();
+        }
+    }
+
+    /// @notice Whether an account is a member with access to a group message
+    /// @param _groupId The group
+    /// @param _index Position of the message in the group's history
+    /// @param _account The account to check
+    /// @return True if the account is a member that joined before the message or was shared it
+    function _canRead(uint256 _groupId, uint256 _index, address _account) private view returns (bool) {
+        address[] storage members = groups[_groupId].members;
+        return _indexOf(members, _account) < members.length && !(_index < historyStart[_groupId][_account]);
+    }
+
+    /// @notice Position of an account in a list, or the list length if absent
+    /// @param _accounts The list
+    /// @param _account The account to find
+    /// @return index Position of the account, or `_accounts.length`
+    function _indexOf(address[] storage _accounts, address _account) private view returns (uint256 index) {
+        for (index = 0; index < _accounts.length; ++index) {
+            if (_accounts[index] == _account) {
+                break;
+            }
+        }
+    }
+}
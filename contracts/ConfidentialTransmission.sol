@@ -1,165 +1,694 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, eaddress, euint256, externalEaddress, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, eaddress, euint256, externalEaddress, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ConfidentialTransmissionViews} from "./ConfidentialTransmissionViews.sol";
+
+// Reverts carry reason strings: the tasks, the frontend and integrators match on them
+// solhint-disable gas-custom-errors
 
 /// @title Confidential Transmission - Privacy-Preserving P2P File Transfer
 /// @author confidential-transmission
 /// @notice Send encrypted files (txt, images, etc.) to specific addresses with FHE protection
-/// @dev Uses FHEVM to encrypt sender identity and decryption keys, ensuring only the recipient can decrypt
+/// @dev Uses FHEVM to encrypt sender identity and decryption keys, ensuring only the recipient can decrypt.
+///      The paged metadata views live in a companion ConfidentialTransmissionViews contract (see `views`).
 contract ConfidentialTransmission is SepoliaConfig {
     
     /// @notice Represents an encrypted message/file transmission
+    /// @dev `recipient`, `timestamp` and the `isDeleted`, `isRecalled`, `isSpam` and `isLocked` flags share one
+    ///      storage slot, so setting a flag rewrites a used slot instead of filling a new one
     struct Message {
         eaddress encryptedSender;    // FHE encrypted sender address (for anonymity)
         address recipient;           // Plain recipient address (needed for routing)
-        string contentCID;           // IPFS CID of encrypted content
-        euint256 encryptedKey;       // FHE encrypted AES decryption key (256-bit)
-        uint256 timestamp;           // Message creation time
+        uint64 timestamp;            // Message creation time
         bool isDeleted;              // Soft delete flag
+        bool isRecalled;             // Withdrawn by the sender
+        bool isSpam;                 // Marked as spam by the recipient
+        bool isLocked;               // Cannot be opened yet (waiting for `unlock`, `release` or approvals)
+        bytes32 contentDigest;       // sha2-256 digest of the content's IPFS CID (0 when the CID is hidden)
+        uint256 expiresAt;           // Time after which the message can no longer be read (0 = never)
+        ebool isRead;                // FHE encrypted read receipt (decryptable by receiptReader and recipient)
+        address receiptReader;       // Sender-derived address for read receipts and replies (0 = none)
+        bool isOpened;               // Opened by the recipient or a delegate, which granted them the key
+        uint256 inReplyTo;           // Parent message ID + 1 (0 = not a reply)
+        ebool isAllowed;             // FHE encrypted sender filter result (zero handle = no filter)
+        uint256 postage;             // Escrowed anti-spam postage in wei (0 = none or settled)
+        euint256[] encryptedCID;     // FHE encrypted CID digest (empty = public contentDigest)
+        uint256 unlockAt;            // Time from which `unlock` grants the recipient the key (0 = never locked)
+        address switchOwner;         // Address whose heartbeats hold the key back (0 = no dead man's switch)
+        ebool senderVerified;        // FHE encrypted: encryptedSender is the address that submitted the message
+    }
+    
+    /// @notice A dead man's switch: messages registered to it are released once heartbeats stop
+    struct DeadMansSwitch {
+        uint256 interval;            // Maximum time between heartbeats (0 = not configured)
+        uint256 lastHeartbeat;       // Time of the owner's latest heartbeat
+    }
+    
+    /// @notice Approvers who must sign off before a message's key is released (M of N)
+    struct ApprovalPolicy {
+        address[] approvers;         // Designated approvers (N, empty = no approval needed)
+        uint256 threshold;           // Approvals required (M, 0 = no approval needed)
+    }
+    
+    /// @notice Approval state of an approval-gated message
+    struct ApprovalGate {
+        address[] approvers;         // Designated approvers
+        uint256 threshold;           // Approvals required before the key is released
+        uint256 approvals;           // Approvals so far
+        uint256 rejections;          // Rejections so far
+    }
+    
+    /// @notice An approver's decision on a message
+    enum ApprovalVote {
+        None,                        // Not decided yet
+        Approved,                    // Signed off
+        Rejected                     // Refused
+    }
+    
+    /// @notice How a recipient's encrypted sender list is applied to the address submitting a message
+    enum SenderFilterMode {
+        Off,                         // Accept every sender
+        Allowlist,                   // Accept only listed senders
+        Blocklist                    // Accept every sender except listed ones
+    }
+    
+    /// @notice A recipient's encrypted sender list
+    struct SenderFilter {
+        SenderFilterMode mode;       // How the entries are applied
+        eaddress[] entries;          // FHE encrypted sender addresses (decryptable by the owner only)
+    }
+    
+    /// @notice An account allowed to read its owner's inbox
+    struct Delegate {
+        address account;             // Delegate address (assistant, archiver, ...)
+        uint256 expiresAt;           // Time from which the delegation no longer applies (0 = never)
     }
     
     /// @notice Stores all messages by ID
-    mapping(uint256 => Message) public messages;
+    mapping(uint256 messageId => Message message) public messages;
+    
+    /// @notice FHE encrypted AES decryption key (256-bit) of each message
+    /// @dev Kept out of `messages`: only the contract holds the key ACL until `openMessage` grants it, and
+    ///      `getMessage` hands the handle to the recipient and their delegates only
+    mapping(uint256 messageId => euint256 encryptedKey) private encryptedKeys;
     
     /// @notice Maps recipient address to their message IDs
-    mapping(address => uint256[]) private receivedMessages;
+    mapping(address recipient => uint256[] messageIds) private receivedMessages;
+    
+    /// @notice Maps a sender-derived outbox tag to its message ID + 1 (0 = unused)
+    /// @dev Tags are derived off-chain from a secret only the sender knows, so the outbox
+    ///      can be enumerated by its owner without linking messages to an address.
+    ///      Each tag is `keccak256(abi.encode(recallKey))`, which doubles as the sender commitment
+    ///      checked by `recallMessage`.
+    mapping(bytes32 outboxTag => uint256 entry) private outbox;
+    
+    /// @notice Maps a message ID to the IDs of its replies
+    mapping(uint256 messageId => uint256[] replyIds) private replies;
+    
+    /// @notice Messages their recipient has acknowledged
+    /// @dev Kept out of the ABI, it only guards against acknowledging twice
+    mapping(uint256 messageId => bool isAcknowledged) private acknowledged;
+    
+    /// @notice Maps a recipient to their encrypted sender allowlist/blocklist
+    mapping(address owner => SenderFilter filter) private senderFilters;
+    
+    /// @notice Postage in wei that each recipient requires with every incoming message (0 = free)
+    mapping(address owner => uint256 amount) public postageOf;
+    
+    /// @notice Published stealth meta-addresses: compressed spending key || compressed viewing key (66 bytes)
+    mapping(address owner => bytes metaAddress) public stealthMetaAddressOf;
     
-    /// @notice Maps sender address to their sent message IDs (for tracking)
-    mapping(address => uint256[]) private sentMessages;
+    /// @notice Approval state of each approval-gated message
+    mapping(uint256 messageId => ApprovalGate gate) private approvalGates;
+    
+    /// @notice Each approver's decision per message
+    mapping(uint256 messageId => mapping(address approver => ApprovalVote vote)) private approvalVotes;
+    
+    /// @notice Maps an approver to the messages awaiting their decision
+    mapping(address approver => uint256[] messageIds) private approvalRequests;
+    
+    /// @notice Dead man's switch of each owner
+    mapping(address owner => DeadMansSwitch deadMansSwitch) public switchOf;
+    
+    /// @notice Accounts allowed to read each owner's inbox
+    mapping(address owner => Delegate[] delegates) private delegatesOf;
     
     /// @notice Total number of messages sent
     uint256 public messageCount;
     
+    /// @notice Maximum number of recipients per `sendMessageToMany` or `sendBatch` call (bounds gas usage)
+    uint256 public constant MAX_RECIPIENTS = 50;
+    
+    /// @notice Maximum number of entries in a sender filter (each costs one FHE comparison per message)
+    uint256 public constant MAX_FILTER_ENTRIES = 32;
+    
+    /// @notice Number of euint256 chunks holding a hidden CID (its sha2-256 digest)
+    uint256 public constant CID_CHUNKS = 1;
+    
+    /// @notice ERC-5564 scheme ID of stealth announcements (secp256k1 with view tags)
+    uint256 public constant STEALTH_SCHEME_ID = 1;
+    
+    /// @notice Shortest allowed dead man's switch interval
+    uint256 public constant MIN_SWITCH_INTERVAL = 1 days;
+    
+    /// @notice Maximum number of approvers per approval-gated message
+    uint256 public constant MAX_APPROVERS = 10;
+    
+    /// @notice Maximum number of delegates per inbox (each costs ACL grants on every incoming message)
+    uint256 public constant MAX_DELEGATES = 5;
+    
+    /// @notice Forwarder trusted to relay anonymous recalls and signed opens (sends through it are refused)
+    address public immutable trustedForwarder; // solhint-disable-line immutable-vars-naming
+    
+    /// @notice Companion contract serving the paged metadata views of this contract's messages
+    ConfidentialTransmissionViews public immutable views; // solhint-disable-line immutable-vars-naming
+    
+    /// @notice Emitted when a message is opened and its key granted to the recipient and their delegates
+    /// @param messageId The opened message
+    event MessageOpened(uint256 indexed messageId);
+    
+    // Amounts, times and flags are read from the logs, not filtered on
+    // solhint-disable gas-indexed-events
+    
     /// @notice Emitted when a new message is sent
+    /// @param messageId The new message
+    /// @param recipient The address that can decrypt it
+    /// @param contentDigest sha2-256 digest of the content's IPFS CID (0 when the CID is hidden)
+    /// @param timestamp Message creation time
     event MessageSent(
         uint256 indexed messageId,
         address indexed recipient,
-        address indexed sender,
-        string contentCID,
+        bytes32 contentDigest,
         uint256 timestamp
     );
     
-    /// @notice Emitted when a message is read
+    /// @notice Emitted when a recipient acknowledges a message
+    /// @param messageId The acknowledged message
+    /// @param reader The recipient who read it
     event MessageRead(
         uint256 indexed messageId,
         address indexed reader
     );
     
     /// @notice Emitted when a message is deleted
+    /// @param messageId The deleted message
+    /// @param deleter The recipient who deleted it
     event MessageDeleted(
         uint256 indexed messageId,
         address indexed deleter
     );
     
+    /// @notice Emitted when a recipient forwards a message to a new address
+    /// @param messageId The forwarded message
+    /// @param newMessageId The copy created for the new recipient
+    event MessageForwarded(
+        uint256 indexed messageId,
+        uint256 indexed newMessageId
+    );
+    
+    /// @notice Emitted when a recipient replies to a message
+    /// @param messageId The message being answered
+    /// @param replyId The reply
+    event MessageReplied(
+        uint256 indexed messageId,
+        uint256 indexed replyId
+    );
+    
+    /// @notice Emitted when a recipient changes their sender filter
+    /// @param owner The recipient
+    event SenderFilterUpdated(
+        address indexed owner
+    );
+    
+    /// @notice Emitted when a recipient changes the postage their inbox requires
+    /// @param owner The recipient
+    /// @param amount Postage in wei (0 = free)
+    event PostageUpdated(
+        address indexed owner,
+        uint256 amount
+    );
+    
+    /// @notice Emitted when escrowed postage is paid out
+    /// @param messageId The message that carried the postage
+    /// @param to The recipient (spam) or the receipt reader (refund)
+    /// @param amount Postage in wei
+    /// @param isSpam Whether the recipient kept the postage
+    event PostageSettled(
+        uint256 indexed messageId,
+        address indexed to,
+        uint256 amount,
+        bool isSpam
+    );
+    
+    /// @notice Emitted when a recipient publishes or clears their stealth meta-address
+    /// @param owner The recipient
+    /// @param stealthMetaAddress Compressed spending key || compressed viewing key (empty when cleared)
+    event StealthMetaAddressSet(
+        address indexed owner,
+        bytes stealthMetaAddress
+    );
+    
+    /// @notice ERC-5564 announcement of a message sent to a stealth address
+    /// @param schemeId Always `STEALTH_SCHEME_ID`
+    /// @param stealthAddress The one-time recipient address
+    /// @param caller The account that submitted the message
+    /// @param ephemeralPubKey Compressed ephemeral public key the stealth address was derived with
+    /// @param metadata The view tag followed by the 32-byte message ID
+    event Announcement(
+        uint256 indexed schemeId,
+        address indexed stealthAddress,
+        address indexed caller,
+        bytes ephemeralPubKey,
+        bytes metadata
+    );
+    
+    /// @notice Emitted when a time-locked message is unlocked and its recipient gets the key
+    /// @param messageId The unlocked message
+    event MessageUnlocked(
+        uint256 indexed messageId
+    );
+    
+    /// @notice Emitted when a switch owner checks in (or configures their switch)
+    /// @param owner The switch owner
+    /// @param releasableAt Time from which the owner's switch messages can be released without another heartbeat
+    event SwitchHeartbeat(
+        address indexed owner,
+        uint256 releasableAt
+    );
+    
+    /// @notice Emitted when a dead man's switch message is released to its recipient
+    /// @param messageId The released message
+    event MessageReleased(
+        uint256 indexed messageId
+    );
+    
+    /// @notice Emitted when an approver signs off on an approval-gated message
+    /// @param messageId The message
+    /// @param approver The approver
+    /// @param approvals Approvals so far
+    event MessageApproved(
+        uint256 indexed messageId,
+        address indexed approver,
+        uint256 approvals
+    );
+    
+    /// @notice Emitted when an approver refuses an approval-gated message
+    /// @param messageId The message
+    /// @param approver The approver
+    /// @param rejections Rejections so far
+    event MessageRejected(
+        uint256 indexed messageId,
+        address indexed approver,
+        uint256 rejections
+    );
+    
+    /// @notice Emitted when a message is recalled by its (anonymous) sender
+    /// @param messageId The recalled message
+    event MessageRecalled(
+        uint256 indexed messageId
+    );
+    
+    /// @notice Emitted when an inbox owner adds a delegate or changes its expiry
+    /// @param owner The inbox owner
+    /// @param delegate The delegate
+    /// @param expiresAt Time from which the delegation no longer applies (0 = never)
+    event DelegateAdded(
+        address indexed owner,
+        address indexed delegate,
+        uint256 expiresAt
+    );
+    
+    /// @notice Emitted when an inbox owner removes a delegate
+    /// @param owner The inbox owner
+    /// @param delegate The removed delegate
+    event DelegateRemoved(
+        address indexed owner,
+        address indexed delegate
+    );
+    
+    // solhint-enable gas-indexed-events
+    
+    /// @notice Create the contract and its companion ConfidentialTransmissionViews
+    /// @param _trustedForwarder Forwarder used by relayers for anonymous recalls and signed opens
+    constructor(address _trustedForwarder) {
+        trustedForwarder = _trustedForwarder;
+        views = new ConfidentialTransmissionViews(this);
+    }
+    
     /// @notice Send an encrypted file/message to a specific address
+    /// @dev The caller is never recorded. For full anonymity send from a fresh one-time account whose gas a
+    ///      relayer sponsors, with the encrypted inputs created for that account. Sends through
+    ///      `trustedForwarder` are refused: inputs bound to it could be replayed by anyone.
+    ///      `msg.value` must equal the recipient's `postageOf`; it is escrowed and refunded to
+    ///      `_receiptReader` once the recipient reads the message.
+    ///      To keep the CID out of public metadata and events, pass a zero `_contentDigest` and the
+    ///      digest in `_encryptedCID` instead.
     /// @param _recipient The address that can decrypt this message
-    /// @param _contentCID IPFS CID of the encrypted content
+    /// @param _contentDigest sha2-256 digest of the encrypted content's IPFS CID (0 when `_encryptedCID` is used)
     /// @param _encryptedSender Encrypted sender address (for anonymity)
     /// @param _senderProof Proof for encrypted sender
     /// @param _encryptedKey Encrypted AES decryption key (256-bit)
     /// @param _keyProof Proof for encrypted key
+    /// @param _encryptedCID `CID_CHUNKS` encrypted CID chunks from the same input as the key, or none
+    /// @param _outboxTag Sender-derived tag indexing this message in their private outbox (0 = none)
+    /// @param _ttl Seconds until the message expires and can no longer be read (0 = never)
+    /// @param _unlockAt Time before which the recipient gets no access to the key (0 = readable immediately)
+    /// @param _switchOwner Address whose heartbeats hold the key back (0 = no dead man's switch)
+    /// @param _approval Approvers who must sign off before the key is released (empty = none)
+    /// @param _receiptReader Sender-derived address allowed to decrypt the read receipt (0 = no receipts)
     /// @return messageId The ID of the created message
     function sendMessage(
         address _recipient,
-        string memory _contentCID,
+        bytes32 _contentDigest,
         externalEaddress _encryptedSender,
         bytes calldata _senderProof,
         externalEuint256 _encryptedKey,
-        bytes calldata _keyProof
-    ) external returns (uint256 messageId) {
+        bytes calldata _keyProof,
+        externalEuint256[] calldata _encryptedCID,
+        bytes32 _outboxTag,
+        uint256 _ttl,
+        uint256 _unlockAt,
+        address _switchOwner,
+        ApprovalPolicy calldata _approval,
+        address _receiptReader
+    ) external payable returns (uint256 messageId) {
         require(_recipient != address(0), "Invalid recipient");
-        require(bytes(_contentCID).length > 0, "Empty content CID");
+        require(msg.value == postageOf[_recipient], "Incorrect postage");
         
         // Convert external encrypted input to FHE types
         eaddress sender = FHE.fromExternal(_encryptedSender, _senderProof);
         euint256 key = FHE.fromExternal(_encryptedKey, _keyProof);
-        
-        // Grant decryption permission ONLY to the recipient
-        FHE.allow(sender, _recipient);
-        FHE.allow(key, _recipient);
+        euint256[] memory cid = _encryptedCIDFrom(_contentDigest, _encryptedCID, _keyProof);
         
         // Also allow contract to access for potential future features
         FHE.allowThis(sender);
         FHE.allowThis(key);
         
-        // Store the message
-        messages[messageCount] = Message({
-            encryptedSender: sender,
-            recipient: _recipient,
-            contentCID: _contentCID,
-            encryptedKey: key,
-            timestamp: block.timestamp,
-            isDeleted: false
-        });
+        messageId = _storeMessage(
+            _recipient,
+            _contentDigest,
+            cid,
+            sender,
+            _verifySender(sender),
+            key,
+            _outboxTag,
+            _expiryFor(_ttl),
+            _unlockAt,
+            _switchOwner,
+            _approval,
+            _receiptReader
+        );
+    }
+    
+    /// @notice Send an encrypted file/message to a one-time stealth address and announce it (ERC-5564)
+    /// @dev The sender derives `_stealthAddress` from the recipient's `stealthMetaAddressOf` and a fresh
+    ///      ephemeral key, so the recipient's address never appears on-chain. The recipient scans
+    ///      `Announcement` events with their viewing key and derives the stealth private key, which
+    ///      holds the message's FHE decryption rights; it signs an `openMessageFor` request, since the
+    ///      stealth address has no ETH. Stealth addresses charge no postage and have no sender filter.
+    /// @param _stealthAddress The one-time address that can decrypt this message
+    /// @param _ephemeralPubKey Compressed ephemeral public key (33 bytes) used to derive `_stealthAddress`
+    /// @param _viewTag First byte of the hashed shared secret, lets scanners skip most announcements
+    /// @param _contentDigest sha2-256 digest of the encrypted content's IPFS CID (0 when `_encryptedCID` is used)
+    /// @param _encryptedSender Encrypted sender address (for anonymity)
+    /// @param _senderProof Proof for encrypted sender
+    /// @param _encryptedKey Encrypted AES decryption key (256-bit)
+    /// @param _keyProof Proof for encrypted key
+    /// @param _encryptedCID `CID_CHUNKS` encrypted CID chunks from the same input as the key, or none
+    /// @param _outboxTag Sender-derived tag indexing this message in their private outbox (0 = none)
+    /// @param _ttl Seconds until the message expires and can no longer be read (0 = never)
+    /// @param _unlockAt Time before which the recipient gets no access to the key (0 = readable immediately)
+    /// @param _switchOwner Address whose heartbeats hold the key back (0 = no dead man's switch)
+    /// @param _approval Approvers who must sign off before the key is released (empty = none)
+    /// @param _receiptReader Sender-derived address allowed to decrypt the read receipt (0 = no receipts)
+    /// @return messageId The ID of the created message
+    function sendStealthMessage(
+        address _stealthAddress,
+        bytes calldata _ephemeralPubKey,
+        bytes1 _viewTag,
+        bytes32 _contentDigest,
+        externalEaddress _encryptedSender,
+        bytes calldata _senderProof,
+        externalEuint256 _encryptedKey,
+        bytes calldata _keyProof,
+        externalEuint256[] calldata _encryptedCID,
+        bytes32 _outboxTag,
+        uint256 _ttl,
+        uint256 _unlockAt,
+        address _switchOwner,
+        ApprovalPolicy calldata _approval,
+        address _receiptReader
+    ) external payable returns (uint256 messageId) {
+        require(_stealthAddress != address(0), "Invalid recipient");
+        require(_ephemeralPubKey.length == 33, "Invalid ephemeral key");
+        require(msg.value == postageOf[_stealthAddress], "Incorrect postage");
         
-        // Update indices
-        receivedMessages[_recipient].push(messageCount);
-        sentMessages[msg.sender].push(messageCount);
+        eaddress sender = FHE.fromExternal(_encryptedSender, _senderProof);
+        euint256 key = FHE.fromExternal(_encryptedKey, _keyProof);
+        euint256[] memory cid = _encryptedCIDFrom(_contentDigest, _encryptedCID, _keyProof);
         
-        emit MessageSent(
-            messageCount,
-            _recipient,
+        FHE.allowThis(sender);
+        FHE.allowThis(key);
+        
+        messageId = _storeMessage(
+            _stealthAddress,
+            _contentDigest,
+            cid,
+            sender,
+            _verifySender(sender),
+            key,
+            _outboxTag,
+            _expiryFor(_ttl),
+            _unlockAt,
+            _switchOwner,
+            _approval,
+            _receiptReader
+        );
+        
+        emit Announcement(
+            STEALTH_SCHEME_ID,
+            _stealthAddress,
             msg.sender,
-            _contentCID,
-            block.timestamp
+            _ephemeralPubKey,
+            abi.encodePacked(_viewTag, messageId)
         );
+    }
+    
+    /// @notice Send the same encrypted file/message to several addresses in one transaction
+    /// @dev One content CID and one encrypted key are shared; each recipient gets its own message entry
+    ///      (and thus independent read/delete state) and ACL access to the shared handles.
+    ///      `msg.value` must equal the sum of the recipients' postage.
+    /// @param _recipients The addresses that can decrypt this message
+    /// @param _contentDigest sha2-256 digest of the encrypted content's IPFS CID (0 when `_encryptedCID` is used)
+    /// @param _encryptedSender Encrypted sender address (for anonymity)
+    /// @param _senderProof Proof for encrypted sender
+    /// @param _encryptedKey Encrypted AES decryption key (256-bit)
+    /// @param _keyProof Proof for encrypted key
+    /// @param _encryptedCID `CID_CHUNKS` encrypted CID chunks from the same input as the key, or none
+    /// @param _outboxTags One outbox tag per recipient, or an empty array for none
+    /// @param _ttl Seconds until the messages expire and can no longer be read (0 = never)
+    /// @param _unlockAt Time before which the recipients get no access to the key (0 = readable immediately)
+    /// @param _switchOwner Address whose heartbeats hold the key back (0 = no dead man's switch)
+    /// @param _approval Approvers who must sign off before the key is released (empty = none)
+    /// @param _receiptReaders One read receipt reader per recipient, or an empty array for none
+    /// @return messageIds The IDs of the created messages, in recipient order
+    function sendMessageToMany(
+        address[] calldata _recipients,
+        bytes32 _contentDigest,
+        externalEaddress _encryptedSender,
+        bytes calldata _senderProof,
+        externalEuint256 _encryptedKey,
+        bytes calldata _keyProof,
+        externalEuint256[] calldata _encryptedCID,
+        bytes32[] calldata _outboxTags,
+        uint256 _ttl,
+        uint256 _unlockAt,
+        address _switchOwner,
+        ApprovalPolicy calldata _approval,
+        address[] calldata _receiptReaders
+    ) external payable returns (uint256[] memory messageIds) {
+        _checkFanOut(_recipients.length, _outboxTags.length, _receiptReaders.length);
         
-        messageId = messageCount;
-        messageCount++;
+        eaddress sender = FHE.fromExternal(_encryptedSender, _senderProof);
+        euint256 key = FHE.fromExternal(_encryptedKey, _keyProof);
+        euint256[] memory cid = _encryptedCIDFrom(_contentDigest, _encryptedCID, _keyProof);
+        
+        FHE.allowThis(sender);
+        FHE.allowThis(key);
+        
+        ebool senderVerified = _verifySender(sender);
+        uint256 expiresAt = _expiryFor(_ttl);
+        ApprovalPolicy memory approval = _approval;
+        uint256 totalPostage = 0;
+        messageIds = new uint256[](_recipients.length);
+        for (uint256 i = 0; i < _recipients.length; ++i) {
+            require(_recipients[i] != address(0), "Invalid recipient");
+            bytes32 outboxTag = _outboxTags.length == 0 ? bytes32(0) : _outboxTags[i];
+            address receiptReader = _receiptReaders.length == 0 ? address(0) : _receiptReaders[i];
+            messageIds[i] = _storeMessage(
+                _recipients[i],
+                _contentDigest,
+                cid,
+                sender,
+                senderVerified,
+                key,
+                outboxTag,
+                expiresAt,
+                _unlockAt,
+                _switchOwner,
+                approval,
+                receiptReader
+            );
+            totalPostage += messages[messageIds[i]].postage;
+        }
+        require(msg.value == totalPostage, "Incorrect postage");
+    }
+    
+    /// @notice Send different encrypted files/messages to several addresses in one transaction
+    /// @dev The encrypted sender and every key come from one combined encrypted input, so a single
+    ///      `_inputProof` covers all handles. CIDs are public; expiry and release conditions apply to
+    ///      every message of the batch. `msg.value` must equal the sum of the recipients' postage.
+    /// @param _recipients The address that can decrypt each message
+    /// @param _contentDigests sha2-256 digest of each message's IPFS CID
+    /// @param _encryptedSender Encrypted sender address (for anonymity), shared by all messages
+    /// @param _encryptedKeys Encrypted AES decryption key (256-bit) of each message
+    /// @param _inputProof Proof for the encrypted sender and keys
+    /// @param _outboxTags One outbox tag per message, or an empty array for none
+    /// @param _ttl Seconds until the messages expire and can no longer be read (0 = never)
+    /// @param _unlockAt Time before which the recipients get no access to the keys (0 = readable immediately)
+    /// @param _switchOwner Address whose heartbeats hold the keys back (0 = no dead man's switch)
+    /// @param _approval Approvers who must sign off before each key is released (empty = none)
+    /// @param _receiptReaders One read receipt reader per message, or an empty array for none
+    /// @return messageIds The IDs of the created messages, in input order
+    function sendBatch(
+        address[] calldata _recipients,
+        bytes32[] calldata _contentDigests,
+        externalEaddress _encryptedSender,
+        externalEuint256[] calldata _encryptedKeys,
+        bytes calldata _inputProof,
+        bytes32[] calldata _outboxTags,
+        uint256 _ttl,
+        uint256 _unlockAt,
+        address _switchOwner,
+        ApprovalPolicy calldata _approval,
+        address[] calldata _receiptReaders
+    ) external payable returns (uint256[] memory messageIds) {
+        _checkFanOut(_recipients.length, _outboxTags.length, _receiptReaders.length);
+        require(_contentDigests.length == _recipients.length, "CID count mismatch");
+        require(_encryptedKeys.length == _recipients.length, "Key count mismatch");
+        
+        eaddress sender = FHE.fromExternal(_encryptedSender, _inputProof);
+        FHE.allowThis(sender);
+        
+        ebool senderVerified = _verifySender(sender);
+        uint256 expiresAt = _expiryFor(_ttl);
+        euint256[] memory noEncryptedCID = new euint256[](0);
+        ApprovalPolicy memory approval = _approval;
+        uint256 totalPostage = 0;
+        messageIds = new uint256[](_recipients.length);
+        for (uint256 i = 0; i < _recipients.length; ++i) {
+            require(_recipients[i] != address(0), "Invalid recipient");
+            require(_contentDigests[i] != bytes32(0), "Empty content CID");
+            
+            euint256 key = FHE.fromExternal(_encryptedKeys[i], _inputProof);
+            FHE.allowThis(key);
+            
+            messageIds[i] = _storeMessage(
+                _recipients[i],
+                _contentDigests[i],
+                noEncryptedCID,
+                sender,
+                senderVerified,
+                key,
+                _outboxTags.length == 0 ? bytes32(0) : _outboxTags[i],
+                expiresAt,
+                _unlockAt,
+                _switchOwner,
+                approval,
+                _receiptReaders.length == 0 ? address(0) : _receiptReaders[i]
+            );
+            totalPostage += messages[messageIds[i]].postage;
+        }
+        require(msg.value == totalPostage, "Incorrect postage");
     }
     
-    /// @notice Get encrypted message data (only callable by recipient)
+    /// @notice Get encrypted message data (only callable by the recipient or a delegate, once the message is open)
+    /// @dev The key and hidden CID can only be decrypted after `openMessage` granted them, which is refused once
+    ///      the message is recalled or expired, so such a message that was never opened stays unreadable.
+    ///      FHE ACL grants cannot be revoked: a message opened in time stays decryptable for its readers.
     /// @param _messageId The ID of the message to retrieve
     /// @return encryptedSender FHE encrypted sender address
-    /// @return contentCID IPFS CID of encrypted content
+    /// @return contentDigest sha2-256 digest of the content's IPFS CID (0 when the CID is hidden)
     /// @return encryptedKey FHE encrypted decryption key
     /// @return timestamp Message creation time
+    /// @return encryptedCID FHE encrypted CID digest to user-decrypt when `contentDigest` is 0
+    /// @return senderVerified FHE encrypted flag: whether `encryptedSender` submitted the message
     function getMessage(uint256 _messageId)
         external
         view
         returns (
             eaddress encryptedSender,
-            string memory contentCID,
+            bytes32 contentDigest,
             euint256 encryptedKey,
-            uint256 timestamp
+            uint256 timestamp,
+            euint256[] memory encryptedCID,
+            ebool senderVerified
         )
     {
         Message storage message = messages[_messageId];
         require(!message.isDeleted, "Message deleted");
-        require(message.recipient == msg.sender, "Not authorized");
+        require(
+            message.recipient == msg.sender || _isDelegate(message.recipient, msg.sender),
+            "Not authorized"
+        );
+        require(!message.isRecalled, "Message recalled");
+        require(!_isExpired(message), "Message expired");
+        require(!message.isLocked, "Message locked");
+        require(message.isOpened, "Message not opened");
         
         return (
             message.encryptedSender,
-            message.contentCID,
-            message.encryptedKey,
-            message.timestamp
+            message.contentDigest,
+            encryptedKeys[_messageId],
+            message.timestamp,
+            message.encryptedCID,
+            message.senderVerified
         );
     }
     
     /// @notice Get public metadata of a message (anyone can view)
     /// @param _messageId The ID of the message
     /// @return recipient The recipient address
-    /// @return contentCID IPFS CID (encrypted content)
+    /// @return contentDigest sha2-256 digest of the content's IPFS CID (0 when the CID is hidden)
     /// @return timestamp Message creation time
     /// @return isDeleted Whether message is deleted
+    /// @return expiresAt Expiry time (0 = never)
+    /// @return isExpired Whether the message has expired
+    /// @return isRecalled Whether the sender has recalled the message
     function getMessageMetadata(uint256 _messageId)
         external
         view
         returns (
             address recipient,
-            string memory contentCID,
+            bytes32 contentDigest,
             uint256 timestamp,
-            bool isDeleted
+            bool isDeleted,
+            uint256 expiresAt,
+            bool isExpired,
+            bool isRecalled
         )
     {
         Message storage message = messages[_messageId];
         return (
             message.recipient,
-            message.contentCID,
+            message.contentDigest,
             message.timestamp,
-            message.isDeleted
+            message.isDeleted,
+            message.expiresAt,
+            _isExpired(message),
+            message.isRecalled
         );
     }
     
@@ -169,10 +698,32 @@ contract ConfidentialTransmission is SepoliaConfig {
         return receivedMessages[msg.sender];
     }
     
-    /// @notice Get all message IDs sent by the caller
-    /// @return Array of message IDs
-    function getMySentMessages() external view returns (uint256[] memory) {
-        return sentMessages[msg.sender];
+    /// @notice Resolve outbox tags to message IDs
+    /// @dev Senders derive their tags locally and query them in batches to rebuild their outbox
+    /// @param _outboxTags Tags to look up
+    /// @return found Whether each tag has been used
+    /// @return messageIds Message ID for each used tag (0 when unused)
+    function getOutboxMessages(bytes32[] calldata _outboxTags)
+        external
+        view
+        returns (bool[] memory found, uint256[] memory messageIds)
+    {
+        found = new bool[](_outboxTags.length);
+        messageIds = new uint256[](_outboxTags.length);
+        for (uint256 i = 0; i < _outboxTags.length; ++i) {
+            uint256 entry = outbox[_outboxTags[i]];
+            if (entry != 0) {
+                found[i] = true;
+                messageIds[i] = entry - 1;
+            }
+        }
+    }
+    
+    /// @notice Check whether an address is the trusted forwarder (EIP-2771)
+    /// @param _forwarder The address to check
+    /// @return True if `_forwarder` is the trusted forwarder
+    function isTrustedForwarder(address _forwarder) external view returns (bool) {
+        return _forwarder == trustedForwarder;
     }
     
     /// @notice Get message IDs received by a specific address
@@ -186,6 +737,26 @@ contract ConfidentialTransmission is SepoliaConfig {
         return receivedMessages[_recipient];
     }
     
+    /// @notice Get a slice of the message IDs received by a specific address
+    /// @param _recipient The recipient address to query
+    /// @param _offset Position in the recipient's inbox to start from
+    /// @param _limit Maximum number of IDs to return
+    /// @return ids Message IDs from `_offset`, oldest first
+    /// @return total Number of messages in the inbox
+    function getReceivedMessageIds(address _recipient, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (uint256[] memory ids, uint256 total)
+    {
+        uint256[] storage received = receivedMessages[_recipient];
+        total = received.length;
+        uint256 count = _offset < total ? total - _offset : 0;
+        ids = new uint256[](count < _limit ? count : _limit);
+        for (uint256 i = 0; i < ids.length; ++i) {
+            ids[i] = received[_offset + i];
+        }
+    }
+    
     /// @notice Soft delete a message (only by recipient)
     /// @param _messageId The ID of the message to delete
     function deleteMessage(uint256 _messageId) external {
@@ -198,6 +769,479 @@ contract ConfidentialTransmission is SepoliaConfig {
         emit MessageDeleted(_messageId, msg.sender);
     }
     
+    /// @notice Recall a message before the recipient opens it (only by the original sender)
+    /// @dev The sender proves authorship by revealing the recall key behind the message's outbox tag,
+    ///      so no address is checked or recorded. Submit through the relayer to stay anonymous.
+    ///      Only the contract holds the key until `openMessage`, which refuses recalled messages, so a
+    ///      recall withholds the key for good. Once opened, the key is granted and a recall is refused.
+    ///      Messages with escrowed postage cannot be recalled: the postage stays with the message until the
+    ///      recipient acknowledges it or marks it as spam, so a recall can never take it back unread.
+    /// @param _messageId The ID of the message to recall
+    /// @param _recallKey Preimage of the outbox tag used when sending
+    function recallMessage(uint256 _messageId, bytes32 _recallKey) external {
+        Message storage message = messages[_messageId];
+        require(outbox[keccak256(abi.encode(_recallKey))] == _messageId + 1, "Not authorized");
+        require(!message.isDeleted, "Message deleted");
+        require(!message.isRecalled, "Already recalled");
+        require(message.postage == 0, "Postage escrowed");
+        require(!message.isOpened, "Message opened");
+        
+        message.isRecalled = true;
+        
+        emit MessageRecalled(_messageId);
+    }
+    
+    /// @notice Forward a received message to a new address (only by recipient)
+    /// @dev Creates a new message that reuses the content CID and encrypted key handle, so nothing is
+    ///      re-encrypted or re-uploaded. The contract's own ACL on the handles allows granting them to
+    ///      the new recipient. The forwarded copy keeps the original expiry and has no outbox tag.
+    ///      The forwarder pays the new recipient's postage and becomes the copy's receipt reader.
+    ///      Only opened messages can be forwarded; the new recipient opens the copy like any other message.
+    /// @param _messageId The ID of the received message
+    /// @param _newRecipient The address that can decrypt the forwarded message
+    /// @param _withholdSender Replace the original encrypted sender with an encrypted zero address
+    /// @return newMessageId The ID of the forwarded message
+    function forwardMessage(
+        uint256 _messageId,
+        address _newRecipient,
+        bool _withholdSender
+    ) external payable returns (uint256 newMessageId) {
+        Message storage message = messages[_messageId];
+        require(!message.isDeleted, "Message deleted");
+        require(message.recipient == msg.sender, "Not authorized");
+        require(!message.isRecalled, "Message recalled");
+        require(!_isExpired(message), "Message expired");
+        require(_newRecipient != address(0), "Invalid recipient");
+        require(message.isOpened, "Message not opened");
+        require(msg.value == postageOf[_newRecipient], "Incorrect postage");
+        ApprovalPolicy memory noApproval;
+        
+        // The copy keeps the original verification result; a withheld sender is never verified
+        eaddress sender = message.encryptedSender;
+        ebool senderVerified = message.senderVerified;
+        if (_withholdSender) {
+            sender = FHE.asEaddress(address(0));
+            senderVerified = FHE.asEbool(false);
+            FHE.allowThis(sender);
+            FHE.allowThis(senderVerified);
+        }
+        
+        newMessageId = _storeMessage(
+            _newRecipient,
+            message.contentDigest,
+            message.encryptedCID,
+            sender,
+            senderVerified,
+            encryptedKeys[_messageId],
+            bytes32(0),
+            message.expiresAt,
+            0,
+            address(0),
+            noApproval,
+            msg.sender
+        );
+        
+        emit MessageForwarded(_messageId, newMessageId);
+    }
+    
+    /// @notice Reply to a received message without learning who sent it (only by recipient)
+    /// @dev The reply is addressed to the original message's receipt reader, a pseudonymous address the
+    ///      sender derived from their outbox secret, so the key ACL reaches the sender while the replier
+    ///      only ever sees the encrypted sender. The replier becomes the reply's receipt reader, so
+    ///      their own address receives any reply to the reply.
+    /// @param _originalId The ID of the message being answered
+    /// @param _contentDigest sha2-256 digest of the reply content's IPFS CID (0 when `_encryptedCID` is used)
+    /// @param _encryptedKey Encrypted AES decryption key (256-bit)
+    /// @param _keyProof Proof for encrypted key
+    /// @param _encryptedCID `CID_CHUNKS` encrypted CID chunks from the same input as the key, or none
+    /// @return replyId The ID of the reply message
+    function replyToMessage(
+        uint256 _originalId,
+        bytes32 _contentDigest,
+        externalEuint256 _encryptedKey,
+        bytes calldata _keyProof,
+        externalEuint256[] calldata _encryptedCID
+    ) external payable returns (uint256 replyId) {
+        Message storage original = messages[_originalId];
+        require(!original.isDeleted, "Message deleted");
+        require(original.recipient == msg.sender, "Not authorized");
+        require(!original.isRecalled, "Message recalled");
+        require(original.receiptReader != address(0), "Sender does not accept replies");
+        require(msg.value == postageOf[original.receiptReader], "Incorrect postage");
+        
+        // The contract encrypts the replier's own address, so the reply sender is always verified
+        eaddress sender = FHE.asEaddress(msg.sender);
+        ebool senderVerified = FHE.asEbool(true);
+        euint256 key = FHE.fromExternal(_encryptedKey, _keyProof);
+        euint256[] memory cid = _encryptedCIDFrom(_contentDigest, _encryptedCID, _keyProof);
+        FHE.allowThis(sender);
+        FHE.allowThis(senderVerified);
+        FHE.allowThis(key);
+        
+        ApprovalPolicy memory noApproval;
+        replyId = _storeMessage(
+            original.receiptReader,
+            _contentDigest,
+            cid,
+            sender,
+            senderVerified,
+            key,
+            bytes32(0),
+            0,
+            0,
+            address(0),
+            noApproval,
+            msg.sender
+        );
+        messages[replyId].inReplyTo = _originalId + 1;
+        replies[_originalId].push(replyId);
+        
+        emit MessageReplied(_originalId, replyId);
+    }
+    
+    /// @notice Get the IDs of the replies to a message, oldest first (see `views` for their metadata)
+    /// @param _messageId The ID of the message
+    /// @return Array of reply IDs
+    function getReplyIds(uint256 _messageId) external view returns (uint256[] memory) {
+        return replies[_messageId];
+    }
+    
+    /// @notice Open a received message, granting the recipient and their active delegates its key and hidden CID
+    /// @dev Only the contract holds the key ACL until then. Opening is refused once the message is deleted,
+    ///      recalled or expired, and while it is locked; ACL grants are permanent, so it can only happen once.
+    /// @param _messageId The ID of the message to open
+    function openMessage(uint256 _messageId) external {
+        _openMessage(_messageId, msg.sender);
+    }
+    
+    /// @notice Open a message on behalf of its recipient or a delegate who signed the request
+    /// @dev Lets accounts without ETH, such as stealth addresses and outbox reader wallets, open through a relayer.
+    ///      The reader signs `keccak256(abi.encode(address(this), block.chainid, _messageId))` as an EIP-191
+    ///      personal message; a signature opens only that message, so replaying it cannot do anything else.
+    /// @param _messageId The ID of the message to open
+    /// @param _signature 65-byte signature of the recipient or an active delegate
+    function openMessageFor(uint256 _messageId, bytes calldata _signature) external {
+        require(_signature.length == 65, "Invalid signature");
+        bytes32 digest = keccak256(
+            abi.encodePacked(
+                "\x19Ethereum Signed Message:\n32",
+                keccak256(abi.encode(address(this), block.chainid, _messageId))
+            )
+        );
+        address reader = ecrecover(
+            digest,
+            uint8(_signature[64]),
+            bytes32(_signature[:32]),
+            bytes32(_signature[32:64])
+        );
+        _openMessage(_messageId, reader);
+    }
+    
+    /// @notice Acknowledge that a message was read (only by recipient, after a successful decrypt)
+    /// @dev Emits `MessageRead`, sets the encrypted read flag to true and lets the recipient and the
+    ///      message's receipt reader decrypt it. Any escrowed postage is refunded to the receipt reader.
+    ///      The event makes the read public, like the acknowledgement transaction itself; the anonymous
+    ///      sender is still never linked to the message on-chain, they learn the outcome through the flag.
+    ///      A message can be acknowledged once, and not after a recall or expiry.
+    /// @param _messageId The ID of the message that was read
+    function acknowledgeMessage(uint256 _messageId) external {
+        Message storage message = messages[_messageId];
+        require(!message.isDeleted, "Message deleted");
+        require(message.recipient == msg.sender, "Not authorized");
+        require(!message.isRecalled, "Message recalled");
+        require(!_isExpired(message), "Message expired");
+        require(message.isOpened, "Message not opened");
+        require(!acknowledged[_messageId], "Already acknowledged");
+        
+        acknowledged[_messageId] = true;
+        message.isRead = FHE.asEbool(true);
+        FHE.allowThis(message.isRead);
+        FHE.allow(message.isRead, msg.sender);
+        if (message.receiptReader != address(0)) {
+            FHE.allow(message.isRead, message.receiptReader);
+        }
+        
+        emit MessageRead(_messageId, msg.sender);
+        
+        _settlePostage(_messageId, message.receiptReader, false);
+    }
+    
+    /// @notice Let the recipient open a time-locked message once its unlock time has passed
+    /// @dev Anyone can call this, so a recipient does not need to be online at the unlock time.
+    ///      The recipient is granted the key (and hidden CID) when they `openMessage`. Deleted, recalled
+    ///      and expired messages stay locked.
+    /// @param _messageId The ID of the message to unlock
+    function unlock(uint256 _messageId) external {
+        Message storage message = messages[_messageId];
+        require(message.isLocked, "Message not locked");
+        _checkAvailable(message);
+        require(message.switchOwner == address(0), "Use release for switches");
+        require(!(block.timestamp < message.unlockAt), "Message still locked");
+        require(_isApproved(_messageId), "Awaiting approvals");
+        
+        message.isLocked = false;
+        
+        emit MessageUnlocked(_messageId);
+    }
+    
+    /// @notice Sign off on an approval-gated message (designated approvers only)
+    /// @dev The approval that meets the threshold unlocks the message, unless it is also time-locked or
+    ///      held by a dead man's switch; `unlock` or `release` then follow the usual rules.
+    /// @param _messageId The ID of the message to approve
+    function approveMessage(uint256 _messageId) external {
+        ApprovalGate storage gate = _castApprovalVote(_messageId, ApprovalVote.Approved);
+        ++gate.approvals;
+        
+        emit MessageApproved(_messageId, msg.sender, gate.approvals);
+        
+        Message storage message = messages[_messageId];
+        if (
+            gate.approvals == gate.threshold &&
+            message.switchOwner == address(0) &&
+            !(block.timestamp < message.unlockAt)
+        ) {
+            message.isLocked = false;
+            emit MessageUnlocked(_messageId);
+        }
+    }
+    
+    /// @notice Refuse an approval-gated message (designated approvers only)
+    /// @dev Once too many approvers refuse for the threshold to be reachable, the key is never released
+    /// @param _messageId The ID of the message to reject
+    function rejectMessage(uint256 _messageId) external {
+        ApprovalGate storage gate = _castApprovalVote(_messageId, ApprovalVote.Rejected);
+        ++gate.rejections;
+        
+        emit MessageRejected(_messageId, msg.sender, gate.rejections);
+    }
+    
+    /// @notice Get the approval state of a message
+    /// @param _messageId The ID of the message
+    /// @return approvers Designated approvers (empty when no approval is needed)
+    /// @return threshold Approvals required before the key is released
+    /// @return approvals Approvals so far
+    /// @return rejections Rejections so far
+    function getApprovalGate(uint256 _messageId)
+        external
+        view
+        returns (address[] memory approvers, uint256 threshold, uint256 approvals, uint256 rejections)
+    {
+        ApprovalGate storage gate = approvalGates[_messageId];
+        return (gate.approvers, gate.threshold, gate.approvals, gate.rejections);
+    }
+    
+    /// @notice Get an approver's decision on a message
+    /// @param _messageId The ID of the message
+    /// @param _approver The approver
+    /// @return vote None, Approved or Rejected
+    function getApprovalVote(uint256 _messageId, address _approver) external view returns (ApprovalVote vote) {
+        return approvalVotes[_messageId][_approver];
+    }
+    
+    /// @notice Get the IDs of every message an address was asked to approve (see `views` for their metadata)
+    /// @param _approver The approver
+    /// @return Array of message IDs, in sending order
+    function getApprovalRequestIds(address _approver) external view returns (uint256[] memory) {
+        return approvalRequests[_approver];
+    }
+    
+    /// @notice Start the caller's dead man's switch or change its interval; also counts as a heartbeat
+    /// @param _interval Maximum time between heartbeats before the caller's switch messages can be released
+    function configureSwitch(uint256 _interval) external {
+        require(!(_interval < MIN_SWITCH_INTERVAL), "Interval too short");
+        
+        switchOf[msg.sender] = DeadMansSwitch({interval: _interval, lastHeartbeat: block.timestamp});
+        
+        emit SwitchHeartbeat(msg.sender, block.timestamp + _interval);
+    }
+    
+    /// @notice Check in, holding back every message registered to the caller's switch for another interval
+    /// @dev A heartbeat after the deadline re-arms the switch for messages nobody has released yet
+    function heartbeat() external {
+        DeadMansSwitch storage deadMansSwitch = switchOf[msg.sender];
+        require(deadMansSwitch.interval > 0, "Switch not configured");
+        
+        deadMansSwitch.lastHeartbeat = block.timestamp;
+        
+        emit SwitchHeartbeat(msg.sender, block.timestamp + deadMansSwitch.interval);
+    }
+    
+    /// @notice Let the recipient open a dead man's switch message once its owner stopped checking in
+    /// @dev Anyone can call this. A message that is also time-locked additionally waits for `unlockAt`.
+    ///      Deleted, recalled and expired messages stay locked.
+    /// @param _messageId The ID of the message to release
+    function release(uint256 _messageId) external {
+        Message storage message = messages[_messageId];
+        require(message.isLocked, "Message not locked");
+        _checkAvailable(message);
+        require(message.switchOwner != address(0), "No dead man's switch");
+        require(!(block.timestamp < _releasableAt(message.switchOwner)), "Switch not triggered");
+        require(!(block.timestamp < message.unlockAt), "Message still locked");
+        require(_isApproved(_messageId), "Awaiting approvals");
+        
+        message.isLocked = false;
+        
+        emit MessageReleased(_messageId);
+    }
+    
+    /// @notice Allow an account to read your inbox, or change the expiry of an existing delegate
+    /// @dev From now on every incoming message is shared with the delegate; share earlier messages with
+    ///      `grantDelegateAccess`. FHE ACL grants are permanent, so removing a delegate or letting it expire
+    ///      stops future grants and `getMessage` access but cannot hide keys it has already been granted.
+    /// @param _delegate The account to delegate to
+    /// @param _expiry Time from which the delegation no longer applies (0 = never)
+    function addDelegate(address _delegate, uint256 _expiry) external {
+        require(_delegate != address(0) && _delegate != msg.sender, "Invalid delegate");
+        require(_expiry == 0 || _expiry > block.timestamp, "Expiry in the past");
+        
+        Delegate[] storage delegates = delegatesOf[msg.sender];
+        uint256 index = _delegateIndex(delegates, _delegate);
+        if (index == delegates.length) {
+            require(delegates.length < MAX_DELEGATES, "Too many delegates");
+            delegates.push(Delegate({account: _delegate, expiresAt: _expiry}));
+        } else {
+            delegates[index].expiresAt = _expiry;
+        }
+        
+        emit DelegateAdded(msg.sender, _delegate, _expiry);
+    }
+    
+    /// @notice Stop sharing your inbox with a delegate
+    /// @param _delegate The delegate to remove
+    function removeDelegate(address _delegate) external {
+        Delegate[] storage delegates = delegatesOf[msg.sender];
+        uint256 index = _delegateIndex(delegates, _delegate);
+        require(index < delegates.length, "Not a delegate");
+        
+        delegates[index] = delegates[delegates.length - 1];
+        delegates.pop();
+        
+        emit DelegateRemoved(msg.sender, _delegate);
+    }
+    
+    /// @notice Share messages received before a delegate was added (only by recipient)
+    /// @dev Unopened messages share their sender handles now and their key once opened
+    /// @param _messageIds The messages to share
+    /// @param _delegate An active delegate of the caller
+    function grantDelegateAccess(uint256[] calldata _messageIds, address _delegate) external {
+        require(_isDelegate(msg.sender, _delegate), "Not an active delegate");
+        
+        for (uint256 i = 0; i < _messageIds.length; ++i) {
+            require(messages[_messageIds[i]].recipient == msg.sender, "Not authorized");
+            _allowMessage(_messageIds[i], _delegate);
+        }
+    }
+    
+    /// @notice Get the delegates of an inbox, including expired ones
+    /// @param _owner The inbox owner
+    /// @return delegates The owner's delegates and their expiry times
+    function getDelegates(address _owner) external view returns (Delegate[] memory delegates) {
+        return delegatesOf[_owner];
+    }
+    
+    /// @notice Publish the stealth meta-address senders derive one-time addresses from
+    /// @param _stealthMetaAddress Compressed spending key || compressed viewing key, or empty to clear
+    function setStealthMetaAddress(bytes calldata _stealthMetaAddress) external {
+        require(
+            _stealthMetaAddress.length == 0 || _stealthMetaAddress.length == 66,
+            "Invalid stealth meta-address"
+        );
+        
+        stealthMetaAddressOf[msg.sender] = _stealthMetaAddress;
+        
+        emit StealthMetaAddressSet(msg.sender, _stealthMetaAddress);
+    }
+    
+    /// @notice Set the postage every incoming message must carry (0 = free)
+    /// @param _amount Postage in wei
+    function setPostage(uint256 _amount) external {
+        postageOf[msg.sender] = _amount;
+        
+        emit PostageUpdated(msg.sender, _amount);
+    }
+    
+    /// @notice Mark a received message as spam and keep its postage (only by recipient)
+    /// @param _messageId The ID of the message
+    function markAsSpam(uint256 _messageId) external {
+        Message storage message = messages[_messageId];
+        require(message.recipient == msg.sender, "Not authorized");
+        require(!message.isSpam, "Already marked as spam");
+        
+        message.isSpam = true;
+        
+        _settlePostage(_messageId, msg.sender, true);
+    }
+    
+    /// @notice Refund a received message's postage to its receipt reader without reading it (only by recipient)
+    /// @dev Works in any state, so the postage of a deleted or expired message, which can no longer be
+    ///      acknowledged, is not stuck in the contract.
+    /// @param _messageId The ID of the message
+    function refundPostage(uint256 _messageId) external {
+        Message storage message = messages[_messageId];
+        require(message.recipient == msg.sender, "Not authorized");
+        require(message.postage > 0, "No postage");
+        
+        _settlePostage(_messageId, message.receiptReader, false);
+    }
+    
+    /// @notice Get the encrypted read receipt of a message
+    /// @param _messageId The ID of the message
+    /// @return isRead FHE encrypted read flag (zero handle if the sender did not request receipts and the
+    ///         recipient has not acknowledged the message)
+    function getReadReceipt(uint256 _messageId) external view returns (ebool isRead) {
+        return messages[_messageId].isRead;
+    }
+    
+    /// @notice Choose how the caller's encrypted sender list is applied to incoming messages
+    /// @param _mode Off, Allowlist or Blocklist
+    function setSenderFilterMode(SenderFilterMode _mode) external {
+        senderFilters[msg.sender].mode = _mode;
+        
+        emit SenderFilterUpdated(msg.sender);
+    }
+    
+    /// @notice Add an encrypted address to the caller's sender list
+    /// @dev The list is never revealed; only its owner can decrypt the entries. Entries are matched against the
+    ///      verified sender of a message, so anonymous sends, which are never verified, never match one.
+    /// @param _entry Encrypted sender address
+    /// @param _entryProof Proof for the encrypted address
+    function addSenderFilterEntry(externalEaddress _entry, bytes calldata _entryProof) external {
+        SenderFilter storage filter = senderFilters[msg.sender];
+        require(filter.entries.length < MAX_FILTER_ENTRIES, "Sender filter full");
+        
+        eaddress entry = FHE.fromExternal(_entry, _entryProof);
+        FHE.allowThis(entry);
+        FHE.allow(entry, msg.sender);
+        filter.entries.push(entry);
+        
+        emit SenderFilterUpdated(msg.sender);
+    }
+    
+    /// @notice Remove an entry from the caller's sender list (the last entry takes its place)
+    /// @param _index Position of the entry to remove
+    function removeSenderFilterEntry(uint256 _index) external {
+        eaddress[] storage entries = senderFilters[msg.sender].entries;
+        require(_index < entries.length, "Invalid index");
+        
+        entries[_index] = entries[entries.length - 1];
+        entries.pop();
+        
+        emit SenderFilterUpdated(msg.sender);
+    }
+    
+    /// @notice Get a recipient's sender filter
+    /// @param _owner The recipient address to query
+    /// @return mode How the entries are applied
+    /// @return entries FHE encrypted sender addresses (decryptable by the owner only)
+    function getSenderFilter(address _owner)
+        external
+        view
+        returns (SenderFilterMode mode, eaddress[] memory entries)
+    {
+        SenderFilter storage filter = senderFilters[_owner];
+        return (filter.mode, filter.entries);
+    }
+    
     /// @notice Check if caller is the recipient of a message
     /// @param _messageId The ID of the message
     /// @return True if caller is the recipient
@@ -210,5 +1254,351 @@ contract ConfidentialTransmission is SepoliaConfig {
     function getTotalMessages() external view returns (uint256) {
         return messageCount;
     }
+    
+    /// @notice Store a message for one recipient and grant them access to its sender handles
+    /// @param _recipient The address that can decrypt the message
+    /// @param _contentDigest sha2-256 digest of the content's IPFS CID (0 when the CID is hidden)
+    /// @param _encryptedCID FHE encrypted CID chunks (empty when the CID is public)
+    /// @param _sender FHE encrypted sender address
+    /// @param _senderVerified FHE encrypted: `_sender` is the address that submitted the message
+    /// @param _key FHE encrypted AES decryption key
+    /// @param _outboxTag Sender-derived outbox tag (0 = none)
+    /// @param _expiresAt Expiry time (0 = never)
+    /// @param _unlockAt Time before which the recipient gets no access to the key (0 = not time-locked)
+    /// @param _switchOwner Address whose heartbeats hold the key back (0 = no dead man's switch)
+    /// @param _approval Approvers who must sign off before the key is released (empty = none)
+    /// @param _receiptReader Sender-derived address for read receipts and replies (0 = none)
+    /// @return messageId The ID of the created message
+    function _storeMessage(
+        address _recipient,
+        bytes32 _contentDigest,
+        euint256[] memory _encryptedCID,
+        eaddress _sender,
+        ebool _senderVerified,
+        euint256 _key,
+        bytes32 _outboxTag,
+        uint256 _expiresAt,
+        uint256 _unlockAt,
+        address _switchOwner,
+        ApprovalPolicy memory _approval,
+        address _receiptReader
+    ) private returns (uint256 messageId) {
+        require(outbox[_outboxTag] == 0, "Outbox tag already used");
+        require(_expiresAt == 0 || _expiresAt > _unlockAt, "Expires before unlock");
+        require(_switchOwner == address(0) || switchOf[_switchOwner].interval > 0, "Switch not configured");
+        
+        // Postage is refunded to the receipt reader, so it needs one
+        require(postageOf[_recipient] == 0 || _receiptReader != address(0), "Postage needs a receipt reader");
+        
+        // Only the contract holds the key until the message is opened
+        messageId = messageCount;
+        encryptedKeys[messageId] = _key;
+        messages[messageId] = Message({
+            encryptedSender: _sender,
+            recipient: _recipient,
+            timestamp: uint64(block.timestamp),
+            isDeleted: false,
+            isRecalled: false,
+            isSpam: false,
+            isLocked: _unlockAt > block.timestamp || _switchOwner != address(0) || _approval.threshold > 0,
+            contentDigest: _contentDigest,
+            expiresAt: _expiresAt,
+            isRead: _newReadReceipt(_recipient, _receiptReader),
+            receiptReader: _receiptReader,
+            isOpened: false,
+            inReplyTo: 0,
+            isAllowed: _checkSender(_recipient, _sender, _senderVerified),
+            postage: postageOf[_recipient],
+            encryptedCID: _encryptedCID,
+            unlockAt: _unlockAt > block.timestamp ? _unlockAt : 0,
+            switchOwner: _switchOwner,
+            senderVerified: _senderVerified
+        });
+        
+        // Grant the sender handles ONLY to the recipient and their active delegates
+        _shareMessage(messageId);
+        _indexMessage(messageId, _recipient, _outboxTag, _approval);
+        emit MessageSent(messageId, _recipient, _contentDigest, block.timestamp);
+        ++messageCount;
+    }
+    
+    /// @notice Record a new message in its recipient's inbox, its sender's outbox and its approvers' requests
+    /// @param _messageId The ID of the new message
+    /// @param _recipient The message's recipient
+    /// @param _outboxTag Sender-derived outbox tag (0 = none)
+    /// @param _approval Approvers who must sign off before the key is released (empty = none)
+    function _indexMessage(
+        uint256 _messageId,
+        address _recipient,
+        bytes32 _outboxTag,
+        ApprovalPolicy memory _approval
+    ) private {
+        // Approval-gated keys wait for the approvers' quorum
+        if (_approval.threshold > 0 || _approval.approvers.length > 0) {
+            _storeApprovalGate(_messageId, _approval);
+        }
+        
+        receivedMessages[_recipient].push(_messageId);
+        if (_outboxTag != bytes32(0)) {
+            outbox[_outboxTag] = _messageId + 1;
+        }
+    }
+    
+    /// @notice Create the encrypted read flag of a message that requests receipts
+    /// @dev Unread until the recipient acknowledges it; only the receipt reader and the recipient can tell
+    /// @param _recipient The message's recipient
+    /// @param _receiptReader Sender-derived address for read receipts (0 = none)
+    /// @return isRead FHE encrypted false (zero handle when no receipt is requested)
+    function _newReadReceipt(address _recipient, address _receiptReader) private returns (ebool isRead) {
+        if (_receiptReader != address(0)) {
+            isRead = FHE.asEbool(false);
+            FHE.allowThis(isRead);
+            FHE.allow(isRead, _receiptReader);
+            FHE.allow(isRead, _recipient);
+        }
+    }
+    
+    /// @notice Check the recipient and list sizes shared by the multi-recipient sends
+    /// @param _recipients Number of recipients
+    /// @param _outboxTags Number of outbox tags (0 or one per recipient)
+    /// @param _receiptReaders Number of receipt readers (0 or one per recipient)
+    function _checkFanOut(uint256 _recipients, uint256 _outboxTags, uint256 _receiptReaders) private pure {
+        require(_recipients > 0 && !(_recipients > MAX_RECIPIENTS), "Invalid recipient count");
+        require(_outboxTags == 0 || _outboxTags == _recipients, "Outbox tag count mismatch");
+        require(_receiptReaders == 0 || _receiptReaders == _recipients, "Receipt reader count mismatch");
+    }
+    
+    /// @notice Convert the encrypted CID chunks of a send, requiring exactly one of the plain and hidden CID
+    /// @dev The chunks are encrypted in the same input as the key, so they share its proof
+    /// @param _contentDigest Public CID digest of the send (0 when the CID is hidden)
+    /// @param _encryptedCID Encrypted CID chunks of the send (empty when the CID is public)
+    /// @param _keyProof Proof of the key's input
+    /// @return cid The FHE encrypted CID chunks (empty when the CID is public)
+    function _encryptedCIDFrom(
+        bytes32 _contentDigest,
+        externalEuint256[] calldata _encryptedCID,
+        bytes calldata _keyProof
+    ) private returns (euint256[] memory cid) {
+        require(_contentDigest != bytes32(0) || _encryptedCID.length > 0, "Empty content CID");
+        require(_contentDigest == bytes32(0) || _encryptedCID.length == 0, "CID both public and hidden");
+        require(_encryptedCID.length == 0 || _encryptedCID.length == CID_CHUNKS, "Invalid encrypted CID");
+        
+        cid = new euint256[](_encryptedCID.length);
+        for (uint256 i = 0; i < _encryptedCID.length; ++i) {
+            cid[i] = FHE.fromExternal(_encryptedCID[i], _keyProof);
+            FHE.allowThis(cid[i]);
+        }
+    }
+    
+    /// @notice Validate an approval policy and record it for a message
+    /// @param _messageId The ID of the message
+    /// @param _approval Approvers and threshold chosen by the sender
+    function _storeApprovalGate(uint256 _messageId, ApprovalPolicy memory _approval) private {
+        require(!(_approval.approvers.length > MAX_APPROVERS), "Too many approvers");
+        require(_approval.threshold > 0, "Approval threshold required");
+        require(!(_approval.threshold > _approval.approvers.length), "Threshold above approvers");
+        
+        for (uint256 i = 0; i < _approval.approvers.length; ++i) {
+            require(_approval.approvers[i] != address(0), "Invalid approver");
+            for (uint256 j = 0; j < i; ++j) {
+                require(_approval.approvers[i] != _approval.approvers[j], "Duplicate approver");
+            }
+            approvalRequests[_approval.approvers[i]].push(_messageId);
+        }
+        
+        approvalGates[_messageId] = ApprovalGate({
+            approvers: _approval.approvers,
+            threshold: _approval.threshold,
+            approvals: 0,
+            rejections: 0
+        });
+    }
+    
+    /// @notice Record an approver's decision on a message
+    /// @param _messageId The ID of the message
+    /// @param _vote Approved or Rejected
+    /// @return gate The message's approval state
+    function _castApprovalVote(uint256 _messageId, ApprovalVote _vote) private returns (ApprovalGate storage gate) {
+        gate = approvalGates[_messageId];
+        require(gate.threshold > 0, "No approval required");
+        require(!messages[_messageId].isRecalled, "Message recalled");
+        require(approvalVotes[_messageId][msg.sender] == ApprovalVote.None, "Already decided");
+        
+        bool isApprover = false;
+        for (uint256 i = 0; i < gate.approvers.length; ++i) {
+            isApprover = isApprover || gate.approvers[i] == msg.sender;
+        }
+        require(isApprover, "Not an approver");
+        
+        approvalVotes[_messageId][msg.sender] = _vote;
+    }
+    
+    /// @notice Revert unless a message can still be delivered: not deleted, recalled or expired
+    /// @param _message The message
+    function _checkAvailable(Message storage _message) private view {
+        require(!_message.isDeleted, "Message deleted");
+        require(!_message.isRecalled, "Message recalled");
+        require(!_isExpired(_message), "Message expired");
+    }
+    
+    /// @notice Whether a message needs no approval or its approvers reached the threshold
+    /// @param _messageId The ID of the message
+    /// @return True if the key may be released as far as approvals are concerned
+    function _isApproved(uint256 _messageId) private view returns (bool) {
+        return !(approvalGates[_messageId].approvals < approvalGates[_messageId].threshold);
+    }
+    
+    /// @notice Open a message for its recipient or a delegate, granting them all its key and hidden CID
+    /// @param _messageId The ID of the message
+    /// @param _reader The recipient or one of their active delegates
+    function _openMessage(uint256 _messageId, address _reader) private {
+        Message storage message = messages[_messageId];
+        require(message.recipient == _reader || _isDelegate(message.recipient, _reader), "Not authorized");
+        _checkAvailable(message);
+        require(!message.isLocked, "Message locked");
+        require(!message.isOpened, "Already opened");
+        
+        message.isOpened = true;
+        _shareMessage(_messageId);
+        
+        emit MessageOpened(_messageId);
+    }
+    
+    /// @notice Grant an account a message's sender handles, and its key and CID once the message is opened
+    /// @param _messageId The ID of the message
+    /// @param _account The recipient or one of their delegates
+    function _allowMessage(uint256 _messageId, address _account) private {
+        Message storage message = messages[_messageId];
+        FHE.allow(message.encryptedSender, _account);
+        FHE.allow(message.senderVerified, _account);
+        if (message.isOpened) {
+            FHE.allow(encryptedKeys[_messageId], _account);
+            for (uint256 i = 0; i < message.encryptedCID.length; ++i) {
+                FHE.allow(message.encryptedCID[i], _account);
+            }
+        }
+    }
+    
+    /// @notice Share a message with its recipient and every active delegate of the recipient
+    /// @param _messageId The ID of the message
+    function _shareMessage(uint256 _messageId) private {
+        address recipient = messages[_messageId].recipient;
+        _allowMessage(_messageId, recipient);
+        
+        Delegate[] storage delegates = delegatesOf[recipient];
+        for (uint256 i = 0; i < delegates.length; ++i) {
+            if (_isActive(delegates[i])) {
+                _allowMessage(_messageId, delegates[i].account);
+            }
+        }
+    }
+    
+    /// @notice Position of an account in a delegate list
+    /// @param _delegates The inbox owner's delegates
+    /// @param _account The account to look for
+    /// @return index The account's position, or the list length if absent
+    function _delegateIndex(Delegate[] storage _delegates, address _account) private view returns (uint256 index) {
+        for (index = 0; index < _delegates.length; ++index) {
+            if (_delegates[index].account == _account) {
+                break;
+            }
+        }
+    }
+    
+    /// @notice Whether an account is an unexpired delegate of an inbox owner
+    /// @param _owner The inbox owner
+    /// @param _account The account to check
+    /// @return True if `_account` may read `_owner`'s inbox
+    function _isDelegate(address _owner, address _account) private view returns (bool) {
+        Delegate[] storage delegates = delegatesOf[_owner];
+        uint256 index = _delegateIndex(delegates, _account);
+        return index < delegates.length && _isActive(delegates[index]);
+    }
+    
+    /// @notice Whether a delegation has not expired
+    /// @param _delegate The delegation
+    /// @return True if the delegation still applies
+    function _isActive(Delegate storage _delegate) private view returns (bool) {
+        return _delegate.expiresAt == 0 || block.timestamp < _delegate.expiresAt;
+    }
+    
+    /// @notice Time from which an owner's switch messages can be released, unless they check in first
+    /// @param _owner The switch owner
+    /// @return Time of the owner's latest heartbeat plus their interval
+    function _releasableAt(address _owner) private view returns (uint256) {
+        DeadMansSwitch storage deadMansSwitch = switchOf[_owner];
+        return deadMansSwitch.lastHeartbeat + deadMansSwitch.interval;
+    }
+    
+    /// @notice Pay out a message's escrowed postage, if any
+    /// @param _messageId The ID of the message
+    /// @param _to The recipient (spam) or the receipt reader (refund)
+    /// @param _isSpam Whether the recipient keeps the postage
+    function _settlePostage(uint256 _messageId, address _to, bool _isSpam) private {
+        uint256 amount = messages[_messageId].postage;
+        if (amount == 0) {
+            return;
+        }
+        
+        messages[_messageId].postage = 0;
+        (bool success, ) = payable(_to).call{value: amount}("");
+        require(success, "Postage transfer failed");
+        
+        emit PostageSettled(_messageId, _to, amount, _isSpam);
+    }
+    
+    /// @notice Check that a client-encrypted sender is the address submitting the message
+    /// @dev Refuses sends through `trustedForwarder`, whose bound inputs anyone could replay with `execute`.
+    ///      Anonymous sends come from one-time accounts instead, so they are never verified.
+    /// @param _sender FHE encrypted sender address supplied with the message
+    /// @return senderVerified Encrypted result, readable by the contract (granted to recipients when stored)
+    function _verifySender(eaddress _sender) private returns (ebool senderVerified) {
+        require(msg.sender != trustedForwarder, "Send from a one-time account");
+        senderVerified = FHE.eq(_sender, FHE.asEaddress(msg.sender));
+        FHE.allowThis(senderVerified);
+    }
+    
+    /// @notice Compare a message's encrypted sender against a recipient's encrypted sender list
+    /// @dev An entry only matches a verified sender, so claiming a listed address neither gets a message
+    ///      through an allowlist nor blocks that address's mail. Anonymous sends are never verified: they fail an
+    ///      allowlist and pass a blocklist. Forwarded copies are judged by the original sender and its
+    ///      verification, replies by the verified replier.
+    /// @param _recipient The recipient whose filter applies
+    /// @param _sender FHE encrypted sender address of the message
+    /// @param _senderVerified FHE encrypted: `_sender` is the address that submitted the message
+    /// @return isAllowed Encrypted result, granted to the recipient (zero handle when the filter is off)
+    function _checkSender(
+        address _recipient,
+        eaddress _sender,
+        ebool _senderVerified
+    ) private returns (ebool isAllowed) {
+        SenderFilter storage filter = senderFilters[_recipient];
+        if (filter.mode == SenderFilterMode.Off) {
+            return isAllowed;
+        }
+        
+        ebool listed = FHE.asEbool(false);
+        for (uint256 i = 0; i < filter.entries.length; ++i) {
+            listed = FHE.or(listed, FHE.eq(_sender, filter.entries[i]));
+        }
+        listed = FHE.and(listed, _senderVerified);
+        
+        isAllowed = filter.mode == SenderFilterMode.Allowlist ? listed : FHE.not(listed);
+        FHE.allowThis(isAllowed);
+        FHE.allow(isAllowed, _recipient);
+    }
+    
+    /// @notice Convert a time-to-live into an absolute expiry time
+    /// @param _ttl Seconds until the message expires (0 = never)
+    /// @return Expiry time (0 = never expires)
+    function _expiryFor(uint256 _ttl) private view returns (uint256) {
+        return _ttl == 0 ? 0 : block.timestamp + _ttl;
+    }
+    
+    /// @notice Whether a message is past its expiry time
+    /// @param _message The message
+    /// @return True if the message has expired
+    function _isExpired(Message storage _message) private view returns (bool) {
+        return _message.expiresAt != 0 && !(block.timestamp < _message.expiresAt);
+    }
 }
-
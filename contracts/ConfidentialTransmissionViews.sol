@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ConfidentialTransmission} from "./ConfidentialTransmission.sol";
+
+/// @title Confidential Transmission Views - paged message metadata
+/// @author confidential-transmission
+/// @notice Filtered, paged views of ConfidentialTransmission inboxes, outboxes, replies and approval requests
+/// @dev Created by the ConfidentialTransmission constructor (see its `views`) and kept out of that contract so it
+///      stays under the EIP-170 size limit. Stores nothing; every value is read through its public getters.
+contract ConfidentialTransmissionViews {
+    /// @notice Public metadata of a message, as returned by the paged views
+    /// @dev Only ever returned, never stored, so fields keep their ABI order instead of being packed
+    // solhint-disable-next-line gas-struct-packing
+    struct MessageMetadata {
+        uint256 id; // Message ID
+        address recipient; // Plain recipient address
+        bytes32 contentDigest; // sha2-256 digest of the content's IPFS CID (0 when the CID is hidden)
+        uint256 timestamp; // Message creation time
+        bool isDeleted; // Soft delete flag
+        uint256 expiresAt; // Expiry time (0 = never)
+        bool isExpired; // Whether the message has expired
+        bool isRecalled; // Withdrawn by the sender
+        uint256 inReplyTo; // Parent message ID + 1 (0 = not a reply)
+        bool acceptsReplies; // Whether the sender registered an address for replies
+        ebool isAllowed; // FHE encrypted sender filter result (zero handle = no filter)
+        uint256 postage; // Escrowed anti-spam postage in wei (0 = none or settled)
+        bool isSpam; // Marked as spam by the recipient
+        uint256 unlockAt; // Time from which the message can be unlocked (0 = never locked)
+        bool isLocked; // Whether the recipient is still waiting for `unlock` or `release`
+        bool isOpened; // Whether the recipient or a delegate opened the message, which granted them the key
+        address switchOwner; // Address whose heartbeats hold the key back (0 = no dead man's switch)
+        uint256 releasableAt; // Time from which `release` is allowed unless the owner checks in (0 = no switch)
+        uint256 approvalThreshold; // Approvals required before the key is released (0 = none)
+        uint256 approvals; // Approvals so far
+    }
+
+    /// @notice Filter applied by the paged views
+    struct MessageFilter {
+        bool includeDeleted; // Also return soft-deleted messages
+        uint256 since; // Only messages sent at or after this time (0 = no lower bound)
+        uint256 until; // Only messages sent before this time (0 = no upper bound)
+    }
+
+    /// @notice Maximum number of results per paged view call
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    /// @notice Maximum number of inbox entries examined per paged view call (bounds gas when filtering)
+    uint256 public constant MAX_PAGE_SCAN = 1000;
+
+    /// @notice The contract whose messages are viewed
+    ConfidentialTransmission public immutable transmission; // solhint-disable-line immutable-vars-naming
+
+    /// @notice Thrown when a page size is 0 or above `MAX_PAGE_SIZE`
+    error InvalidPageSize();
+
+    /// @notice Created by the ConfidentialTransmission constructor
+    /// @param _transmission The contract whose messages are viewed
+    constructor(ConfidentialTransmission _transmission) {
+        transmission = _transmission;
+    }
+
+    /// @notice Get one page of a recipient's inbox with full metadata
+    /// @dev Scans at most `MAX_PAGE_SCAN` entries, so a page can hold fewer than `_limit` results
+    ///      before the end of the inbox. Keep calling with `nextOffset` until it reaches `total`.
+    /// @param _recipient The recipient address to query
+    /// @param _filter Deleted-message and time range filter
+    /// @param _offset Position in the recipient's inbox to start from
+    /// @param _limit Maximum number of results (1 to `MAX_PAGE_SIZE`)
+    /// @return page Metadata of the matching messages, oldest first
+    /// @return nextOffset Offset to pass to the next call
+    /// @return total Number of messages in the inbox, before filtering
+    function getReceivedMessagesPage(
+        address _recipient,
+        MessageFilter calldata _filter,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (MessageMetadata[] memory page, uint256 nextOffset, uint256 total) {
+        if (_limit == 0 || _limit > MAX_PAGE_SIZE) {
+            revert InvalidPageSize();
+        }
+
+        uint256[] memory ids;
+        (ids, total) = transmission.getReceivedMessageIds(_recipient, _offset, MAX_PAGE_SCAN);
+
+        page = new MessageMetadata[](_limit);
+        uint256 count = 0;
+        uint256 scanned = 0;
+        for (; scanned < ids.length && count < _limit; ++scanned) {
+            if (_matches(ids[scanned], _filter)) {
+                page[count] = _metadataOf(ids[scanned]);
+                ++count;
+            }
+        }
+        nextOffset = _offset + scanned;
+
+        // Shrink the result to the number of matches
+        // solhint-disable-next-line no-inline-assembly
+        assembly ("memory-safe") {
+            mstore(page, count)
+        }
+    }
+
+    /// @notice Resolve a batch of outbox tags to full metadata
+    /// @dev Resolution stops at the first unused tag, since senders use their tags in order
+    /// @param _outboxTags Consecutive outbox tags to look up (at most `MAX_PAGE_SIZE`)
+    /// @param _filter Deleted-message and time range filter
+    /// @return page Metadata of the matching messages, in outbox order
+    /// @return tagIndices Position in `_outboxTags` of each returned message
+    /// @return resolved Number of leading tags in use (less than the batch size at the end of the outbox)
+    function getOutboxPage(
+        bytes32[] calldata _outboxTags,
+        MessageFilter calldata _filter
+    ) external view returns (MessageMetadata[] memory page, uint256[] memory tagIndices, uint256 resolved) {
+        if (_outboxTags.length > MAX_PAGE_SIZE) {
+            revert InvalidPageSize();
+        }
+
+        (bool[] memory found, uint256[] memory ids) = transmission.getOutboxMessages(_outboxTags);
+
+        page = new MessageMetadata[](_outboxTags.length);
+        tagIndices = new uint256[](_outboxTags.length);
+        uint256 count = 0;
+        for (; resolved < found.length && found[resolved]; ++resolved) {
+            if (_matches(ids[resolved], _filter)) {
+                page[count] = _metadataOf(ids[resolved]);
+                tagIndices[count] = resolved;
+                ++count;
+            }
+        }
+
+        // Shrink the results to the number of matches
+        // solhint-disable-next-line no-inline-assembly
+        assembly ("memory-safe") {
+            mstore(page, count)
+            mstore(tagIndices, count)
+        }
+    }
+
+    /// @notice Get the replies to a message, oldest first
+    /// @param _messageId The ID of the message
+    /// @return replies Metadata of each reply
+    function getReplies(uint256 _messageId) external view returns (MessageMetadata[] memory replies) {
+        return _metadataOfAll(transmission.getReplyIds(_messageId));
+    }
+
+    /// @notice Get the metadata of every message an address was asked to approve
+    /// @param _approver The approver
+    /// @return requests Metadata of the messages, in sending order
+    function getApprovalRequests(address _approver) external view returns (MessageMetadata[] memory requests) {
+        return _metadataOfAll(transmission.getApprovalRequestIds(_approver));
+    }
+
+    /// @notice Whether a message passes a paged view filter
+    /// @param _messageId The ID of the message
+    /// @param _filter Deleted-message and time range filter
+    /// @return True if the message matches
+    function _matches(uint256 _messageId, MessageFilter calldata _filter) private view returns (bool) {
+        (, , uint256 timestamp, bool isDeleted, , , ) = transmission.getMessageMetadata(_messageId);
+        if ((isDeleted && !_filter.includeDeleted) || timestamp < _filter.since) {
+            return false;
+        }
+        return _filter.until == 0 || timestamp < _filter.until;
+    }
+
+    /// @notice Build the public metadata of several messages
+    /// @param _messageIds The IDs of the messages
+    /// @return result Metadata of each message, in input order
+    function _metadataOfAll(uint256[] memory _messageIds) private view returns (MessageMetadata[] memory result) {
+        result = new MessageMetadata[](_messageIds.length);
+        for (uint256 i = 0; i < _messageIds.length; ++i) {
+            result[i] = _metadataOf(_messageIds[i]);
+        }
+    }
+
+    /// @notice Build the public metadata of a message
+    /// @param _messageId The ID of the message
+    /// @return metadata The message's public metadata
+    function _metadataOf(uint256 _messageId) private view returns (MessageMetadata memory metadata) {
+        metadata.id = _messageId;
+        address receiptReader;
+        (
+            ,
+            metadata.recipient,
+            metadata.timestamp,
+            metadata.isDeleted,
+            metadata.isRecalled,
+            metadata.isSpam,
+            metadata.isLocked,
+            metadata.contentDigest,
+            metadata.expiresAt,
+            ,
+            receiptReader,
+            metadata.isOpened,
+            metadata.inReplyTo,
+            metadata.isAllowed,
+            metadata.postage,
+            metadata.unlockAt,
+            metadata.switchOwner,
+
+        ) = transmission.messages(_messageId);
+        (, , , , , metadata.isExpired, ) = transmission.getMessageMetadata(_messageId);
+        metadata.acceptsReplies = receiptReader != address(0);
+
+        if (metadata.switchOwner != address(0)) {
+            (uint256 interval, uint256 lastHeartbeat) = transmission.switchOf(metadata.switchOwner);
+            metadata.releasableAt = lastHeartbeat + interval;
+        }
+        (, metadata.approvalThreshold, metadata.approvals, ) = transmission.getApprovalGate(_messageId);
+    }
+}
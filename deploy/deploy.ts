@@ -5,13 +5,31 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
-  const deployedFHECounter = await deploy("FHECounter", {
+  const deployedForwarder = await deploy("ConfidentialForwarder", {
     from: deployer,
     log: true,
   });
 
-  console.log(`FHECounter contract: `, deployedFHECounter.address);
+  console.log(`ConfidentialForwarder contract: `, deployedForwarder.address);
+
+  const deployedConfidentialTransmission = await deploy("ConfidentialTransmission", {
+    from: deployer,
+    args: [deployedForwarder.address],
+    log: true,
+  });
+
+  console.log(`ConfidentialTransmission contract: `, deployedConfidentialTransmission.address);
+
+  const views = await hre.ethers.getContractAt("ConfidentialTransmission", deployedConfidentialTransmission.address);
+  console.log(`ConfidentialTransmissionViews contract: `, await views.views());
+
+  const deployedGroups = await deploy("ConfidentialGroups", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`ConfidentialGroups contract: `, deployedGroups.address);
 };
 export default func;
-func.id = "deploy_fheCounter"; // id required to prevent reexecution
-func.tags = ["FHECounter"];
+func.id = "deploy_confidentialTransmission"; // id required to prevent reexecution
+func.tags = ["ConfidentialTransmission"];
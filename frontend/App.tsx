@@ -1,39 +1,47 @@
 import { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESS, CONTRACT_ABI, FHEVM_CONFIG, NETWORK_CONFIG } from './src/contract-config';
+import {
+  CONTRACT_ADDRESS,
+  FHEVM_CONFIG,
+  GROUPS_CONTRACT_ADDRESS,
+  IPFS_CONFIG,
+  NETWORK_CONFIG,
+} from './src/contract-config';
 import WalletModal, { WalletType } from './src/components/WalletModal';
+import { getRelayerInfo, relayTransaction, sponsorTransaction } from './src/relayer';
+import {
+  ConfidentialTransmissionClient,
+  connectConfidentialGroups,
+  contentCIDOf,
+  cidToDigest,
+  decryptedAddress,
+  decryptedBool,
+  decryptedUint,
+  decryptEnvelope,
+  deriveStealthKeys,
+  gatewayStorage,
+  generateStealthAddress,
+  outboxReceiptReader,
+  parseEnvelope,
+  pinataStorage,
+  scanStealthInbox,
+  stealthMetaAddress,
+  userDecrypt,
+  VISIBLE_MESSAGES,
+} from '../sdk';
+import type {
+  ConfidentialGroups,
+  ConfidentialTransmission,
+  EncryptedEnvelope,
+  FheInstance,
+  MessageMetadata,
+  OpenedMessage,
+  ReadStatus,
+  StealthKeys,
+} from '../sdk';
 import './src/index.css';
 
-// Type for FHEVM instance (UMD SDK) - Based on official Zama docs
-interface FhevmInstance {
-  createEncryptedInput(contractAddress: string, userAddress: string): any;
-  getPublicKey(contractAddress: string): { publicKeyId: string; publicKey: Uint8Array } | string;
-  createEIP712(
-    publicKey: string,
-    contractAddresses: string[],
-    startTimestamp: string | number,
-    durationDays: string | number
-  ): {
-    domain: any;
-    types: {
-      UserDecryptRequestVerification: Array<{ name: string; type: string }>;
-    };
-    message: any;
-  };
-  generateKeypair(): { publicKey: string; privateKey: string };
-  userDecrypt(
-    handleContractPairs: Array<{ handle: string; contractAddress: string }>,
-    privateKey: string,
-    publicKey: string,
-    signature: string,
-    contractAddresses: string[],
-    userAddress: string,
-    startTimestamp: string | number,
-    durationDays: string | number
-  ): Promise<Record<string, bigint>>;
-}
-
-// Declare global relayerSDK
+// Declare global relayerSDK (its instance provides everything the SDK client needs)
 declare global {
   interface Window {
     relayerSDK?: {
@@ -41,7 +49,7 @@ declare global {
       createInstance(config: {
         networkUrl: string;
         gatewayUrl?: string;
-      }): Promise<FhevmInstance>;
+      }): Promise<FheInstance>;
       SepoliaConfig?: any;
     };
   }
@@ -119,20 +127,113 @@ const overrideSdkFetchRpc = (replacementUrl: string): RestoreFetch => {
   };
 };
 
+// Split a comma/whitespace separated list of recipient addresses
+const parseRecipients = (input: string): string[] =>
+  input.split(/[\s,]+/).map((address) => address.trim()).filter(Boolean);
+
+// Time-to-live options offered on the Send tab (seconds, 0 = never expires)
+const TTL_OPTIONS = [
+  { label: '♾️ Never', seconds: 0 },
+  { label: '1 Hour', seconds: 3600 },
+  { label: '24 Hours', seconds: 86400 },
+  { label: '7 Days', seconds: 604800 },
+];
+
+// Format remaining seconds as e.g. "1d 2h 3m 4s"
+const formatCountdown = (seconds: number): string => {
+  const parts = [
+    [Math.floor(seconds / 86400), 'd'],
+    [Math.floor((seconds % 86400) / 3600), 'h'],
+    [Math.floor((seconds % 3600) / 60), 'm'],
+    [seconds % 60, 's'],
+  ] as const;
+  return parts.filter(([value], i) => value > 0 || i === parts.length - 1).map(([value, unit]) => `${value}${unit}`).join(' ');
+};
+
 interface Message {
   id: number;
   recipient: string;
   contentCID: string;
   timestamp: number;
   isDeleted: boolean;
+  expiresAt: number; // 0 = never
+  isExpired: boolean;
+  isRecalled: boolean;
+  replyTo: number | null; // Parent message ID when this message is a reply
+  acceptsReplies: boolean; // Whether the sender can be answered with replyToMessage
+  isAllowedHandle: string; // Encrypted sender filter result (zero handle = no filter)
+  postage: bigint; // Escrowed postage in wei (0 = none or already settled)
+  isSpam: boolean;
+  unlockAt: number; // Time from which the key can be unlocked (0 = never locked)
+  isLocked: boolean; // Cannot be opened until unlock() or release() is called
+  isOpened: boolean; // Opened by the recipient or a delegate, which granted them the key
+  switchOwner: string; // Address whose heartbeats hold the key back (zero address = no dead man's switch)
+  releasableAt: number; // Time from which release() is allowed unless the owner checks in (0 = no switch)
+  approvalThreshold: number; // Approvals required before the key is released (0 = none)
+  approvals: number; // Approvals so far
+  outboxIndex?: number; // Position in the sender's outbox (sent messages only)
+}
+
+// Convert a MessageMetadata struct returned by the paged views
+const toMessage = (metadata: MessageMetadata, outboxIndex?: number): Message => ({
+  id: Number(metadata.id),
+  recipient: metadata.recipient,
+  contentCID: contentCIDOf(metadata.contentDigest),
+  timestamp: Number(metadata.timestamp),
+  isDeleted: metadata.isDeleted,
+  expiresAt: Number(metadata.expiresAt),
+  isExpired: metadata.isExpired,
+  isRecalled: metadata.isRecalled,
+  replyTo: metadata.inReplyTo > 0n ? Number(metadata.inReplyTo) - 1 : null,
+  acceptsReplies: metadata.acceptsReplies,
+  isAllowedHandle: metadata.isAllowed,
+  postage: metadata.postage,
+  isSpam: metadata.isSpam,
+  unlockAt: Number(metadata.unlockAt),
+  isLocked: metadata.isLocked,
+  isOpened: metadata.isOpened,
+  switchOwner: metadata.switchOwner,
+  releasableAt: Number(metadata.releasableAt),
+  approvalThreshold: Number(metadata.approvalThreshold),
+  approvals: Number(metadata.approvals),
+  outboxIndex,
+});
+
+// Dead man's switch of the connected account (interval 0 = not configured)
+interface SwitchStatus {
+  interval: number;
+  lastHeartbeat: number;
+}
+
+// An approver's decision, in ApprovalVote enum order
+const APPROVAL_VOTES = ['pending', 'approved', 'rejected'] as const;
+
+// A group channel we are a member of (ConfidentialGroups)
+interface GroupInfo {
+  id: number;
+  name: string;
+  admins: string[];
+  members: string[];
+  messageCount: number;
+}
+
+// Public metadata of a group message, and whether we can decrypt it
+interface GroupMessageInfo {
+  index: number;
+  contentCID: string;
+  timestamp: number;
+  readable: boolean; // Current member that joined before it or was shared it
 }
 
+// Group messages requested per getGroupMessagesPage call (MAX_PAGE_SIZE in ConfidentialGroups)
+const GROUP_PAGE_SIZE = 100;
+
 declare global {
   interface Window {
     ethereum?: any;
     zamaRelayerSDK?: {
       initSDK: () => Promise<void>;
-      createInstance: (config: { networkUrl: string; gatewayUrl?: string }) => Promise<FhevmInstance>;
+      createInstance: (config: { networkUrl: string; gatewayUrl?: string }) => Promise<FheInstance>;
       SepoliaConfig?: any;
     };
   }
@@ -141,14 +242,16 @@ declare global {
 function App() {
   // State
   const [signer, setSigner] = useState<ethers.Signer | null>(null);
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
-  const [fhevmInstance, setFhevmInstance] = useState<FhevmInstance | null>(null);
+  const [client, setClient] = useState<ConfidentialTransmissionClient | null>(null);
+  const [contract, setContract] = useState<ConfidentialTransmission | null>(null); // client.contract, for calls the client does not wrap
+  const [fhevmInstance, setFhevmInstance] = useState<FheInstance | null>(null);
   const [account, setAccount] = useState<string>('');
   const [isConnected, setIsConnected] = useState(false);
   
   // Messages
   const [receivedMessages, setReceivedMessages] = useState<Message[]>([]);
   const [sentMessages, setSentMessages] = useState<Message[]>([]);
+  const [readReceipts, setReadReceipts] = useState<Record<number, ReadStatus>>({});
   
   // Send form
   const [recipientAddress, setRecipientAddress] = useState('');
@@ -157,12 +260,64 @@ function App() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [sending, setSending] = useState(false);
   const [sendStatus, setSendStatus] = useState('');
+  const [anonymousSend, setAnonymousSend] = useState(false); // Submit via relayer to hide sender
+  const [ttlSeconds, setTtlSeconds] = useState(0); // Message time-to-live (0 = never expires)
+  const [unlockAtInput, setUnlockAtInput] = useState(''); // Local date/time before which the key stays sealed (empty = none)
+  const [switchSend, setSwitchSend] = useState(false); // Hold the key back with our dead man's switch
+  const [approversInput, setApproversInput] = useState(''); // Comma-separated approvers (empty = no approval needed)
+  const [approvalThreshold, setApprovalThreshold] = useState(''); // Approvals required (empty = all approvers)
+  const [hideCid, setHideCid] = useState(false); // Store the CID FHE encrypted instead of in public metadata
+  const [stealthSend, setStealthSend] = useState(false); // Send to a one-time stealth address
+  const [replyTo, setReplyTo] = useState<number | null>(null); // Received message being answered
+  const [requiredPostage, setRequiredPostage] = useState<bigint>(0n); // Postage the current recipients require
+  const [inboxPostage, setInboxPostage] = useState(''); // Our own inbox postage in ETH
+  
+  // Conversation view: replies per message, loaded on demand
+  const [threads, setThreads] = useState<Record<number, Message[]>>({});
+  
+  // Decrypted sender filter results, and filtered messages the user chose to unfold
+  const [filterResults, setFilterResults] = useState<Record<number, boolean>>({});
+  const [unfolded, setUnfolded] = useState<Record<number, boolean>>({});
+  
+  // Stealth keys (derived from a wallet signature) and the messages found by scanning announcements
+  const [stealthKeys, setStealthKeys] = useState<StealthKeys | null>(null);
+  const [stealthMessages, setStealthMessages] = useState<{ message: Message; wallet: ethers.Wallet }[]>([]);
+
+  // Our dead man's switch and the interval form on the Switch tab
+  const [switchStatus, setSwitchStatus] = useState<SwitchStatus | null>(null);
+  const [switchIntervalDays, setSwitchIntervalDays] = useState('30');
+
+  // Messages we were asked to approve, with our decision on each
+  const [approvalRequests, setApprovalRequests] = useState<{ message: Message; vote: typeof APPROVAL_VOTES[number] }[]>([]);
+
+  // Accounts allowed to read our inbox, and the inbox shown on the Received tab (null = our own)
+  const [delegates, setDelegates] = useState<{ account: string; expiresAt: number }[]>([]);
+  const [delegateAddress, setDelegateAddress] = useState('');
+  const [delegateDays, setDelegateDays] = useState(''); // Days until the delegation ends (empty = never)
+  const [inboxOwner, setInboxOwner] = useState<string | null>(null);
+  const [inboxOwnerInput, setInboxOwnerInput] = useState('');
+
+  // Group channels (ConfidentialGroups companion contract), the open group and its messages
+  const [groupsContract, setGroupsContract] = useState<ConfidentialGroups | null>(null);
+  const [groups, setGroups] = useState<GroupInfo[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<number | null>(null);
+  const [groupMessages, setGroupMessages] = useState<GroupMessageInfo[]>([]);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupMembers, setNewGroupMembers] = useState(''); // Comma-separated initial members
+  const [groupMemberAddress, setGroupMemberAddress] = useState('');
+  const [groupHistoryCount, setGroupHistoryCount] = useState(''); // Earlier messages to share (empty = none)
+  const [groupFile, setGroupFile] = useState<File | null>(null);
+
+  // Private outbox secret (derived from a wallet signature, never stored on-chain)
+  const [outboxSecret, setOutboxSecret] = useState<string | null>(null);
   
   // Decryption success modal
   const [showDecryptSuccess, setShowDecryptSuccess] = useState(false);
   const [decryptedInfo, setDecryptedInfo] = useState<{
     messageId: number;
+    group?: string; // Name of the group a group message was posted to
     sender: string;
+    senderVerified: boolean; // Encrypted sender matched the submitting address (FHE.eq on-chain)
     filename: string;
     size: number;
     type: string;
@@ -175,11 +330,12 @@ function App() {
   const [preparing, setPreparing] = useState(false);
   
   // UI
-  const [activeTab, setActiveTab] = useState<'send' | 'received' | 'sent'>('send');
+  const [activeTab, setActiveTab] = useState<'send' | 'received' | 'sent' | 'switch' | 'approvals' | 'delegates' | 'groups'>('send');
   const [loading, setLoading] = useState(false);
   const [showWalletModal, setShowWalletModal] = useState(false);
   const [connecting, setConnecting] = useState(false);
   const [sdkStatus, setSdkStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000)); // Drives expiry countdowns
 
   // Initialize on mount
   useEffect(() => {
@@ -197,6 +353,69 @@ function App() {
     }
   }, []);
 
+  // Look up the postage the current recipient(s) require before sending
+  useEffect(() => {
+    if (!client) return;
+
+    let cancelled = false;
+    const lookup = async () => {
+      try {
+        let addresses = parseRecipients(recipientAddress).filter((address) => ethers.isAddress(address));
+        if (replyTo !== null) {
+          // Replies go to the sender's reader address
+          const { receiptReader } = await client.contract.messages(replyTo);
+          addresses = [receiptReader];
+        } else if (stealthSend) {
+          // Fresh stealth addresses never charge postage
+          addresses = [];
+        }
+        const postage = await client.postageFor(addresses);
+        if (!cancelled) setRequiredPostage(postage);
+      } catch (error) {
+        console.warn('⚠️ Postage lookup failed:', error);
+      }
+    };
+    lookup();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, recipientAddress, replyTo, stealthSend]);
+
+  // Show our own inbox postage
+  useEffect(() => {
+    if (!contract || !account) return;
+    contract
+      .postageOf(account)
+      .then((postage: bigint) => setInboxPostage(ethers.formatEther(postage)))
+      .catch((error: any) => console.warn('⚠️ Inbox postage lookup failed:', error));
+  }, [contract, account]);
+
+  // Show our own dead man's switch and the messages awaiting our approval
+  useEffect(() => {
+    if (!contract || !account) return;
+    loadSwitchStatus();
+    loadApprovalRequests();
+    loadDelegates();
+  }, [contract, account]);
+
+  // Show the groups we are a member of
+  useEffect(() => {
+    if (!groupsContract || !account) return;
+    loadGroups();
+  }, [groupsContract, account]);
+
+  // Reload the Received tab when switching between our inbox and one delegated to us
+  useEffect(() => {
+    if (!client) return;
+    loadMessages();
+  }, [inboxOwner]);
+
+  // Tick once per second for expiry countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   const handleAccountsChanged = (accounts: string[]) => {
     if (accounts.length === 0) {
       disconnectWallet();
@@ -279,15 +498,13 @@ function App() {
       setSigner(ethSigner);
       setAccount(userAccount);
 
-      // Initialize contract
-      const contractInstance = new ethers.Contract(
-        CONTRACT_ADDRESS,
-        CONTRACT_ABI,
-        ethSigner
-      );
-      setContract(contractInstance);
+      // Group channels live in a companion contract (optional until it is deployed)
+      if (GROUPS_CONTRACT_ADDRESS !== ethers.ZeroAddress) {
+        setGroupsContract(connectConfidentialGroups(GROUPS_CONTRACT_ADDRESS, ethSigner));
+      }
 
       // Initialize FHEVM - Using UMD SDK (relayerSDK)
+      let fheInstance: FheInstance | undefined;
       try {
         setSdkStatus('loading');
         const sdk = window.relayerSDK;
@@ -327,7 +544,7 @@ function App() {
         // Create FHEVM instance
         const restoreFetch = overrideSdkFetchRpc(infuraRpc);
         try {
-          const fheInstance = await sdk.createInstance(config);
+          fheInstance = await sdk.createInstance(config);
           setFhevmInstance(fheInstance);
           setSdkStatus('success');
         } finally {
@@ -339,10 +556,19 @@ function App() {
         setSdkStatus('error');
       }
 
+      // Initialize the client (without an FHE instance it can still list messages)
+      // Uploads need Pinata keys; downloads are verified against the on-chain digest either way
+      const storage = IPFS_CONFIG.pinataApiKey && IPFS_CONFIG.pinataSecretKey
+        ? pinataStorage({ apiKey: IPFS_CONFIG.pinataApiKey, secretKey: IPFS_CONFIG.pinataSecretKey }, IPFS_CONFIG.gateway)
+        : gatewayStorage(IPFS_CONFIG.gateway);
+      const clientInstance = new ConfidentialTransmissionClient(CONTRACT_ADDRESS, { signer: ethSigner, fhevm: fheInstance, storage });
+      setClient(clientInstance);
+      setContract(clientInstance.contract);
+
       setIsConnected(true);
       
       // Load messages
-      await loadMessages(contractInstance);
+      await loadMessages(clientInstance);
     } catch (error: any) {
       console.error('❌ Connection error:', error);
       alert('Failed to connect: ' + error.message);
@@ -391,156 +617,137 @@ function App() {
   // Disconnect wallet
   const disconnectWallet = () => {
     setSigner(null);
+    setClient(null);
     setContract(null);
     setFhevmInstance(null);
     setAccount('');
     setIsConnected(false);
     setReceivedMessages([]);
     setSentMessages([]);
+    setOutboxSecret(null);
+    setStealthKeys(null);
+    setStealthMessages([]);
   };
 
-  // Load messages
-  const loadMessages = async (contractInstance?: ethers.Contract) => {
-    const activeContract = contractInstance || contract;
-    if (!activeContract) return;
+  // Derive (once per session) the secret that indexes our private outbox
+  const getOutboxSecret = async (): Promise<string> => {
+    if (!client) throw new Error('Please connect wallet first');
+
+    const secret = await client.getOutboxSecret();
+    setOutboxSecret(secret);
+    return secret;
+  };
+
+  // Derive (once per session) our stealth spending and viewing keys
+  const getStealthKeys = async (): Promise<StealthKeys> => {
+    if (stealthKeys) return stealthKeys;
+    if (!signer) throw new Error('Please connect wallet first');
+
+    const keys = await deriveStealthKeys(signer, CONTRACT_ADDRESS, BigInt(NETWORK_CONFIG.sepolia.chainId));
+    setStealthKeys(keys);
+    return keys;
+  };
+
+  // Publish our stealth meta-address so senders can derive one-time addresses for us
+  const handlePublishStealthAddress = async () => {
+    if (!contract) return;
 
     try {
       setLoading(true);
+      const metaAddress = stealthMetaAddress(await getStealthKeys());
+      const tx = await contract.setStealthMetaAddress(metaAddress);
+      await tx.wait();
+      alert(`✅ Stealth meta-address published!\n\nst:eth:${metaAddress}`);
+    } catch (error: any) {
+      console.error('❌ Publish stealth address error:', error);
+      alert('Failed to publish stealth address: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Load received messages
-      const receivedIds = await activeContract.getMyReceivedMessages();
-      const received: Message[] = [];
-      for (const id of receivedIds) {
-        const messageId = Number(id);
-        const metadata = await activeContract.getMessageMetadata(messageId);
-        received.push({
-          id: messageId,
-          recipient: metadata.recipient,
-          contentCID: metadata.contentCID,
-          timestamp: Number(metadata.timestamp),
-          isDeleted: metadata.isDeleted,
-        });
+  // Find messages sent to our stealth addresses (announcements are matched locally)
+  const handleScanStealthInbox = async () => {
+    if (!contract) return;
+
+    try {
+      setLoading(true);
+      const found = await scanStealthInbox(contract, await getStealthKeys());
+
+      // Each stealth address has its own inbox, so its metadata comes from the paged view
+      const messages: { message: Message; wallet: ethers.Wallet }[] = [];
+      for (const { messageId, wallet } of found) {
+        const inbox = await client!.list(VISIBLE_MESSAGES, wallet.address);
+        const metadata = inbox.find((entry) => entry.id === messageId);
+        if (metadata) {
+          messages.push({ message: toMessage(metadata), wallet });
+        }
       }
-      setReceivedMessages(received);
-
-      // Load sent messages
-      const sentIds = await activeContract.getMySentMessages();
-      const sent: Message[] = [];
-      for (const id of sentIds) {
-        const messageId = Number(id);
-        const metadata = await activeContract.getMessageMetadata(messageId);
-        sent.push({
-          id: messageId,
-          recipient: metadata.recipient,
-          contentCID: metadata.contentCID,
-          timestamp: Number(metadata.timestamp),
-          isDeleted: metadata.isDeleted,
-        });
+      setStealthMessages(messages);
+      if (messages.length === 0) {
+        alert('No stealth messages found');
       }
-      setSentMessages(sent);
-    } catch (error) {
-      console.error('Failed to load messages:', error);
+    } catch (error: any) {
+      console.error('❌ Stealth scan error:', error);
+      alert('Failed to scan stealth inbox: ' + error.message);
     } finally {
       setLoading(false);
     }
   };
 
-  // Upload to Pinata via backend script
-  const uploadToPinata = async (encryptedData: any): Promise<string> => {
-    const apiKey = import.meta.env.VITE_PINATA_API_KEY;
-    const secretKey = import.meta.env.VITE_PINATA_SECRET_KEY;
-    
-    if (!apiKey || !secretKey) {
-      throw new Error('⚠️ Pinata API keys not configured.\n\nPlease:\n1. Copy frontend/env.example to frontend/.env\n2. Add your Pinata API keys\n3. Restart the dev server');
-    }
-    
+  // Unlock the Sent tab (requires a signature to derive the outbox secret)
+  const handleUnlockOutbox = async () => {
     try {
-      const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'pinata_api_key': apiKey,
-          'pinata_secret_api_key': secretKey,
-        },
-        body: JSON.stringify({
-          pinataContent: encryptedData,
-          pinataMetadata: {
-            name: `encrypted-message-${Date.now()}.json`,
-          },
-        }),
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Pinata upload failed: ${response.status} - ${errorText}`);
-      }
-      
-      const result = await response.json();
-      console.log('✅ Uploaded to Pinata:', result);
-      return result.IpfsHash;
+      const secret = await getOutboxSecret();
+      await loadMessages(undefined, secret);
     } catch (error: any) {
-      console.error('❌ Pinata upload error:', error);
-      throw new Error(`Failed to upload to Pinata: ${error.message}`);
+      console.error('❌ Outbox unlock error:', error);
+      alert('Failed to unlock outbox: ' + error.message);
     }
   };
 
-  // Encrypt file with AES-256-CBC (supports both text and binary files)
-  const encryptFileWithAES = async (content: string | ArrayBuffer): Promise<{ encrypted: string; key: Uint8Array; iv: string }> => {
-    const crypto = window.crypto;
-    
-    // Generate random AES-256 key
-    const aesKey = crypto.getRandomValues(new Uint8Array(32));
-    
-    // Generate random IV (16 bytes for CBC)
-    const iv = crypto.getRandomValues(new Uint8Array(16));
-    
-    // Import key for Web Crypto API
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      aesKey,
-      { name: 'AES-CBC' },
-      false,
-      ['encrypt']
-    );
-    
-    // Convert content to bytes
-    let contentBytes: BufferSource;
-    if (typeof content === 'string') {
-      // Text content
-      const encoder = new TextEncoder();
-      contentBytes = encoder.encode(content);
-    } else {
-      // Binary content (ArrayBuffer from image/pdf/zip etc)
-      contentBytes = content;
+  // Decrypt the read receipts of sent messages with their derived reader wallets (no wallet prompt)
+  const loadReadReceipts = async (activeClient: ConfidentialTransmissionClient, sent: Message[]) => {
+    const statuses: Record<number, ReadStatus> = {};
+    for (const msg of sent) {
+      if (msg.outboxIndex === undefined) continue;
+      try {
+        statuses[msg.id] = await activeClient.readStatus(BigInt(msg.id), msg.outboxIndex);
+      } catch (error) {
+        console.warn(`⚠️ Could not decrypt read receipt of message #${msg.id}:`, error);
+      }
+    }
+    setReadReceipts(statuses);
+  };
+
+  // Load messages
+  const loadMessages = async (clientInstance?: ConfidentialTransmissionClient, secret: string | null = outboxSecret) => {
+    const activeClient = clientInstance || client;
+    if (!activeClient) return;
+
+    try {
+      setLoading(true);
+
+      // Load received messages (ours, or a delegated inbox), one page of full metadata per call
+      const received = await activeClient.list(VISIBLE_MESSAGES, inboxOwner ?? undefined);
+      setReceivedMessages(received.map((metadata) => toMessage(metadata)));
+
+      // Load sent messages (only possible once the outbox secret is known)
+      if (!secret) return;
+      const outboxEntries = await activeClient.listSent(VISIBLE_MESSAGES);
+      const sent = outboxEntries.map(({ index, metadata }) => toMessage(metadata, index));
+      setSentMessages(sent);
+      await loadReadReceipts(activeClient, sent);
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+    } finally {
+      setLoading(false);
     }
-    
-    // Encrypt
-    const encryptedBuffer = await crypto.subtle.encrypt(
-      { name: 'AES-CBC', iv },
-      cryptoKey,
-      contentBytes
-    );
-    
-    // Convert to hex
-    const encryptedArray = new Uint8Array(encryptedBuffer);
-    const encryptedHex = Array.from(encryptedArray)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-    
-    const ivHex = Array.from(iv)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-    
-    return {
-      encrypted: encryptedHex,
-      key: aesKey,
-      iv: ivHex
-    };
   };
 
   // Step 1: Prepare encryption (encrypt content and upload to IPFS)
   const handlePrepareMessage = async () => {
-    if (!contract || !fhevmInstance || !signer) {
+    if (!client || !fhevmInstance || !signer) {
       alert('Please connect wallet first');
       return;
     }
@@ -556,8 +763,11 @@ function App() {
       return;
     }
 
-    if (!ethers.isAddress(recipientAddress)) {
-      alert('❌ Invalid recipient address');
+    // Replies are routed by the contract, so there is no recipient to validate
+    const recipients = parseRecipients(recipientAddress);
+    const invalidRecipient = recipients.find((address) => !ethers.isAddress(address));
+    if (replyTo === null && (recipients.length === 0 || invalidRecipient)) {
+      alert(`❌ Invalid recipient address${invalidRecipient ? `: ${invalidRecipient}` : ''}`);
       return;
     }
 
@@ -566,79 +776,50 @@ function App() {
     setIsPrepared(false);
 
     try {
-      let fileContent: string | ArrayBuffer;
+      let content: Uint8Array;
       let fileName: string;
-      let fileSize: number;
       let fileType: string;
 
       // 1. Get content (text or file)
       if (messageType === 'text') {
         setSendStatus('📝 Processing text message...');
-        fileContent = textMessage;
+        content = new TextEncoder().encode(textMessage);
         fileName = 'message.txt';
-        fileSize = new Blob([textMessage]).size;
         fileType = 'text/plain';
       } else {
         setSendStatus('📖 Reading file...');
-        // Check if file is text or binary
-        const isTextFile = selectedFile!.type.startsWith('text/') || 
-                          selectedFile!.name.endsWith('.txt') ||
-                          selectedFile!.name.endsWith('.md') ||
-                          selectedFile!.name.endsWith('.json');
-        
-        if (isTextFile) {
-          // Text files: read as text
-          fileContent = await selectedFile!.text();
-        } else {
-          // Binary files (images, PDFs, etc): read as ArrayBuffer
-          fileContent = await selectedFile!.arrayBuffer();
-        }
-        
+        content = new Uint8Array(await selectedFile!.arrayBuffer());
         fileName = selectedFile!.name;
-        fileSize = selectedFile!.size;
         fileType = selectedFile!.type || 'application/octet-stream';
       }
+      const fileSize = content.length;
 
-      // 2. Encrypt with AES-256-CBC
-      setSendStatus('🔐 Encrypting with AES-256-CBC...');
-      const { encrypted, key, iv } = await encryptFileWithAES(fileContent);
-      
-      const encryptedData = {
-        iv,
-        content: encrypted,
-        algorithm: 'aes-256-cbc',
-        filename: fileName,
-        size: fileSize,
-        type: fileType,
-        messageType: messageType // Add message type identifier
-      };
-
-      // 3. Upload to IPFS via Pinata
-      setSendStatus('📤 Uploading to IPFS (Pinata)...');
-      
-      const keyHex = '0x' + Array.from(key).map(b => b.toString(16).padStart(2, '0')).join('');
       const typeLabel = messageType === 'text' ? '📝 Text Message' : '📁 File';
       
+      // Without Pinata, the file can still be encrypted, uploaded and sent in one step from the command line
+      const cliCommand = `npx hardhat --network ${NETWORK_CONFIG.sepolia.name.toLowerCase()} confidential-transmission:send-file --file ./${fileName} --recipient ${recipientAddress || '0x...'}`;
+      
       // Check if Pinata is configured
-      const hasPinataConfig = import.meta.env.VITE_PINATA_API_KEY && import.meta.env.VITE_PINATA_SECRET_KEY;
+      const hasPinataConfig = IPFS_CONFIG.pinataApiKey && IPFS_CONFIG.pinataSecretKey;
       
       if (!hasPinataConfig) {
         // Manual mode: Show instructions
-        setSendStatus(`⚠️ Pinata not configured - Manual mode\n\nType: ${typeLabel}\nFilename: ${fileName}\nSize: ${(fileSize / 1024).toFixed(2)} KB\n\nNext steps:\n1. Run: node test/send-test-message.js\n2. Use generated CID and key with Hardhat task\n\nAES Key: ${keyHex}\n\n💡 To enable automatic upload:\n- Configure Pinata API keys in .env file`);
+        setSendStatus(`⚠️ Pinata not configured - Manual mode\n\nType: ${typeLabel}\nFilename: ${fileName}\nSize: ${(fileSize / 1024).toFixed(2)} KB\n\nSend it from the command line instead (save the ${messageType === 'text' ? 'text' : 'file'} locally first):\n${cliCommand}\n\n💡 To enable automatic upload:\n- Configure Pinata API keys in .env file`);
         return;
       }
       
-      // Automatic mode: Upload to Pinata
+      // 2-3. Encrypt with AES-256-CBC and upload the envelope to IPFS via Pinata
+      setSendStatus('🔐 Encrypting with AES-256-CBC and uploading to IPFS (Pinata)...');
       try {
-        const ipfsCid = await uploadToPinata(encryptedData);
+        const { cid, key } = await client.upload(content, { filename: fileName, type: fileType, messageType });
         // Save prepared data
-        setPreparedCid(ipfsCid);
-        setPreparedKey(keyHex);
+        setPreparedCid(cid);
+        setPreparedKey(key);
         setIsPrepared(true);
         setSendStatus(`✅ Prepared!`);
       } catch (uploadError: any) {
         console.error('Upload failed:', uploadError);
-        setSendStatus(`⚠️ Upload failed, using manual mode\n\nType: ${typeLabel}\nFilename: ${fileName}\nSize: ${(fileSize / 1024).toFixed(2)} KB\n\nError: ${uploadError.message}\n\nNext steps:\n1. Run: node test/send-test-message.js\n2. Use generated CID and key with Hardhat task\n\nAES Key: ${keyHex}`);
+        setSendStatus(`⚠️ Upload failed, using manual mode\n\nType: ${typeLabel}\nFilename: ${fileName}\nSize: ${(fileSize / 1024).toFixed(2)} KB\n\nError: ${uploadError.message}\n\nSend it from the command line instead (save the ${messageType === 'text' ? 'text' : 'file'} locally first):\n${cliCommand}`);
       }
       
     } catch (error: any) {
@@ -652,7 +833,7 @@ function App() {
 
   // Step 2: Confidential send (call contract to send message)
   const handleConfidentialSend = async () => {
-    if (!contract || !fhevmInstance || !signer || !isPrepared) {
+    if (!client || !contract || !fhevmInstance || !signer || !isPrepared) {
       alert('Please prepare the message first');
       return;
     }
@@ -662,51 +843,79 @@ function App() {
 
     try {
       const userAddress = await signer.getAddress();
+      const recipients = parseRecipients(recipientAddress);
       
-      // 1. Encrypt sender address with FHE
-      setSendStatus('🔐 Encrypting sender address with FHE...');
-      const senderInput = fhevmInstance.createEncryptedInput(CONTRACT_ADDRESS, userAddress);
-      senderInput.addAddress(userAddress);
-      const encryptedSender = await senderInput.encrypt();
+      // Stealth sends go to a fresh one-time address derived from the recipient's meta-address
+      let stealth: ReturnType<typeof generateStealthAddress> | undefined;
+      if (stealthSend) {
+        if (recipients.length !== 1) {
+          throw new Error('Stealth mode sends to a single recipient');
+        }
+        const metaAddress = await contract.stealthMetaAddressOf(recipients[0]);
+        if (metaAddress === '0x') {
+          throw new Error(`${recipients[0]} has not published a stealth meta-address`);
+        }
+        stealth = generateStealthAddress(metaAddress);
+      }
       
-      console.log('🔍 Encrypted Sender:', encryptedSender);
-      console.log('🔍 Sender Handle:', encryptedSender.handles[0]);
-      console.log('🔍 Sender Proof:', encryptedSender.inputProof);
-
-      // 2. Encrypt the AES key with FHE
-      setSendStatus('🔐 Encrypting AES key with FHE...');
-      const keyInput = fhevmInstance.createEncryptedInput(CONTRACT_ADDRESS, userAddress);
-      keyInput.add256(BigInt(preparedKey));
-      const encryptedKey = await keyInput.encrypt();
+      // Time-locked keys stay with the contract until unlock() is called after this time
+      const unlockAt = unlockAtInput ? Math.floor(new Date(unlockAtInput).getTime() / 1000) : 0;
+      if (unlockAt > 0 && ttlSeconds > 0 && Math.floor(Date.now() / 1000) + ttlSeconds <= unlockAt) {
+        throw new Error('The message would expire before it unlocks');
+      }
       
-      console.log('🔍 Encrypted Key:', encryptedKey);
-      console.log('🔍 Key Handle:', encryptedKey.handles[0]);
-      console.log('🔍 Key Proof:', encryptedKey.inputProof);
-
-      // 3. Send transaction
-      setSendStatus('📡 Sending transaction to blockchain...');
+      // Switch messages are held back by our own heartbeats
+      const switchOwner = switchSend ? userAddress : ethers.ZeroAddress;
+      if (switchSend && !switchStatus?.interval) {
+        throw new Error('Set up your dead man\'s switch on the Switch tab first');
+      }
       
-      // Pass Uint8Array directly (same as test script)
-      // Do NOT convert to hex strings or wrap in arrays
-      console.log('🔍 Transaction params:');
-      console.log('  - Recipient:', recipientAddress);
-      console.log('  - Content CID:', preparedCid);
-      console.log('  - Sender Handle:', ethers.hexlify(encryptedSender.handles[0]));
-      console.log('  - Key Handle:', ethers.hexlify(encryptedKey.handles[0]));
+      // Approval-gated keys are released once `threshold` of the approvers sign off
+      const approvers = parseRecipients(approversInput);
+      const invalidApprover = approvers.find((approver) => !ethers.isAddress(approver));
+      if (invalidApprover) {
+        throw new Error(`Invalid approver address: ${invalidApprover}`);
+      }
+      const threshold = approvalThreshold ? Number(approvalThreshold) : approvers.length;
+      if (approvers.length > 0 && (!Number.isInteger(threshold) || threshold < 1 || threshold > approvers.length)) {
+        throw new Error(`Required approvals must be between 1 and ${approvers.length}`);
+      }
+      const approval = { approvers, threshold: approvers.length > 0 ? threshold : 0 };
       
-      const tx = await contract.sendMessage(
-        recipientAddress,
-        preparedCid,
-        ethers.hexlify(encryptedSender.handles[0]),   // Convert to bytes32 hex string
-        encryptedSender.inputProof,                   // bytes type, pass Uint8Array directly
-        ethers.hexlify(encryptedKey.handles[0]),      // Convert to bytes32 hex string
-        encryptedKey.inputProof                       // bytes type, pass Uint8Array directly
-      );
-
-      setSendStatus('⏳ Waiting for confirmation...');
-      const receipt = await tx.wait();
+      // Postage is escrowed with the send; the relayer cannot attach ETH for us
+      const postage = stealth ? 0n : await client.postageFor(recipients);
+      if (postage > 0n && anonymousSend) {
+        throw new Error(`Recipients require ${ethers.formatEther(postage)} ETH postage, which anonymous sends cannot attach. Switch to Direct mode.`);
+      }
+      
+      // Make sure the relayer is up before encrypting anything for a one-time account it has to fund
+      if (anonymousSend) {
+        setSendStatus('🕶️ Contacting anonymous relayer...');
+        await getRelayerInfo();
+      }
+      
+      // Derive the outbox secret first so the wallet prompt comes before the FHE work
+      setSendStatus('🔑 Deriving private outbox index...');
+      const secret = await getOutboxSecret();
+      
+      // The client encrypts the sender and AES key (plus any hidden CID chunks) with FHE, takes the
+      // next outbox slots and picks sendMessage, sendMessageToMany or sendStealthMessage.
+      // Anonymous sends come from a one-time account whose gas the relayer sponsors, so our wallet never appears on-chain.
+      setSendStatus(anonymousSend ? '🕶️ Encrypting for a one-time account and submitting through anonymous relayer...' : '🔐 Encrypting with FHE and sending transaction...');
+      const { txHash } = await client.send({
+        recipients,
+        cid: preparedCid,
+        key: preparedKey,
+        hideCid,
+        ttl: ttlSeconds,
+        unlockAt,
+        switchOwner,
+        approval,
+        stealth,
+        sponsor: anonymousSend ? sponsorTransaction : undefined,
+      });
 
-      setSendStatus(`✅ Message sent successfully!\n\nTransaction: ${receipt.hash}\nRecipient: ${recipientAddress}\nIPFS CID: ${preparedCid}`);
+      setSendStatus(`✅ Message sent${anonymousSend ? ' anonymously' : ''}!\n\nTransaction: ${txHash}\nRecipient${recipients.length > 1 ? 's' : ''}: ${recipients.join(', ')}\nIPFS CID: ${preparedCid}`);
       
       // Reset status
       setTextMessage('');
@@ -715,9 +924,13 @@ function App() {
       setIsPrepared(false);
       setPreparedCid('');
       setPreparedKey('');
+      setUnlockAtInput('');
+      setSwitchSend(false);
+      setApproversInput('');
+      setApprovalThreshold('');
       
       // Refresh messages
-      await loadMessages();
+      await loadMessages(undefined, secret);
 
     } catch (error: any) {
       console.error('❌ Send error:', error);
@@ -728,186 +941,113 @@ function App() {
     }
   };
 
-  // Decrypt file content with AES-256-CBC (returns ArrayBuffer for both text and binary)
-  const decryptFileContent = async (encryptedHex: string, key: Uint8Array, iv: Uint8Array): Promise<ArrayBuffer> => {
-    // Import AES key
-    const cryptoKey = await window.crypto.subtle.importKey(
-      'raw',
-      key.buffer as ArrayBuffer,
-      { name: 'AES-CBC' },
-      false,
-      ['decrypt']
-    );
-    
-    // Convert hex to bytes
-    const encryptedBytes = new Uint8Array(
-      encryptedHex.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-    );
-    
-    // Decrypt
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
-      { name: 'AES-CBC', iv: iv.buffer as ArrayBuffer },
-      cryptoKey,
-      encryptedBytes
-    );
+  // Reply to a received message; the contract routes the key to its hidden sender
+  const handleSendReply = async () => {
+    if (!client || !fhevmInstance || !isPrepared || replyTo === null) {
+      alert('Please prepare the message first');
+      return;
+    }
+
+    setSending(true);
+
+    try {
+      // The key (and any hidden CID chunks) are FHE encrypted; postage goes to the sender's reader address
+      setSendStatus('🔐 Encrypting AES key with FHE and sending reply...');
+      const { txHash } = await client.reply(BigInt(replyTo), { cid: preparedCid, key: preparedKey, hideCid });
+
+      setSendStatus(`✅ Reply to message #${replyTo} sent!\n\nTransaction: ${txHash}\nIPFS CID: ${preparedCid}`);
+
+      // Reset status and drop the cached thread so it reloads with the new reply
+      setThreads((prev) => {
+        const next = { ...prev };
+        delete next[replyTo];
+        return next;
+      });
+      setReplyTo(null);
+      setTextMessage('');
+      setSelectedFile(null);
+      setIsPrepared(false);
+      setPreparedCid('');
+      setPreparedKey('');
+
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Reply error:', error);
+      setSendStatus(`❌ Error: ${error.message}`);
+      alert('Failed to reply: ' + error.message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Save a decrypted file through a temporary download link
+  const saveDecryptedFile = (envelope: EncryptedEnvelope, content: Uint8Array, fallbackFilename: string) => {
+    setSendStatus('💾 Preparing download...');
     
-    return decryptedBuffer;
+    // Create blob with the correct MIME type
+    const blob = new Blob([new Uint8Array(content)], { type: envelope.type || 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = envelope.filename || fallbackFilename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
-  // Decrypt and download message
-  const handleDecryptMessage = async (messageId: number) => {
-    if (!contract || !fhevmInstance || !signer) {
+  // Decrypt and download message (replies to our sent messages are read with their outbox reader wallet)
+  const handleDecryptMessage = async (messageId: number, reader?: ethers.Wallet) => {
+    if (!client || !fhevmInstance || !signer) {
       alert('❌ Please connect wallet first');
       return;
     }
 
     try {
       setLoading(true);
-      setSendStatus('🔍 Fetching encrypted message...');
-
-      // 1. Get message from contract
-      const message = await contract.getMessage(messageId);
-      const contentCID = message.contentCID;
-      const encryptedSenderHandle = message.encryptedSender;
-      const encryptedKeyHandle = message.encryptedKey;
-      
-      setSendStatus(`📦 IPFS CID: ${contentCID}\n🔐 Encrypted Sender Handle: ${encryptedSenderHandle}\n🔐 Encrypted Key Handle: ${encryptedKeyHandle}\n\n⏳ Decrypting FHE data...`);
 
-      // 2. Decrypt FHE-encrypted sender and AES key using userDecrypt (official Zama SDK method)
-      let senderAddress: string;
-      let aesKeyHex: string;
-      
+      // 1-2. Open the message if nobody has (the contract grants the key then), and decrypt the FHE-encrypted
+      //      sender, AES key and any hidden CID with one signed userDecrypt request. Stealth and reader wallets
+      //      hold no ETH, so the relayer submits their signed open request without linking them to this account.
+      setSendStatus('✍️ Please confirm opening the message and sign the decryption permission...');
+      let message: OpenedMessage;
       try {
-        const userAddress = await signer.getAddress();
-        
-        // Generate keypair for user decryption (as per official docs)
-        const keypair = fhevmInstance.generateKeypair();
-        
-        // Prepare handle-contract pairs for both sender and key
-        const handleContractPairs = [
-          { handle: encryptedSenderHandle, contractAddress: CONTRACT_ADDRESS },
-          { handle: encryptedKeyHandle, contractAddress: CONTRACT_ADDRESS }
-        ];
-        
-        // Create EIP712 signature for user decryption permission (official format)
-        const startTimestamp = Math.floor(Date.now() / 1000).toString();
-        const durationDays = '10'; // 10 days validity
-        const contractAddresses = [CONTRACT_ADDRESS];
-        
-        const eip712 = fhevmInstance.createEIP712(
-          keypair.publicKey,
-          contractAddresses,
-          startTimestamp,
-          durationDays
-        );
-        
-        setSendStatus('✍️ Please sign the decryption permission...');
-        
-        // Sign with the correct EIP712 type structure (as per official docs)
-        const signature = await signer.signTypedData(
-          eip712.domain,
-          {
-            UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-          },
-          eip712.message
-        );
-        
-        // Decrypt both sender and key using userDecrypt (official method)
-        setSendStatus('🔓 Decrypting FHE data...');
-        const results = await fhevmInstance.userDecrypt(
-          handleContractPairs,
-          keypair.privateKey,
-          keypair.publicKey,
-          signature.replace('0x', ''), // Remove 0x prefix as per docs
-          contractAddresses,
-          userAddress,
-          startTimestamp,
-          durationDays
-        );
-        
-        // Extract decrypted values
-        const decryptedSender = results[encryptedSenderHandle];
-        const decryptedKey = results[encryptedKeyHandle];
-        
-        // Convert sender BigInt to address
-        let senderHex = decryptedSender.toString(16);
-        if (senderHex.startsWith('0x')) {
-          senderHex = senderHex.slice(2);
-        }
-        senderHex = senderHex.padStart(40, '0');
-        senderAddress = ethers.getAddress('0x' + senderHex);
-        
-        console.log('✅ Decrypted Sender:', senderAddress);
-        
-        // Convert AES key BigInt to hex
-        let keyHex = decryptedKey.toString(16);
-        if (keyHex.startsWith('0x')) {
-          keyHex = keyHex.slice(2);
-        }
-        keyHex = keyHex.padStart(64, '0');
-        aesKeyHex = keyHex;
-        
-        console.log('✅ Decrypted AES Key:', '0x' + aesKeyHex);
-        
-        setSendStatus(`✅ FHE decryption successful!\n\n👤 Sender: ${senderAddress}\n🔑 AES Key: 0x${aesKeyHex.substring(0, 16)}...\n\n📥 Downloading from IPFS...`);
-        
+        message = await client.open(BigInt(messageId), reader, reader ? relayTransaction : undefined);
+        console.log('✅ Decrypted Sender:', message.sender, message.senderVerified ? '(verified)' : '(unverified)');
+        setSendStatus(`✅ FHE decryption successful!\n\n👤 Sender: ${message.sender} (${message.senderVerified ? 'verified' : 'unverified'})\n📦 IPFS CID: ${message.cid}\n\n📥 Downloading from IPFS...`);
       } catch (userDecryptError: any) {
         console.error('❌ FHE decryption failed:', userDecryptError);
         setSendStatus(`❌ FHE decryption failed: ${userDecryptError.message}\n\n⚠️ This might be due to:\n1. Gateway connection issues\n2. Permission denied (ACL not set)\n3. Invalid key handle\n\nPlease try using the Hardhat task:\nnpx hardhat confidential-transmission:receive --id ${messageId}`);
         return;
       }
 
-      // 3. Download encrypted content from IPFS
-      setSendStatus('📥 Downloading from IPFS...');
-      const ipfsGateway = 'https://gateway.pinata.cloud/ipfs/';
-      const response = await fetch(`${ipfsGateway}${contentCID}`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch from IPFS: ${response.status}`);
-      }
-      
-      const encryptedData = await response.json();
-      
-      // 4. Decrypt content with AES-256-CBC
+      // 3-5. Download the envelope (verified against the on-chain digest), decrypt it with the AES key and save the file
+      const envelope = parseEnvelope(await client.storage.download(message.contentDigest));
       setSendStatus('🔐 Decrypting content with AES-256-CBC...');
+      const content = await decryptEnvelope(envelope, message.key);
+      saveDecryptedFile(envelope, content, `message-${messageId}.bin`);
       
-      const aesKey = new Uint8Array(
-        aesKeyHex.match(/.{1,2}/g)!.map((byte: string) => parseInt(byte, 16))
-      );
-      
-      const iv = new Uint8Array(
-        encryptedData.iv.match(/.{1,2}/g)!.map((byte: string) => parseInt(byte, 16))
-      );
-      
-      const decryptedBuffer = await decryptFileContent(
-        encryptedData.content,
-        aesKey,
-        iv
-      );
-      
-      // 5. Download the decrypted file
-      setSendStatus('💾 Preparing download...');
-      
-      // Create blob with the correct MIME type
-      const blob = new Blob([decryptedBuffer], { type: encryptedData.type || 'application/octet-stream' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = encryptedData.filename || `message-${messageId}.bin`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // 6. Send an encrypted read receipt (only the sender can decrypt it; reader wallets hold no gas
+      //    and delegates cannot acknowledge on the recipient's behalf)
+      if (!reader && !inboxOwner) {
+        try {
+          setSendStatus('📬 Sending read receipt...');
+          await client.acknowledge(BigInt(messageId));
+        } catch (ackError) {
+          console.warn('⚠️ Read receipt not sent:', ackError);
+        }
+      }
       
       setSendStatus('✅ Message decrypted successfully!');
       
       // Show success modal with beautiful UI
       setDecryptedInfo({
         messageId,
-        sender: senderAddress,
-        filename: encryptedData.filename,
-        size: encryptedData.size,
-        type: encryptedData.messageType === 'text' ? 'Text Message' : 'File'
+        sender: message.sender,
+        senderVerified: message.senderVerified,
+        filename: envelope.filename,
+        size: envelope.size,
+        type: envelope.messageType === 'text' ? 'Text Message' : 'File'
       });
       setShowDecryptSuccess(true);
       
@@ -921,68 +1061,705 @@ function App() {
     }
   };
 
+  // Give the postage of a message back unread, e.g. once it was deleted or expired
+  const handleRefundPostage = async (msg: Message) => {
+    if (!contract) return;
+
+    if (!confirm(`Refund the ${ethers.formatEther(msg.postage)} ETH postage of message #${msg.id} to its sender?`)) return;
+
+    try {
+      setLoading(true);
+      const tx = await contract.refundPostage(msg.id);
+      await tx.wait();
+      alert('✅ Postage refunded!');
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Refund postage error:', error);
+      alert('Failed to refund postage: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Delete message
-  const handleDeleteMessage = async (messageId: number) => {
+  // Keep the postage of an unwanted message
+  const handleMarkAsSpam = async (msg: Message) => {
     if (!contract) return;
-    
-    if (!confirm(`Delete message #${messageId}?`)) return;
+
+    const kept = msg.postage > 0n ? ` You keep its ${ethers.formatEther(msg.postage)} ETH postage.` : '';
+    if (!confirm(`Mark message #${msg.id} as spam?${kept}`)) return;
 
     try {
       setLoading(true);
-      const tx = await contract.deleteMessage(messageId);
+      const tx = await contract.markAsSpam(msg.id);
       await tx.wait();
-      alert('✅ Message deleted!');
+      alert('✅ Message marked as spam!');
       await loadMessages();
     } catch (error: any) {
-      console.error('❌ Delete error:', error);
-      alert('Failed to delete: ' + error.message);
+      console.error('❌ Mark as spam error:', error);
+      alert('Failed to mark as spam: ' + error.message);
     } finally {
       setLoading(false);
     }
   };
 
-  return (
-    <div className="app">
-      {/* Header */}
-      <header className="header">
-        <div className="container">
-          <h1>Confidential Transmission</h1>
-          <p className="subtitle">End-to-End Encrypted File Transfer • Sepolia Testnet • Powered by FHEVM & IPFS</p>
-          
-          {!isConnected ? (
-            <button onClick={() => setShowWalletModal(true)} disabled={loading} className="btn-primary">
-              {loading ? '🔄 Connecting...' : '🔌 Connect Wallet'}
-            </button>
-          ) : (
-            <div className="account-info">
-              <div className="account-badge">
-                <span className="account-label">👤 Account:</span>
-                <span className="account-address">{account.slice(0, 6)}...{account.slice(-4)}</span>
-              </div>
-              <div className="account-badge">
-                <span className="account-label">🌐 Network:</span>
-                <span className="account-address">{NETWORK_CONFIG.sepolia.name}</span>
-              </div>
-              <div className="account-badge">
-                <span className="account-label">⚙️ SDK:</span>
-                <span className="sdk-status-indicator">
-                  {sdkStatus === 'loading' && <span className="status-dot status-loading" title="SDK Initializing...">🟡</span>}
-                  {sdkStatus === 'success' && <span className="status-dot status-success" title="SDK Ready">🟢</span>}
-                  {sdkStatus === 'error' && <span className="status-dot status-error" title="SDK Initialization Failed">🔴</span>}
-                </span>
-              </div>
-              <button onClick={disconnectWallet} className="btn-secondary">
-                Disconnect
-              </button>
-            </div>
-          )}
-        </div>
-      </header>
+  // Release a time-locked key to its recipient (anyone may call this once it is due)
+  const handleUnlockMessage = async (messageId: number) => {
+    if (!contract) return;
 
-      {isConnected && (
-        <main className="container main-content">
-          {/* Tabs */}
-          <div className="tabs">
+    try {
+      setLoading(true);
+      const tx = await contract.unlock(messageId);
+      await tx.wait();
+      alert(`✅ Message #${messageId} unlocked! It can now be decrypted.`);
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Unlock error:', error);
+      alert('Failed to unlock: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load the messages we were asked to approve
+  const loadApprovalRequests = async () => {
+    if (!client || !contract || !account) return;
+    try {
+      const requests = await (await client.getViews()).getApprovalRequests(account);
+      const entries = await Promise.all(
+        requests.map(async (metadata: any) => ({
+          message: toMessage(metadata),
+          vote: APPROVAL_VOTES[Number(await contract.getApprovalVote(metadata.id, account))],
+        }))
+      );
+      setApprovalRequests(entries);
+    } catch (error) {
+      console.warn('⚠️ Approval request lookup failed:', error);
+    }
+  };
+
+  // Approve or reject a message as one of its designated approvers
+  const handleApprovalDecision = async (messageId: number, approve: boolean) => {
+    if (!contract) return;
+
+    if (!approve && !confirm(`Reject message #${messageId}? This cannot be undone.`)) return;
+
+    try {
+      setLoading(true);
+      const tx = approve ? await contract.approveMessage(messageId) : await contract.rejectMessage(messageId);
+      const receipt = await tx.wait();
+      const released = (receipt?.logs ?? []).some((log: any) => contract.interface.parseLog(log)?.name === 'MessageUnlocked');
+      alert(
+        approve
+          ? `✅ Message #${messageId} approved!${released ? ' The quorum is reached and the recipient can now decrypt it.' : ''}`
+          : `❌ Message #${messageId} rejected`
+      );
+      await loadApprovalRequests();
+    } catch (error: any) {
+      console.error('❌ Approval error:', error);
+      alert('Failed to record decision: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load the accounts we delegated our inbox to
+  const loadDelegates = async () => {
+    if (!contract || !account) return;
+    try {
+      const list = await contract.getDelegates(account);
+      setDelegates(list.map((d: any) => ({ account: d.account, expiresAt: Number(d.expiresAt) })));
+    } catch (error) {
+      console.warn('⚠️ Delegate lookup failed:', error);
+    }
+  };
+
+  // Let another account read our inbox, or change how long it may
+  const handleAddDelegate = async () => {
+    if (!contract) return;
+
+    if (!ethers.isAddress(delegateAddress)) {
+      alert('❌ Invalid delegate address');
+      return;
+    }
+    const days = delegateDays ? Number(delegateDays) : 0;
+    if (!Number.isFinite(days) || days < 0) {
+      alert('❌ The duration must be a positive number of days');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const expiry = days > 0 ? Math.floor(Date.now() / 1000) + Math.round(days * 86400) : 0;
+      const tx = await contract.addDelegate(delegateAddress, expiry);
+      await tx.wait();
+      alert(`✅ ${delegateAddress} can now read new messages${days > 0 ? ` for ${days} day(s)` : ''}`);
+      setDelegateAddress('');
+      await loadDelegates();
+    } catch (error: any) {
+      console.error('❌ Add delegate error:', error);
+      alert('Failed to add delegate: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Stop sharing new messages with a delegate (keys already shared stay readable)
+  const handleRemoveDelegate = async (delegate: string) => {
+    if (!contract) return;
+
+    if (!confirm(`Remove ${delegate}? Messages already shared with it stay readable.`)) return;
+
+    try {
+      setLoading(true);
+      const tx = await contract.removeDelegate(delegate);
+      await tx.wait();
+      alert('✅ Delegate removed');
+      await loadDelegates();
+    } catch (error: any) {
+      console.error('❌ Remove delegate error:', error);
+      alert('Failed to remove delegate: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Share the messages already in our inbox with a delegate
+  const handleShareExisting = async (delegate: string) => {
+    if (!contract) return;
+
+    const messageIds = receivedMessages.filter((msg) => !msg.isDeleted).map((msg) => msg.id);
+    if (messageIds.length === 0) {
+      alert('📭 Your inbox is empty');
+      return;
+    }
+    if (!confirm(`Share ${messageIds.length} existing message(s) with ${delegate}? This cannot be undone.`)) return;
+
+    try {
+      setLoading(true);
+      const tx = await contract.grantDelegateAccess(messageIds, delegate);
+      await tx.wait();
+      alert(`✅ Shared ${messageIds.length} message(s)`);
+    } catch (error: any) {
+      console.error('❌ Share messages error:', error);
+      alert('Failed to share messages: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show the inbox of an account that delegated to us
+  const handleViewInbox = () => {
+    if (!ethers.isAddress(inboxOwnerInput)) {
+      alert('❌ Invalid inbox address');
+      return;
+    }
+    const owner = ethers.getAddress(inboxOwnerInput);
+    setInboxOwner(owner === ethers.getAddress(account) ? null : owner);
+  };
+
+  // Load the groups we are a member of
+  const loadGroups = async () => {
+    if (!groupsContract || !account) return;
+    try {
+      const groupIds = await groupsContract.getGroupsOf(account);
+      const list = await Promise.all(
+        groupIds.map(async (groupId: bigint) => {
+          const [name, admins, members, messageCount] = await groupsContract.getGroup(groupId);
+          return { id: Number(groupId), name, admins: [...admins], members: [...members], messageCount: Number(messageCount) };
+        })
+      );
+      setGroups(list);
+    } catch (error) {
+      console.warn('⚠️ Group lookup failed:', error);
+    }
+  };
+
+  // Open a group and load its message history
+  const loadGroupMessages = async (groupId: number) => {
+    if (!groupsContract || !account) return;
+    try {
+      setSelectedGroupId(groupId);
+      const [, , , messageCount] = await groupsContract.getGroup(groupId);
+      const messages: GroupMessageInfo[] = [];
+      for (let offset = 0; offset < Number(messageCount); offset += GROUP_PAGE_SIZE) {
+        const page = await groupsContract.getGroupMessagesPage(groupId, offset, GROUP_PAGE_SIZE);
+        for (const metadata of page) {
+          messages.push({
+            index: Number(metadata.index),
+            contentCID: contentCIDOf(metadata.contentDigest),
+            timestamp: Number(metadata.timestamp),
+            readable: await groupsContract.canRead(groupId, metadata.index, account),
+          });
+        }
+      }
+      setGroupMessages(messages.reverse());
+    } catch (error) {
+      console.warn('⚠️ Group message lookup failed:', error);
+    }
+  };
+
+  // Create a group with us as its admin
+  const handleCreateGroup = async () => {
+    if (!groupsContract) return;
+
+    if (!newGroupName.trim()) {
+      alert('❌ Please enter a group name');
+      return;
+    }
+    const members = parseRecipients(newGroupMembers);
+    const invalid = members.find((member) => !ethers.isAddress(member));
+    if (invalid) {
+      alert(`❌ Invalid member address: ${invalid}`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const tx = await groupsContract.createGroup(newGroupName.trim(), members);
+      const receipt = await tx.wait();
+      const created = (receipt?.logs ?? [])
+        .map((log: any) => groupsContract.interface.parseLog(log))
+        .find((parsed: any) => parsed?.name === 'GroupCreated');
+      alert(`✅ Group "${newGroupName.trim()}" created${created ? ` (#${created.args.groupId})` : ''}`);
+      setNewGroupName('');
+      setNewGroupMembers('');
+      await loadGroups();
+    } catch (error: any) {
+      console.error('❌ Create group error:', error);
+      alert('Failed to create group: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Add a member to the open group, optionally sharing its latest messages
+  const handleAddGroupMember = async () => {
+    if (!groupsContract || selectedGroupId === null) return;
+
+    if (!ethers.isAddress(groupMemberAddress)) {
+      alert('❌ Invalid member address');
+      return;
+    }
+    const history = groupHistoryCount ? Number(groupHistoryCount) : 0;
+    if (!Number.isInteger(history) || history < 0) {
+      alert('❌ The history must be a whole number of messages');
+      return;
+    }
+    if (history > 0 && !confirm(`Share the last ${history} message(s) with ${groupMemberAddress}? This cannot be undone.`)) return;
+
+    try {
+      setLoading(true);
+      const tx = await groupsContract.addMember(selectedGroupId, groupMemberAddress, history);
+      await tx.wait();
+      alert('✅ Member added!');
+      setGroupMemberAddress('');
+      setGroupHistoryCount('');
+      await loadGroups();
+    } catch (error: any) {
+      console.error('❌ Add member error:', error);
+      alert('Failed to add member: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Remove a member from the open group (or leave it when removing ourselves)
+  const handleRemoveGroupMember = async (member: string) => {
+    if (!groupsContract || selectedGroupId === null) return;
+
+    const leaving = member.toLowerCase() === account.toLowerCase();
+    if (!confirm(leaving ? 'Leave this group?' : `Remove ${member}? Messages already shared with them stay readable.`)) return;
+
+    try {
+      setLoading(true);
+      const tx = await groupsContract.removeMember(selectedGroupId, member);
+      await tx.wait();
+      alert(leaving ? '✅ You left the group' : '✅ Member removed');
+      if (leaving) {
+        setSelectedGroupId(null);
+        setGroupMessages([]);
+      }
+      await loadGroups();
+    } catch (error: any) {
+      console.error('❌ Remove member error:', error);
+      alert('Failed to remove member: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Encrypt a file, pin it to IPFS and post it to every current member of the open group
+  const handleSendToGroup = async () => {
+    if (!client || !groupsContract || !fhevmInstance || !signer || selectedGroupId === null) return;
+
+    if (!groupFile) {
+      alert('❌ Please select a file');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setSendStatus('🔐 Encrypting with AES-256-CBC and uploading to IPFS (Pinata)...');
+      const { cid, key } = await client.upload(new Uint8Array(await groupFile.arrayBuffer()), {
+        filename: groupFile.name,
+        type: groupFile.type || 'application/octet-stream',
+      });
+
+      // Sender and key share one encrypted input, bound to the groups contract
+      setSendStatus('🔒 Encrypting sender and key with FHE...');
+      const userAddress = await signer.getAddress();
+      const encryptedInput = await fhevmInstance
+        .createEncryptedInput(GROUPS_CONTRACT_ADDRESS, userAddress)
+        .addAddress(userAddress)
+        .add256(BigInt(key))
+        .encrypt();
+
+      setSendStatus('🚀 Sending to the group...');
+      const tx = await groupsContract.sendToGroup(
+        selectedGroupId,
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.inputProof,
+        cidToDigest(cid)
+      );
+      await tx.wait();
+
+      setSendStatus('');
+      setGroupFile(null);
+      alert('✅ Message sent to the group!');
+      await loadGroupMessages(selectedGroupId);
+      await loadGroups();
+    } catch (error: any) {
+      console.error('❌ Group send error:', error);
+      setSendStatus('');
+      alert('Failed to send to group: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Decrypt a group message's sender and key, then download and decrypt its file
+  const handleDecryptGroupMessage = async (index: number) => {
+    if (!client || !groupsContract || !fhevmInstance || !signer || selectedGroupId === null) return;
+
+    try {
+      setLoading(true);
+      setSendStatus('🔍 Fetching encrypted message...');
+      const message = await groupsContract.getGroupMessage(selectedGroupId, index);
+
+      // User decryption against the groups contract (same flow as handleDecryptMessage)
+      setSendStatus('✍️ Please sign the decryption permission...');
+      const results = await userDecrypt(
+        fhevmInstance,
+        [message.encryptedSender, message.senderVerified, message.encryptedKey],
+        GROUPS_CONTRACT_ADDRESS,
+        signer
+      );
+      const sender = decryptedAddress(results, message.encryptedSender);
+      const key = ethers.toBeHex(decryptedUint(results, message.encryptedKey), 32);
+
+      setSendStatus('📥 Downloading from IPFS...');
+      const envelope = parseEnvelope(await client.storage.download(message.contentDigest));
+      const content = await decryptEnvelope(envelope, key);
+      saveDecryptedFile(envelope, content, `group-${selectedGroupId}-message-${index}.bin`);
+
+      setSendStatus('');
+      setDecryptedInfo({
+        messageId: index,
+        group: groups.find((group) => group.id === selectedGroupId)?.name,
+        sender,
+        senderVerified: decryptedBool(results, message.senderVerified),
+        filename: envelope.filename,
+        size: envelope.size,
+        type: envelope.messageType === 'text' ? 'Text Message' : 'File'
+      });
+      setShowDecryptSuccess(true);
+    } catch (error: any) {
+      console.error('❌ Group decrypt error:', error);
+      setSendStatus('');
+      alert('Failed to decrypt group message: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load our dead man's switch
+  const loadSwitchStatus = async () => {
+    if (!contract || !account) return;
+    try {
+      const { interval, lastHeartbeat } = await contract.switchOf(account);
+      setSwitchStatus({ interval: Number(interval), lastHeartbeat: Number(lastHeartbeat) });
+    } catch (error) {
+      console.warn('⚠️ Switch lookup failed:', error);
+    }
+  };
+
+  // Start our dead man's switch or change its interval (also counts as a heartbeat)
+  const handleConfigureSwitch = async () => {
+    if (!contract) return;
+
+    const days = Number(switchIntervalDays);
+    if (!Number.isFinite(days) || days < 1) {
+      alert('❌ The interval must be at least 1 day');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const tx = await contract.configureSwitch(Math.round(days * 86400));
+      await tx.wait();
+      alert(`✅ Dead man's switch set to ${days} day(s)`);
+      await loadSwitchStatus();
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Configure switch error:', error);
+      alert('Failed to configure switch: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Check in, holding back our switch messages for another interval
+  const handleHeartbeat = async () => {
+    if (!contract) return;
+
+    try {
+      setLoading(true);
+      const tx = await contract.heartbeat();
+      await tx.wait();
+      alert('💓 Checked in!');
+      await loadSwitchStatus();
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Heartbeat error:', error);
+      alert('Failed to check in: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Release a switch message whose owner stopped checking in (anyone may call this)
+  const handleReleaseMessage = async (messageId: number) => {
+    if (!contract) return;
+
+    try {
+      setLoading(true);
+      const tx = await contract.release(messageId);
+      await tx.wait();
+      alert(`✅ Message #${messageId} released! It can now be decrypted.`);
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Release error:', error);
+      alert('Failed to release: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Set the postage senders must attach to reach our inbox
+  const handleSetPostage = async () => {
+    if (!contract) return;
+
+    let amount: bigint;
+    try {
+      amount = ethers.parseEther(inboxPostage || '0');
+    } catch {
+      alert(`❌ Invalid amount: ${inboxPostage}`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const tx = await contract.setPostage(amount);
+      await tx.wait();
+      alert(amount > 0n ? `✅ Inbox postage set to ${ethers.formatEther(amount)} ETH` : '✅ Inbox postage removed');
+    } catch (error: any) {
+      console.error('❌ Set postage error:', error);
+      alert('Failed to set postage: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteMessage = async (messageId: number) => {
+    if (!client) return;
+    
+    if (!confirm(`Delete message #${messageId}?`)) return;
+
+    try {
+      setLoading(true);
+      await client.delete(BigInt(messageId));
+      alert('✅ Message deleted!');
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Delete error:', error);
+      alert('Failed to delete: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Decrypt the sender filter results of received messages with a single signature
+  const handleCheckSenderFilter = async () => {
+    if (!fhevmInstance || !signer) {
+      alert('❌ Please connect wallet first');
+      return;
+    }
+
+    const filtered = receivedMessages.filter((msg) => msg.isAllowedHandle !== ethers.ZeroHash);
+    if (filtered.length === 0) {
+      alert('No received messages were checked against a sender filter.\nSet one up with the confidential-transmission:filter-* tasks.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const results = await userDecrypt(
+        fhevmInstance,
+        filtered.map((msg) => msg.isAllowedHandle),
+        CONTRACT_ADDRESS,
+        signer
+      );
+
+      const decrypted: Record<number, boolean> = {};
+      for (const msg of filtered) {
+        decrypted[msg.id] = decryptedBool(results, msg.isAllowedHandle);
+      }
+      setFilterResults(decrypted);
+    } catch (error: any) {
+      console.error('❌ Sender filter check failed:', error);
+      alert('Failed to check sender filter: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show or hide the replies to a message
+  const handleToggleThread = async (messageId: number) => {
+    if (!client) return;
+
+    if (threads[messageId]) {
+      setThreads((prev) => {
+        const next = { ...prev };
+        delete next[messageId];
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const replies = await (await client.getViews()).getReplies(messageId);
+      setThreads((prev) => ({ ...prev, [messageId]: replies.map((metadata: any) => toMessage(metadata)) }));
+    } catch (error: any) {
+      console.error('❌ Failed to load replies:', error);
+      alert('Failed to load replies: ' + error.message);
+    }
+  };
+
+  // Start replying to a received message from the Send tab
+  const handleStartReply = (messageId: number) => {
+    setReplyTo(messageId);
+    setIsPrepared(false);
+    setSendStatus('');
+    setActiveTab('send');
+  };
+
+  // Forward a received message (reuses its IPFS content and FHE key, nothing is re-encrypted)
+  const handleForwardMessage = async (messageId: number) => {
+    if (!client) return;
+
+    const newRecipient = prompt(`Forward message #${messageId} to address:`)?.trim();
+    if (!newRecipient) return;
+    if (!ethers.isAddress(newRecipient)) {
+      alert(`❌ Invalid address: ${newRecipient}`);
+      return;
+    }
+    const withholdSender = confirm('Hide the original sender from the new recipient?\n\nOK = hide sender, Cancel = keep sender');
+
+    try {
+      setLoading(true);
+      const postage = await client.postageFor([newRecipient]);
+      if (postage > 0n && !confirm(`${newRecipient} requires ${ethers.formatEther(postage)} ETH postage, refunded when they read the message. Continue?`)) {
+        return;
+      }
+      await client.forward(BigInt(messageId), newRecipient, withholdSender);
+      alert(`✅ Message forwarded to ${newRecipient}!`);
+      await loadMessages();
+    } catch (error: any) {
+      console.error('❌ Forward error:', error);
+      alert('Failed to forward: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Recall a sent message by revealing its outbox recall key
+  const handleRecallMessage = async (msg: Message) => {
+    if (!client || msg.outboxIndex === undefined) return;
+
+    const warning = anonymousSend
+      ? `Recall message #${msg.id}? The recipient has not opened it yet and will never receive its key.`
+      : `Recall message #${msg.id}? The recipient has not opened it yet and will never receive its key.\n\nDirect mode sends the recall from your wallet, which links you to this message. Switch Send Mode to Anonymous to recall through the relayer.`;
+    if (!confirm(warning)) return;
+
+    try {
+      setLoading(true);
+      const secret = await getOutboxSecret();
+      await client.recall(BigInt(msg.id), anonymousSend ? relayTransaction : undefined);
+
+      alert('✅ Message recalled!');
+      await loadMessages(undefined, secret);
+    } catch (error: any) {
+      console.error('❌ Recall error:', error);
+      alert('Failed to recall: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="app">
+      {/* Header */}
+      <header className="header">
+        <div className="container">
+          <h1>Confidential Transmission</h1>
+          <p className="subtitle">End-to-End Encrypted File Transfer • Sepolia Testnet • Powered by FHEVM & IPFS</p>
+          
+          {!isConnected ? (
+            <button onClick={() => setShowWalletModal(true)} disabled={loading} className="btn-primary">
+              {loading ? '🔄 Connecting...' : '🔌 Connect Wallet'}
+            </button>
+          ) : (
+            <div className="account-info">
+              <div className="account-badge">
+                <span className="account-label">👤 Account:</span>
+                <span className="account-address">{account.slice(0, 6)}...{account.slice(-4)}</span>
+              </div>
+              <div className="account-badge">
+                <span className="account-label">🌐 Network:</span>
+                <span className="account-address">{NETWORK_CONFIG.sepolia.name}</span>
+              </div>
+              <div className="account-badge">
+                <span className="account-label">⚙️ SDK:</span>
+                <span className="sdk-status-indicator">
+                  {sdkStatus === 'loading' && <span className="status-dot status-loading" title="SDK Initializing...">🟡</span>}
+                  {sdkStatus === 'success' && <span className="status-dot status-success" title="SDK Ready">🟢</span>}
+                  {sdkStatus === 'error' && <span className="status-dot status-error" title="SDK Initialization Failed">🔴</span>}
+                </span>
+              </div>
+              <button onClick={disconnectWallet} className="btn-secondary">
+                Disconnect
+              </button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      {isConnected && (
+        <main className="container main-content">
+          {/* Tabs */}
+          <div className="tabs">
             <button
               className={`tab ${activeTab === 'send' ? 'active' : ''}`}
               onClick={() => setActiveTab('send')}
@@ -1001,6 +1778,30 @@ function App() {
             >
               📨 Sent ({sentMessages.length})
             </button>
+            <button
+              className={`tab ${activeTab === 'switch' ? 'active' : ''}`}
+              onClick={() => setActiveTab('switch')}
+            >
+              🪦 Switch
+            </button>
+            <button
+              className={`tab ${activeTab === 'approvals' ? 'active' : ''}`}
+              onClick={() => setActiveTab('approvals')}
+            >
+              ✅ Approvals ({approvalRequests.filter(({ vote, message }) => vote === 'pending' && message.isLocked).length})
+            </button>
+            <button
+              className={`tab ${activeTab === 'delegates' ? 'active' : ''}`}
+              onClick={() => setActiveTab('delegates')}
+            >
+              👥 Delegates
+            </button>
+            <button
+              className={`tab ${activeTab === 'groups' ? 'active' : ''}`}
+              onClick={() => setActiveTab('groups')}
+            >
+              🗣️ Groups ({groups.length})
+            </button>
           </div>
 
           {/* Send Tab */}
@@ -1008,15 +1809,190 @@ function App() {
             <div className="card">
               <h2>📤 Send Encrypted Message</h2>
               
+              {replyTo !== null ? (
+                <div className="info-box">
+                  <p>
+                    💬 Replying to message <strong>#{replyTo}</strong>. The contract routes your reply to its sender,
+                    whose address stays hidden from you.
+                  </p>
+                  <button type="button" className="btn-secondary" onClick={() => setReplyTo(null)}>
+                    ✖ Cancel Reply
+                  </button>
+                </div>
+              ) : (
+                <div className="form-group">
+                  <label>Recipient Address(es)</label>
+                  <input
+                    type="text"
+                    placeholder="0x... (separate several recipients with commas)"
+                    value={recipientAddress}
+                    onChange={(e) => setRecipientAddress(e.target.value)}
+                    className="input"
+                  />
+                </div>
+              )}
+
+              {/* Send mode and expiry do not apply to replies */}
+              {replyTo === null && (
+                <>
+                  {/* Send Mode Selection */}
+                  <div className="form-group">
+                    <label>Send Mode</label>
+                    <div className="message-type-selector">
+                      <button
+                        type="button"
+                        className={`type-option ${!anonymousSend ? 'active' : ''}`}
+                        onClick={() => setAnonymousSend(false)}
+                      >
+                        👤 Direct
+                      </button>
+                      <button
+                        type="button"
+                        className={`type-option ${anonymousSend ? 'active' : ''}`}
+                        onClick={() => setAnonymousSend(true)}
+                      >
+                        🕶️ Anonymous (via relayer)
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Recipient Privacy Selection */}
+                  <div className="form-group">
+                    <label>Recipient</label>
+                    <div className="message-type-selector">
+                      <button
+                        type="button"
+                        className={`type-option ${!stealthSend ? 'active' : ''}`}
+                        onClick={() => setStealthSend(false)}
+                      >
+                        👁️ Visible
+                      </button>
+                      <button
+                        type="button"
+                        className={`type-option ${stealthSend ? 'active' : ''}`}
+                        onClick={() => setStealthSend(true)}
+                      >
+                        🕵️ Stealth (one-time address)
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Expiry Selection */}
+                  <div className="form-group">
+                    <label>Expires After</label>
+                    <div className="message-type-selector">
+                      {TTL_OPTIONS.map((option) => (
+                        <button
+                          key={option.seconds}
+                          type="button"
+                          className={`type-option ${ttlSeconds === option.seconds ? 'active' : ''}`}
+                          onClick={() => setTtlSeconds(option.seconds)}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Time Lock */}
+                  <div className="form-group">
+                    <label>Decryptable From (optional)</label>
+                    <input
+                      type="datetime-local"
+                      value={unlockAtInput}
+                      onChange={(e) => setUnlockAtInput(e.target.value)}
+                      className="input"
+                    />
+                  </div>
+
+                  {/* Dead Man's Switch */}
+                  <div className="form-group">
+                    <label>Dead Man's Switch</label>
+                    <div className="message-type-selector">
+                      <button
+                        type="button"
+                        className={`type-option ${!switchSend ? 'active' : ''}`}
+                        onClick={() => setSwitchSend(false)}
+                      >
+                        📬 Deliver normally
+                      </button>
+                      <button
+                        type="button"
+                        className={`type-option ${switchSend ? 'active' : ''}`}
+                        onClick={() => setSwitchSend(true)}
+                      >
+                        🪦 Release if I stop checking in
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* M-of-N Approval */}
+                  <div className="form-group">
+                    <label>Approvers (optional)</label>
+                    <input
+                      type="text"
+                      placeholder="0x... (the key is released once enough of them approve)"
+                      value={approversInput}
+                      onChange={(e) => setApproversInput(e.target.value)}
+                      className="input"
+                    />
+                  </div>
+                  {approversInput.trim() !== '' && (
+                    <div className="form-group">
+                      <label>Required Approvals</label>
+                      <input
+                        type="number"
+                        min="1"
+                        placeholder={`${parseRecipients(approversInput).length} (all approvers)`}
+                        value={approvalThreshold}
+                        onChange={(e) => setApprovalThreshold(e.target.value)}
+                        className="input"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+
+              {switchSend && replyTo === null && (
+                <div className="info-box">
+                  <p>
+                    🪦 The recipient can only decrypt this message if you miss a heartbeat
+                    {switchStatus?.interval ? ` (every ${formatCountdown(switchStatus.interval)})` : ''}. Your address is
+                    stored as the switch owner, which links you to the message.
+                    {!switchStatus?.interval && ' Set up your switch on the Switch tab first.'}
+                  </p>
+                </div>
+              )}
+
+              {requiredPostage > 0n && (
+                <div className="info-box">
+                  <p>
+                    💰 Required postage: <strong>{ethers.formatEther(requiredPostage)} ETH</strong>. It is held by the
+                    contract and refunded once the message is read, or kept by the recipient if they mark it as spam.
+                    {anonymousSend && replyTo === null && ' Anonymous sends cannot attach postage; switch to Direct mode.'}
+                  </p>
+                </div>
+              )}
+
+              {/* CID Visibility Selection */}
               <div className="form-group">
-                <label>Recipient Address</label>
-                <input
-                  type="text"
-                  placeholder="0x..."
-                  value={recipientAddress}
-                  onChange={(e) => setRecipientAddress(e.target.value)}
-                  className="input"
-                />
+                <label>IPFS CID</label>
+                <div className="message-type-selector">
+                  <button
+                    type="button"
+                    className={`type-option ${!hideCid ? 'active' : ''}`}
+                    onClick={() => setHideCid(false)}
+                  >
+                    🌐 Public
+                  </button>
+                  <button
+                    type="button"
+                    className={`type-option ${hideCid ? 'active' : ''}`}
+                    onClick={() => setHideCid(true)}
+                  >
+                    🙈 Hidden (FHE encrypted)
+                  </button>
+                </div>
               </div>
 
               {/* Message Type Selection */}
@@ -1114,7 +2090,7 @@ function App() {
                 disabled={
                   preparing || 
                   isPrepared ||
-                  !recipientAddress || 
+                  (replyTo === null && !recipientAddress) || 
                   (messageType === 'text' ? !textMessage.trim() : !selectedFile)
                 }
                 className="btn-primary btn-large"
@@ -1124,7 +2100,7 @@ function App() {
 
               {/* Step 2: Confidential Send */}
               <button
-                onClick={handleConfidentialSend}
+                onClick={replyTo !== null ? handleSendReply : handleConfidentialSend}
                 disabled={!isPrepared || sending}
                 className="btn-primary btn-large"
                 style={{ 
@@ -1133,7 +2109,7 @@ function App() {
                   cursor: isPrepared ? 'pointer' : 'not-allowed'
                 }}
               >
-                {sending ? '🚀 Sending...' : '📡 Confidential Send'}
+                {sending ? '🚀 Sending...' : replyTo !== null ? '💬 Send Reply' : '📡 Confidential Send'}
               </button>
 
               {sendStatus && (
@@ -1145,7 +2121,7 @@ function App() {
               <div className="info-box">
                 <h3>💡 Instructions</h3>
                 <ol>
-                  <li>Enter recipient's Ethereum address</li>
+                  <li>Enter recipient's Ethereum address (several addresses share one upload and one transaction)</li>
                   <li>Select message type:
                     <ul>
                       <li>📝 <strong>Text Message</strong> - Enter text content directly</li>
@@ -1161,7 +2137,12 @@ function App() {
                 <ul>
                   <li>✅ Content encrypted with AES-256-CBC</li>
                   <li>✅ Sender identity protected by FHE</li>
+                  <li>✅ Anonymous mode: a one-time account sends with relayer-paid gas, your wallet never appears on-chain</li>
+                  <li>✅ Optional expiry: the contract refuses to serve the message once it expires</li>
+                  <li>✅ Postage is refunded to you once the recipient reads the message</li>
                   <li>✅ Decryption key protected by FHE</li>
+                  <li>✅ Hidden CID: only recipients can locate the encrypted file</li>
+                  <li>✅ Stealth mode: a one-time address hides who receives the message</li>
                   <li>✅ Only designated recipient can decrypt</li>
                   <li>✅ Supports both text and file types</li>
                 </ul>
@@ -1174,9 +2155,24 @@ function App() {
             <div className="card">
               <div className="card-header">
                 <h2>📬 Received Messages</h2>
-                <button onClick={() => loadMessages()} className="btn-secondary" disabled={loading}>
-                  {loading ? '🔄' : '🔄 Refresh'}
-                </button>
+                <div className="message-actions">
+                  {!inboxOwner && (
+                    <>
+                      <button onClick={handleCheckSenderFilter} className="btn-secondary" disabled={loading}>
+                        🛡️ Apply Sender Filter
+                      </button>
+                      <button onClick={handlePublishStealthAddress} className="btn-secondary" disabled={loading}>
+                        🕵️ Publish Stealth Address
+                      </button>
+                      <button onClick={handleScanStealthInbox} className="btn-secondary" disabled={loading}>
+                        🔍 Scan Stealth Inbox
+                      </button>
+                    </>
+                  )}
+                  <button onClick={() => loadMessages()} className="btn-secondary" disabled={loading}>
+                    {loading ? '🔄' : '🔄 Refresh'}
+                  </button>
+                </div>
               </div>
 
               {/* Decryption Status Display */}
@@ -1186,42 +2182,248 @@ function App() {
                 </div>
               )}
 
+              <div className="form-group postage-setting">
+                <label>👥 View inbox of</label>
+                <input
+                  type="text"
+                  placeholder="0x... (an account that made you its delegate)"
+                  value={inboxOwnerInput}
+                  onChange={(e) => setInboxOwnerInput(e.target.value)}
+                  className="input"
+                />
+                <button onClick={handleViewInbox} className="btn-secondary" disabled={loading}>
+                  👀 View
+                </button>
+                {inboxOwner && (
+                  <button onClick={() => { setInboxOwner(null); setInboxOwnerInput(''); }} className="btn-secondary" disabled={loading}>
+                    📬 My Inbox
+                  </button>
+                )}
+              </div>
+
+              {inboxOwner ? (
+                <div className="info-box" style={{ marginBottom: '20px' }}>
+                  <p>👥 Reading the inbox of <code>{inboxOwner}</code> as its delegate. Only messages shared with you can be decrypted.</p>
+                </div>
+              ) : (
+                <div className="form-group postage-setting">
+                  <label>💰 Inbox Postage (ETH)</label>
+                  <input
+                    type="text"
+                    placeholder="0 = anyone can message you for free"
+                    value={inboxPostage}
+                    onChange={(e) => setInboxPostage(e.target.value)}
+                    className="input"
+                  />
+                  <button onClick={handleSetPostage} className="btn-secondary" disabled={loading}>
+                    💾 Save
+                  </button>
+                </div>
+              )}
+
               {receivedMessages.filter(msg => !msg.isDeleted).length === 0 ? (
                 <p className="empty-message">No messages received yet</p>
               ) : (
                 <div className="message-list">
                   {receivedMessages
                     .filter(msg => !msg.isDeleted)
-                    .map((msg) => (
-                    <div key={msg.id} className="message-card">
+                    .map((msg) => {
+                    const expired = msg.isExpired || (msg.expiresAt > 0 && now >= msg.expiresAt);
+                    const unavailable = expired || msg.isRecalled || msg.isLocked;
+                    if (filterResults[msg.id] === false && !unfolded[msg.id]) {
+                      return (
+                        <div key={msg.id} className="message-card folded">
+                          <div className="message-header">
+                            <strong>🚫 Message #{msg.id} from a filtered sender</strong>
+                            <button
+                              onClick={() => setUnfolded((prev) => ({ ...prev, [msg.id]: true }))}
+                              className="btn-secondary"
+                            >
+                              Show anyway
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    }
+                    return (
+                    <div key={msg.id} className={`message-card ${unavailable ? 'expired' : ''}`}>
                       <div className="message-header">
                         <strong>📨 Message #{msg.id}</strong>
+                        {msg.isRecalled && <span className="badge-recalled">Recalled</span>}
+                        {!msg.isRecalled && expired && <span className="badge-expired">Expired</span>}
+                        {msg.isSpam && <span className="badge-spam">Spam</span>}
+                        {msg.isLocked && <span className="badge-locked">Locked</span>}
                       </div>
                       <div className="message-body">
-                        <div>📦 IPFS CID: <code>{msg.contentCID}</code></div>
+                        {msg.replyTo !== null && <div>↪️ In reply to message #{msg.replyTo}</div>}
+                        {msg.postage > 0n && <div>💰 Postage: <strong>{ethers.formatEther(msg.postage)} ETH</strong> (refunded when read)</div>}
+                        <div>📦 IPFS CID: {msg.contentCID ? <code>{msg.contentCID}</code> : '🙈 Hidden'}</div>
                         <div>⏰ Time: {new Date(msg.timestamp * 1000).toLocaleString()}</div>
+                        {msg.isLocked && msg.unlockAt > 0 && (
+                          <div>
+                            🔒 Unlocks: {new Date(msg.unlockAt * 1000).toLocaleString()}
+                            {now < msg.unlockAt && <> (in <strong>{formatCountdown(msg.unlockAt - now)}</strong>)</>}
+                          </div>
+                        )}
+                        {msg.isLocked && msg.approvalThreshold > 0 && (
+                          <div>✅ Approvals: <strong>{msg.approvals} of {msg.approvalThreshold}</strong> required</div>
+                        )}
+                        {msg.isLocked && msg.switchOwner !== ethers.ZeroAddress && (
+                          <div>
+                            🪦 Released if the sender misses a heartbeat, from{' '}
+                            {new Date(msg.releasableAt * 1000).toLocaleString()}
+                          </div>
+                        )}
+                        {msg.expiresAt > 0 && !unavailable && (
+                          <div>⏳ Expires in: <strong>{formatCountdown(msg.expiresAt - now)}</strong></div>
+                        )}
                       </div>
                       <div className="message-actions">
+                        {msg.isLocked && !inboxOwner && !expired && !msg.isRecalled && msg.switchOwner === ethers.ZeroAddress && (
+                          <button
+                            onClick={() => handleUnlockMessage(msg.id)}
+                            className="btn-primary"
+                            disabled={loading || now < msg.unlockAt || msg.approvals < msg.approvalThreshold}
+                          >
+                            🔓 Unlock
+                          </button>
+                        )}
+                        {msg.isLocked && !expired && !msg.isRecalled && msg.switchOwner !== ethers.ZeroAddress && (
+                          <button
+                            onClick={() => handleReleaseMessage(msg.id)}
+                            className="btn-primary"
+                            disabled={loading || now < Math.max(msg.releasableAt, msg.unlockAt) || msg.approvals < msg.approvalThreshold}
+                          >
+                            🪦 Release
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDecryptMessage(msg.id)}
                           className="btn-primary"
-                          disabled={loading}
+                          disabled={loading || unavailable}
                         >
                           {loading ? '🔄 Decrypting...' : '🔓 Decrypt & Download'}
                         </button>
-                        <button
-                          onClick={() => handleDeleteMessage(msg.id)}
-                          className="btn-danger"
-                          disabled={loading}
-                        >
-                          🗑️ Delete
-                        </button>
+                        {msg.acceptsReplies && !inboxOwner && (
+                          <button
+                            onClick={() => handleStartReply(msg.id)}
+                            className="btn-secondary"
+                            disabled={loading || msg.isRecalled}
+                          >
+                            💬 Reply
+                          </button>
+                        )}
+                        {!inboxOwner && (
+                          <>
+                            <button
+                              onClick={() => handleForwardMessage(msg.id)}
+                              className="btn-secondary"
+                              disabled={loading || unavailable}
+                            >
+                              📤 Forward
+                            </button>
+                            <button
+                              onClick={() => handleToggleThread(msg.id)}
+                              className="btn-secondary"
+                              disabled={loading}
+                            >
+                              {threads[msg.id] ? '🔽 Hide Conversation' : '🧵 Conversation'}
+                            </button>
+                            {!msg.isSpam && (
+                              <button
+                                onClick={() => handleMarkAsSpam(msg)}
+                                className="btn-danger"
+                                disabled={loading}
+                              >
+                                🚮 Mark as Spam
+                              </button>
+                            )}
+                            {msg.postage > 0n && (
+                              <button
+                                onClick={() => handleRefundPostage(msg)}
+                                className="btn-secondary"
+                                disabled={loading}
+                              >
+                                ↩️ Refund Postage
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleDeleteMessage(msg.id)}
+                              className="btn-danger"
+                              disabled={loading}
+                            >
+                              🗑️ Delete
+                            </button>
+                          </>
+                        )}
                       </div>
+                      {threads[msg.id] && (
+                        <div className="thread">
+                          {threads[msg.id].length === 0 ? (
+                            <p className="thread-empty">No replies yet</p>
+                          ) : (
+                            threads[msg.id].map((reply) => (
+                              <div key={reply.id} className="thread-reply">
+                                <strong>↩️ You replied</strong> (#{reply.id})
+                                <span className="thread-time">{new Date(reply.timestamp * 1000).toLocaleString()}</span>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      )}
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
 
+              {stealthMessages.length > 0 && (
+                <>
+                  <h3 style={{ marginTop: '20px' }}>🕵️ Stealth Messages</h3>
+                  <div className="message-list">
+                    {stealthMessages.map(({ message: msg, wallet }) => {
+                      const unavailable = msg.isRecalled || msg.isLocked || msg.isExpired || (msg.expiresAt > 0 && now >= msg.expiresAt);
+                      return (
+                        <div key={msg.id} className={`message-card ${unavailable ? 'expired' : ''}`}>
+                          <div className="message-header">
+                            <strong>📨 Message #{msg.id}</strong>
+                            {msg.isRecalled && <span className="badge-recalled">Recalled</span>}
+                            {msg.isLocked && <span className="badge-locked">Locked</span>}
+                          </div>
+                          <div className="message-body">
+                            <div>🕵️ Stealth address: <code>{wallet.address}</code></div>
+                            <div>📦 IPFS CID: {msg.contentCID ? <code>{msg.contentCID}</code> : '🙈 Hidden'}</div>
+                            <div>⏰ Time: {new Date(msg.timestamp * 1000).toLocaleString()}</div>
+                            {msg.isLocked && msg.unlockAt > 0 && <div>🔒 Unlocks: {new Date(msg.unlockAt * 1000).toLocaleString()}</div>}
+                            {msg.isLocked && msg.switchOwner !== ethers.ZeroAddress && (
+                              <div>🪦 Releasable from: {new Date(msg.releasableAt * 1000).toLocaleString()}</div>
+                            )}
+                          </div>
+                          <div className="message-actions">
+                            {msg.isLocked && msg.switchOwner === ethers.ZeroAddress && (
+                              <button
+                                onClick={() => handleUnlockMessage(msg.id)}
+                                className="btn-primary"
+                                disabled={loading || now < msg.unlockAt}
+                              >
+                                🔓 Unlock
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleDecryptMessage(msg.id, wallet)}
+                              className="btn-primary"
+                              disabled={loading || unavailable}
+                            >
+                              {loading ? '🔄 Decrypting...' : '🔓 Decrypt & Download'}
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+
               {/* Decryption Instructions */}
               <div className="info-box" style={{ marginTop: '20px' }}>
                 <h3>🔓 How to Decrypt Messages</h3>
@@ -1230,6 +2432,7 @@ function App() {
                   <li>Sign the decryption permission request in MetaMask</li>
                   <li>Wait for the FHE gateway to decrypt the AES key</li>
                   <li>The file will automatically download to your Downloads folder</li>
+                  <li>Confirm the read receipt transaction so the sender can see the message was read (this also refunds its postage)</li>
                 </ol>
                 
                 <h3>⚠️ Troubleshooting</h3>
@@ -1253,21 +2456,493 @@ function App() {
                 </button>
               </div>
 
-              {sentMessages.filter(msg => !msg.isDeleted).length === 0 ? (
+              {!outboxSecret ? (
+                <div className="empty-message">
+                  <p>🔒 Your outbox is private. Sign once to rebuild it from your outbox key.</p>
+                  <button onClick={handleUnlockOutbox} className="btn-primary" disabled={loading} style={{ marginTop: '15px' }}>
+                    🔑 Unlock Outbox
+                  </button>
+                </div>
+              ) : sentMessages.filter(msg => !msg.isDeleted).length === 0 ? (
                 <p className="empty-message">No messages sent yet</p>
               ) : (
                 <div className="message-list">
                   {sentMessages
                     .filter(msg => !msg.isDeleted)
                     .map((msg) => (
-                    <div key={msg.id} className="message-card">
+                    <div key={msg.id} className={`message-card ${msg.isRecalled ? 'expired' : ''}`}>
+                      <div className="message-header">
+                        <strong>📨 Message #{msg.id}</strong>
+                        {msg.isRecalled && <span className="badge-recalled">Recalled</span>}
+                        {!msg.isRecalled && readReceipts[msg.id] === 'read' && <span className="badge-read">Read</span>}
+                        {msg.isSpam && <span className="badge-spam">Spam</span>}
+                        {msg.isLocked && <span className="badge-locked">Locked</span>}
+                      </div>
+                      <div className="message-body">
+                        <div>👤 To: <code>{msg.recipient}</code></div>
+                        <div>
+                          📬 Status:{' '}
+                          {readReceipts[msg.id] === 'read'
+                            ? 'Read'
+                            : readReceipts[msg.id] === 'none'
+                            ? 'Delivered (no read receipt requested)'
+                            : 'Delivered'}
+                        </div>
+                        <div>📦 IPFS CID: {msg.contentCID ? <code>{msg.contentCID}</code> : '🙈 Hidden'}</div>
+                        <div>⏰ Time: {new Date(msg.timestamp * 1000).toLocaleString()}</div>
+                        {msg.postage > 0n && <div>💰 Postage: {ethers.formatEther(msg.postage)} ETH escrowed</div>}
+                        {msg.unlockAt > 0 && (
+                          <div>🔒 Unlocks: {new Date(msg.unlockAt * 1000).toLocaleString()}{!msg.isLocked && ' (unlocked)'}</div>
+                        )}
+                        {msg.approvalThreshold > 0 && (
+                          <div>✅ Approvals: {msg.approvals} of {msg.approvalThreshold}{!msg.isLocked && ' (released)'}</div>
+                        )}
+                        {msg.switchOwner !== ethers.ZeroAddress && (
+                          <div>🪦 Dead man's switch: {msg.isLocked ? `releasable from ${new Date(msg.releasableAt * 1000).toLocaleString()}` : 'released'}</div>
+                        )}
+                        {msg.expiresAt > 0 && (
+                          <div>⏳ Expires: {new Date(msg.expiresAt * 1000).toLocaleString()}</div>
+                        )}
+                      </div>
+                      <div className="message-actions">
+                        <button
+                          onClick={() => handleToggleThread(msg.id)}
+                          className="btn-secondary"
+                          disabled={loading}
+                        >
+                          {threads[msg.id] ? '🔽 Hide Conversation' : '🧵 Conversation'}
+                        </button>
+                        {/* Postage stays escrowed until the recipient acts, and opened messages are final */}
+                        {!msg.isRecalled && msg.postage === 0n && !msg.isOpened && (
+                          <button
+                            onClick={() => handleRecallMessage(msg)}
+                            className="btn-danger"
+                            disabled={loading}
+                          >
+                            ↩️ Recall
+                          </button>
+                        )}
+                      </div>
+                      {threads[msg.id] && (
+                        <div className="thread">
+                          {threads[msg.id].length === 0 ? (
+                            <p className="thread-empty">No replies yet</p>
+                          ) : (
+                            threads[msg.id].map((reply) => (
+                              <div key={reply.id} className="thread-reply">
+                                <strong>💬 Reply from recipient</strong> (#{reply.id})
+                                <span className="thread-time">{new Date(reply.timestamp * 1000).toLocaleString()}</span>
+                                <button
+                                  onClick={() =>
+                                    handleDecryptMessage(reply.id, outboxReceiptReader(outboxSecret!, msg.outboxIndex!))
+                                  }
+                                  className="btn-primary"
+                                  disabled={loading || msg.outboxIndex === undefined}
+                                >
+                                  🔓 Decrypt Reply
+                                </button>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Approvals Tab */}
+          {activeTab === 'approvals' && (
+            <div className="card">
+              <div className="card-header">
+                <h2>✅ Approval Requests</h2>
+                <button onClick={loadApprovalRequests} className="btn-secondary" disabled={loading}>
+                  {loading ? '🔄' : '🔄 Refresh'}
+                </button>
+              </div>
+
+              {approvalRequests.length === 0 ? (
+                <p className="empty-message">Nobody has asked you to approve a message yet</p>
+              ) : (
+                <div className="message-list">
+                  {approvalRequests.map(({ message: msg, vote }) => (
+                    <div key={msg.id} className={`message-card ${msg.isRecalled ? 'expired' : ''}`}>
                       <div className="message-header">
                         <strong>📨 Message #{msg.id}</strong>
+                        {vote === 'approved' && <span className="badge-read">Approved</span>}
+                        {vote === 'rejected' && <span className="badge-recalled">Rejected</span>}
+                        {msg.isRecalled && <span className="badge-recalled">Recalled</span>}
+                        {!msg.isLocked && <span className="badge-read">Released</span>}
                       </div>
                       <div className="message-body">
                         <div>👤 To: <code>{msg.recipient}</code></div>
-                        <div>📦 IPFS CID: <code>{msg.contentCID}</code></div>
                         <div>⏰ Time: {new Date(msg.timestamp * 1000).toLocaleString()}</div>
+                        <div>✅ Approvals: <strong>{msg.approvals} of {msg.approvalThreshold}</strong> required</div>
+                      </div>
+                      {vote === 'pending' && !msg.isRecalled && (
+                        <div className="message-actions">
+                          <button
+                            onClick={() => handleApprovalDecision(msg.id, true)}
+                            className="btn-primary"
+                            disabled={loading}
+                          >
+                            ✅ Approve
+                          </button>
+                          <button
+                            onClick={() => handleApprovalDecision(msg.id, false)}
+                            className="btn-danger"
+                            disabled={loading}
+                          >
+                            ❌ Reject
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Delegates Tab */}
+          {activeTab === 'delegates' && (
+            <div className="card">
+              <div className="card-header">
+                <h2>👥 Inbox Delegates</h2>
+                <button onClick={loadDelegates} className="btn-secondary" disabled={loading}>
+                  {loading ? '🔄' : '🔄 Refresh'}
+                </button>
+              </div>
+
+              <div className="info-box">
+                <p>
+                  👥 Delegates (an assistant, a backup device or a service) can read and decrypt the messages sent to you
+                  while their delegation is active. They open your inbox with <strong>View inbox of</strong> on their
+                  Received tab. Decryption permissions are permanent: removing a delegate stops sharing new messages,
+                  but it keeps access to messages it has already been shared.
+                </p>
+              </div>
+
+              <div className="form-group postage-setting">
+                <label>Delegate</label>
+                <input
+                  type="text"
+                  placeholder="0x..."
+                  value={delegateAddress}
+                  onChange={(e) => setDelegateAddress(e.target.value)}
+                  className="input"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Days (empty = never expires)"
+                  value={delegateDays}
+                  onChange={(e) => setDelegateDays(e.target.value)}
+                  className="input"
+                />
+                <button onClick={handleAddDelegate} className="btn-primary" disabled={loading}>
+                  ➕ Add Delegate
+                </button>
+              </div>
+
+              {delegates.length === 0 ? (
+                <p className="empty-message">You have not delegated your inbox</p>
+              ) : (
+                <div className="message-list">
+                  {delegates.map(({ account: delegate, expiresAt }) => {
+                    const expired = expiresAt > 0 && now >= expiresAt;
+                    return (
+                      <div key={delegate} className={`message-card ${expired ? 'expired' : ''}`}>
+                        <div className="message-header">
+                          <strong>👤 <code>{delegate}</code></strong>
+                          {expired && <span className="badge-expired">Expired</span>}
+                        </div>
+                        <div className="message-body">
+                          {expiresAt === 0 ? (
+                            <div>⏳ Never expires</div>
+                          ) : (
+                            <div>
+                              ⏳ {expired ? 'Expired' : 'Expires'}: {new Date(expiresAt * 1000).toLocaleString()}
+                              {!expired && <> (in <strong>{formatCountdown(expiresAt - now)}</strong>)</>}
+                            </div>
+                          )}
+                        </div>
+                        <div className="message-actions">
+                          <button
+                            onClick={() => handleShareExisting(delegate)}
+                            className="btn-secondary"
+                            disabled={loading || expired}
+                          >
+                            📂 Share Existing Messages
+                          </button>
+                          <button
+                            onClick={() => handleRemoveDelegate(delegate)}
+                            className="btn-danger"
+                            disabled={loading}
+                          >
+                            🗑️ Remove
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Groups Tab */}
+          {activeTab === 'groups' && (
+            <div className="card">
+              <div className="card-header">
+                <h2>🗣️ Group Channels</h2>
+                <button onClick={loadGroups} className="btn-secondary" disabled={loading || !groupsContract}>
+                  {loading ? '🔄' : '🔄 Refresh'}
+                </button>
+              </div>
+
+              {!groupsContract ? (
+                <p className="empty-message">
+                  Groups are not available: set <code>GROUPS_CONTRACT_ADDRESS</code> in src/contract-config.ts after
+                  deploying ConfidentialGroups
+                </p>
+              ) : (
+                <>
+                  <div className="form-group postage-setting">
+                    <label>New group</label>
+                    <input
+                      type="text"
+                      placeholder="Name"
+                      value={newGroupName}
+                      onChange={(e) => setNewGroupName(e.target.value)}
+                      className="input"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Members: 0x..., 0x... (optional)"
+                      value={newGroupMembers}
+                      onChange={(e) => setNewGroupMembers(e.target.value)}
+                      className="input"
+                    />
+                    <button onClick={handleCreateGroup} className="btn-primary" disabled={loading}>
+                      ➕ Create Group
+                    </button>
+                  </div>
+
+                  {groups.length === 0 ? (
+                    <p className="empty-message">You are not a member of any group yet</p>
+                  ) : (
+                    <div className="message-list">
+                      {groups.map((group) => (
+                        <div key={group.id} className="message-card">
+                          <div className="message-header">
+                            <strong>🗣️ {group.name}</strong>
+                            {group.admins.includes(account) && <span className="badge-read">Admin</span>}
+                          </div>
+                          <div className="message-body">
+                            <div>👤 Members: <strong>{group.members.length}</strong></div>
+                            <div>📨 Messages: <strong>{group.messageCount}</strong></div>
+                          </div>
+                          <div className="message-actions">
+                            <button
+                              onClick={() => loadGroupMessages(group.id)}
+                              className="btn-secondary"
+                              disabled={loading}
+                            >
+                              {selectedGroupId === group.id ? '🔄 Reload' : '📂 Open'}
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {groups
+                    .filter((group) => group.id === selectedGroupId)
+                    .map((group) => {
+                      const isAdmin = group.admins.includes(account);
+                      return (
+                        <div key={group.id}>
+                          <h3 style={{ marginTop: '20px' }}>🗣️ {group.name}</h3>
+
+                          <div className="form-group postage-setting">
+                            <label>📎 Post a file to all {group.members.length} members</label>
+                            <input
+                              type="file"
+                              onChange={(e) => setGroupFile(e.target.files?.[0] ?? null)}
+                              className="input"
+                            />
+                            <button onClick={handleSendToGroup} className="btn-primary" disabled={loading || !groupFile}>
+                              🚀 Send to Group
+                            </button>
+                          </div>
+
+                          {sendStatus && activeTab === 'groups' && (
+                            <div className="status-box" style={{ marginBottom: '20px' }}>
+                              <pre>{sendStatus}</pre>
+                            </div>
+                          )}
+
+                          <h3 style={{ marginTop: '20px' }}>👤 Members</h3>
+                          <div className="message-list">
+                            {group.members.map((member) => (
+                              <div key={member} className="message-card">
+                                <div className="message-header">
+                                  <strong><code>{member}</code></strong>
+                                  {group.admins.includes(member) && <span className="badge-read">Admin</span>}
+                                </div>
+                                {(isAdmin || member === account) && (
+                                  <div className="message-actions">
+                                    <button
+                                      onClick={() => handleRemoveGroupMember(member)}
+                                      className="btn-danger"
+                                      disabled={loading}
+                                    >
+                                      {member === account ? '🚪 Leave' : '🗑️ Remove'}
+                                    </button>
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+
+                          {isAdmin && (
+                            <div className="form-group postage-setting">
+                              <label>Add member</label>
+                              <input
+                                type="text"
+                                placeholder="0x..."
+                                value={groupMemberAddress}
+                                onChange={(e) => setGroupMemberAddress(e.target.value)}
+                                className="input"
+                              />
+                              <input
+                                type="number"
+                                min="0"
+                                placeholder="Share last N messages (empty = none)"
+                                value={groupHistoryCount}
+                                onChange={(e) => setGroupHistoryCount(e.target.value)}
+                                className="input"
+                              />
+                              <button onClick={handleAddGroupMember} className="btn-secondary" disabled={loading}>
+                                ➕ Add Member
+                              </button>
+                            </div>
+                          )}
+
+                          <h3 style={{ marginTop: '20px' }}>📨 Messages</h3>
+                          {groupMessages.length === 0 ? (
+                            <p className="empty-message">No messages in this group yet</p>
+                          ) : (
+                            <div className="message-list">
+                              {groupMessages.map((msg) => (
+                                <div key={msg.index} className={`message-card ${msg.readable ? '' : 'expired'}`}>
+                                  <div className="message-header">
+                                    <strong>📨 Message #{msg.index}</strong>
+                                    {!msg.readable && <span className="badge-locked">Before you joined</span>}
+                                  </div>
+                                  <div className="message-body">
+                                    <div>📦 IPFS CID: <code>{msg.contentCID}</code></div>
+                                    <div>⏰ Time: {new Date(msg.timestamp * 1000).toLocaleString()}</div>
+                                  </div>
+                                  <div className="message-actions">
+                                    <button
+                                      onClick={() => handleDecryptGroupMessage(msg.index)}
+                                      className="btn-primary"
+                                      disabled={loading || !msg.readable}
+                                    >
+                                      {loading ? '🔄 Decrypting...' : '🔓 Decrypt & Download'}
+                                    </button>
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Dead Man's Switch Tab */}
+          {activeTab === 'switch' && (
+            <div className="card">
+              <div className="card-header">
+                <h2>🪦 Dead Man's Switch</h2>
+                <button onClick={() => { loadSwitchStatus(); loadMessages(); }} className="btn-secondary" disabled={loading}>
+                  {loading ? '🔄' : '🔄 Refresh'}
+                </button>
+              </div>
+
+              <div className="info-box">
+                {switchStatus?.interval ? (
+                  <p>
+                    💓 Last heartbeat: <strong>{new Date(switchStatus.lastHeartbeat * 1000).toLocaleString()}</strong>
+                    <br />
+                    ⏰ Check in before: <strong>{new Date((switchStatus.lastHeartbeat + switchStatus.interval) * 1000).toLocaleString()}</strong>
+                    {' '}
+                    {now < switchStatus.lastHeartbeat + switchStatus.interval
+                      ? <>(in <strong>{formatCountdown(switchStatus.lastHeartbeat + switchStatus.interval - now)}</strong>)</>
+                      : <strong>(missed, pending messages can be released)</strong>}
+                  </p>
+                ) : (
+                  <p>
+                    🪦 Messages sent with the dead man's switch reach their recipients only if you stop checking in.
+                    Choose how long you may go without a heartbeat to get started.
+                  </p>
+                )}
+              </div>
+
+              <div className="form-group postage-setting">
+                <label>Heartbeat interval (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={switchIntervalDays}
+                  onChange={(e) => setSwitchIntervalDays(e.target.value)}
+                  className="input"
+                />
+                <button onClick={handleConfigureSwitch} className="btn-secondary" disabled={loading}>
+                  💾 {switchStatus?.interval ? 'Change Interval' : 'Start Switch'}
+                </button>
+                {switchStatus?.interval ? (
+                  <button onClick={handleHeartbeat} className="btn-primary" disabled={loading}>
+                    💓 Check In
+                  </button>
+                ) : null}
+              </div>
+
+              <h3 style={{ marginTop: '20px' }}>⏳ Pending Switch Messages</h3>
+              {!outboxSecret ? (
+                <div className="empty-message">
+                  <p>🔒 Pending messages are listed from your private outbox.</p>
+                  <button onClick={handleUnlockOutbox} className="btn-primary" disabled={loading} style={{ marginTop: '15px' }}>
+                    🔑 Unlock Outbox
+                  </button>
+                </div>
+              ) : sentMessages.filter(msg => msg.isLocked && msg.switchOwner === account).length === 0 ? (
+                <p className="empty-message">No pending switch messages</p>
+              ) : (
+                <div className="message-list">
+                  {sentMessages
+                    .filter(msg => msg.isLocked && msg.switchOwner === account)
+                    .map((msg) => (
+                    <div key={msg.id} className={`message-card ${now >= msg.releasableAt ? 'expired' : ''}`}>
+                      <div className="message-header">
+                        <strong>📨 Message #{msg.id}</strong>
+                        <span className="badge-locked">{now >= msg.releasableAt ? 'Releasable' : 'Held'}</span>
+                      </div>
+                      <div className="message-body">
+                        <div>👤 To: <code>{msg.recipient}</code></div>
+                        <div>⏰ Sent: {new Date(msg.timestamp * 1000).toLocaleString()}</div>
+                        <div>
+                          🪦 Released from: {new Date(msg.releasableAt * 1000).toLocaleString()}
+                          {now < msg.releasableAt && <> (in <strong>{formatCountdown(msg.releasableAt - now)}</strong>)</>}
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -1311,12 +2986,30 @@ function App() {
               <div className="info-grid">
                 <div className="info-item">
                   <span className="info-label">📬 Message ID</span>
-                  <span className="info-value">#{decryptedInfo.messageId}</span>
+                  <span className="info-value">
+                    {decryptedInfo.group !== undefined && `${decryptedInfo.group} `}#{decryptedInfo.messageId}
+                  </span>
                 </div>
                 
                 <div className="info-item">
                   <span className="info-label">👤 Sender</span>
-                  <span className="info-value mono">{decryptedInfo.sender.slice(0, 8)}...{decryptedInfo.sender.slice(-6)}</span>
+                  <span className="info-value mono">
+                    {decryptedInfo.sender === ethers.ZeroAddress
+                      ? 'Withheld (forwarded)'
+                      : `${decryptedInfo.sender.slice(0, 8)}...${decryptedInfo.sender.slice(-6)}`}
+                  </span>
+                  {decryptedInfo.sender !== ethers.ZeroAddress && (
+                    <span
+                      className={decryptedInfo.senderVerified ? 'badge-verified' : 'badge-unverified'}
+                      title={
+                        decryptedInfo.senderVerified
+                          ? 'The contract checked that this address submitted the message'
+                          : 'Sent through the anonymous relayer, or the sender claimed an address they do not control'
+                      }
+                    >
+                      {decryptedInfo.senderVerified ? '✅ Verified' : '⚠️ Unverified'}
+                    </span>
+                  )}
                 </div>
                 
                 <div className="info-item">
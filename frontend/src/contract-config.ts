@@ -1,359 +1,17 @@
+import { DEFAULT_IPFS_GATEWAY } from '../../sdk';
+
 /**
  * Contract Configuration
  * Update these values after deploying the contract
+ *
+ * ABIs ship with the SDK as JSON in sdk/abi, which `npm run compile` in the project root
+ * refreshes after the contracts change (see tasks/abi.ts).
  */
 
 export const CONTRACT_ADDRESS = '0x872936233Ebb4bb917059232E0338B3863dee37c';
 
-export const CONTRACT_ABI = [
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "messageId",
-        "type": "uint256"
-      },
-      {
-        "indexed": true,
-        "internalType": "address",
-        "name": "deleter",
-        "type": "address"
-      }
-    ],
-    "name": "MessageDeleted",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "messageId",
-        "type": "uint256"
-      },
-      {
-        "indexed": true,
-        "internalType": "address",
-        "name": "reader",
-        "type": "address"
-      }
-    ],
-    "name": "MessageRead",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "messageId",
-        "type": "uint256"
-      },
-      {
-        "indexed": true,
-        "internalType": "address",
-        "name": "recipient",
-        "type": "address"
-      },
-      {
-        "indexed": true,
-        "internalType": "address",
-        "name": "sender",
-        "type": "address"
-      },
-      {
-        "indexed": false,
-        "internalType": "string",
-        "name": "contentCID",
-        "type": "string"
-      },
-      {
-        "indexed": false,
-        "internalType": "uint256",
-        "name": "timestamp",
-        "type": "uint256"
-      }
-    ],
-    "name": "MessageSent",
-    "type": "event"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "_messageId",
-        "type": "uint256"
-      }
-    ],
-    "name": "deleteMessage",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "_messageId",
-        "type": "uint256"
-      }
-    ],
-    "name": "getMessage",
-    "outputs": [
-      {
-        "internalType": "eaddress",
-        "name": "encryptedSender",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "string",
-        "name": "contentCID",
-        "type": "string"
-      },
-      {
-        "internalType": "euint256",
-        "name": "encryptedKey",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "uint256",
-        "name": "timestamp",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "_messageId",
-        "type": "uint256"
-      }
-    ],
-    "name": "getMessageMetadata",
-    "outputs": [
-      {
-        "internalType": "address",
-        "name": "recipient",
-        "type": "address"
-      },
-      {
-        "internalType": "string",
-        "name": "contentCID",
-        "type": "string"
-      },
-      {
-        "internalType": "uint256",
-        "name": "timestamp",
-        "type": "uint256"
-      },
-      {
-        "internalType": "bool",
-        "name": "isDeleted",
-        "type": "bool"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "getMyReceivedMessages",
-    "outputs": [
-      {
-        "internalType": "uint256[]",
-        "name": "",
-        "type": "uint256[]"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "getMySentMessages",
-    "outputs": [
-      {
-        "internalType": "uint256[]",
-        "name": "",
-        "type": "uint256[]"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "_recipient",
-        "type": "address"
-      }
-    ],
-    "name": "getReceivedMessagesOf",
-    "outputs": [
-      {
-        "internalType": "uint256[]",
-        "name": "",
-        "type": "uint256[]"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "getTotalMessages",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "_messageId",
-        "type": "uint256"
-      }
-    ],
-    "name": "isRecipient",
-    "outputs": [
-      {
-        "internalType": "bool",
-        "name": "",
-        "type": "bool"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "messageCount",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "name": "messages",
-    "outputs": [
-      {
-        "internalType": "eaddress",
-        "name": "encryptedSender",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "address",
-        "name": "recipient",
-        "type": "address"
-      },
-      {
-        "internalType": "string",
-        "name": "contentCID",
-        "type": "string"
-      },
-      {
-        "internalType": "euint256",
-        "name": "encryptedKey",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "uint256",
-        "name": "timestamp",
-        "type": "uint256"
-      },
-      {
-        "internalType": "bool",
-        "name": "isDeleted",
-        "type": "bool"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "protocolId",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "pure",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "_recipient",
-        "type": "address"
-      },
-      {
-        "internalType": "string",
-        "name": "_contentCID",
-        "type": "string"
-      },
-      {
-        "internalType": "externalEaddress",
-        "name": "_encryptedSender",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "bytes",
-        "name": "_senderProof",
-        "type": "bytes"
-      },
-      {
-        "internalType": "externalEuint256",
-        "name": "_encryptedKey",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "bytes",
-        "name": "_keyProof",
-        "type": "bytes"
-      }
-    ],
-    "name": "sendMessage",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "messageId",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-] as const;
+// ConfidentialGroups companion contract (group channels) - update after deploying it
+export const GROUPS_CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000000';
 
 // Network Configuration - Sepolia Testnet
 export const NETWORK_CONFIG = {
@@ -376,6 +34,11 @@ export const FHEVM_CONFIG = {
 export const IPFS_CONFIG = {
   pinataApiKey: import.meta.env.VITE_PINATA_API_KEY || '',
   pinataSecretKey: import.meta.env.VITE_PINATA_SECRET_KEY || '',
-  pinataGateway: import.meta.env.VITE_PINATA_GATEWAY || 'https://gateway.pinata.cloud/ipfs/',
+  // Trustless gateway that downloads are fetched and verified through
+  gateway: import.meta.env.VITE_IPFS_GATEWAY || DEFAULT_IPFS_GATEWAY,
 };
 
+// Anonymous relayer - run `npx hardhat confidential-transmission:relayer` locally
+export const RELAYER_CONFIG = {
+  url: import.meta.env.VITE_RELAYER_URL || 'http://127.0.0.1:8787',
+};
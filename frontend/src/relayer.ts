@@ -0,0 +1,45 @@
+import { RELAYER_CONFIG } from "./contract-config";
+
+/**
+ * Client for the local anonymous relayer (tasks/Relayer.ts)
+ *
+ * Sends come from a fresh one-time account whose signed transaction the relayer
+ * funds and broadcasts (`/sponsor`); recalls and signed opens go through its
+ * forwarder (`/relay`).
+ */
+
+export interface RelayerInfo {
+  forwarder: string;
+  target: string;
+  relayer: string;
+  chainId: string;
+}
+
+export const getRelayerInfo = async (): Promise<RelayerInfo> => {
+  const response = await fetch(`${RELAYER_CONFIG.url}/info`);
+  if (!response.ok) {
+    throw new Error(`Relayer unavailable: ${response.status}`);
+  }
+  return response.json();
+};
+
+const postToRelayer = async (
+  endpoint: "relay" | "sponsor",
+  body: Record<string, string>,
+): Promise<{ txHash: string; messageIds: string[] }> => {
+  const response = await fetch(`${RELAYER_CONFIG.url}/${endpoint}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(`Relayer rejected the message: ${result.error}`);
+  }
+  return result;
+};
+
+export const relayTransaction = (data: string) => postToRelayer("relay", { data });
+
+export const sponsorTransaction = (signedTransaction: string) => postToRelayer("sponsor", { signedTransaction });
@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_PINATA_API_KEY?: string;
   readonly VITE_PINATA_SECRET_KEY?: string;
+  readonly VITE_IPFS_GATEWAY?: string;
+  readonly VITE_RELAYER_URL?: string;
   // Add more env variables here as needed
 }
 
@@ -4,9 +4,17 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // The shared SDK in ../sdk must use this package's ethers
+    dedupe: ['ethers'],
+  },
   server: {
     port: 5173,
     open: true,
+    fs: {
+      // Serve the shared SDK and TypeChain types from the project root
+      allow: ['..'],
+    },
   },
   build: {
     outDir: 'dist',
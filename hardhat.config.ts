@@ -9,9 +9,11 @@ import type { HardhatUserConfig } from "hardhat/config";
 import { vars } from "hardhat/config";
 import "solidity-coverage";
 
+import "./tasks/abi";
 import "./tasks/accounts";
-import "./tasks/FHECounter";
+import "./tasks/ConfidentialGroups";
 import "./tasks/ConfidentialTransmission";
+import "./tasks/Relayer";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -94,6 +96,8 @@ const config: HardhatUserConfig = {
         runs: 800,
       },
       evmVersion: "cancun",
+      // Multi-recipient sends take more stack slots than the legacy pipeline can address
+      viaIR: true,
     },
   },
   typechain: {
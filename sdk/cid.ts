@@ -0,0 +1,117 @@
+import { ethers as ethersLib } from "ethers";
+
+/**
+ * CID helpers
+ * ===========
+ *
+ * The contract stores only the 32-byte sha2-256 digest of a message's IPFS CID. Every CID that
+ * IPFS (and Pinata) produces for a pinned JSON envelope is a dag-pb / sha2-256 CID, so the digest
+ * is enough to rebuild it:
+ *
+ *   CIDv0 = base58btc(0x12 0x20 || digest)                     "Qm..."
+ *   CIDv1 = "b" + base32(0x01 0x70 0x12 0x20 || digest)        "bafy..."
+ *
+ * Other codecs and hash functions (e.g. raw "bafk..." CIDs) cannot be stored.
+ *
+ * A message can also keep its CID out of public metadata and events by storing the digest
+ * FHE encrypted instead, as a single euint256 in the same input as the AES key. The recipient
+ * user-decrypts it together with the key and rebuilds the CID.
+ */
+
+/** Number of euint256 chunks holding a hidden CID (must match `CID_CHUNKS` in the contract) */
+export const CID_CHUNKS = 1;
+
+/** Multihash prefix of a sha2-256 digest: hash function code, digest length */
+const SHA2_256_PREFIX = "0x1220";
+
+/** CIDv1 prefix of a dag-pb CID: version, codec */
+const CIDV1_DAG_PB_PREFIX = "0x0170";
+
+/** RFC 4648 base32 alphabet, lower case as used by multibase "b" */
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function decodeBase32(text: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text.toLowerCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Extract the sha2-256 digest stored on-chain from a CIDv0 ("Qm...") or dag-pb CIDv1 ("bafy...")
+ * @returns The digest as a 0x-prefixed 32-byte hex string
+ */
+export function cidToDigest(cid: string): string {
+  let multihash: string;
+  if (cid.startsWith("Qm")) {
+    multihash = ethersLib.toBeHex(ethersLib.decodeBase58(cid), 34);
+  } else if (cid.startsWith("b")) {
+    const bytes = ethersLib.hexlify(decodeBase32(cid.slice(1)));
+    if (ethersLib.dataSlice(bytes, 0, 2) !== CIDV1_DAG_PB_PREFIX) {
+      throw new Error(`Unsupported CID: ${cid} (only dag-pb CIDv1 can be stored)`);
+    }
+    multihash = ethersLib.dataSlice(bytes, 2);
+  } else {
+    throw new Error(`Unsupported CID: ${cid} (expected CIDv0 Qm... or base32 CIDv1 b...)`);
+  }
+
+  if (ethersLib.dataLength(multihash) !== 34 || ethersLib.dataSlice(multihash, 0, 2) !== SHA2_256_PREFIX) {
+    throw new Error(`Unsupported CID: ${cid} (only sha2-256 CIDs can be stored)`);
+  }
+  return ethersLib.dataSlice(multihash, 2);
+}
+
+/** Rebuild the CIDv0 ("Qm...") of a stored digest */
+export function digestToCIDv0(digest: string): string {
+  return ethersLib.encodeBase58(ethersLib.concat([SHA2_256_PREFIX, digest]));
+}
+
+/** Rebuild the base32 CIDv1 ("bafy...") of a stored digest */
+export function digestToCIDv1(digest: string): string {
+  return `b${encodeBase32(ethersLib.getBytes(ethersLib.concat([CIDV1_DAG_PB_PREFIX, SHA2_256_PREFIX, digest])))}`;
+}
+
+/** Public CID of a message as CIDv0, or "" when the CID is hidden (zero digest) */
+export function contentCIDOf(digest: string): string {
+  return digest === ethersLib.ZeroHash ? "" : digestToCIDv0(digest);
+}
+
+/** Split a CID into the chunk values to encrypt with `add256` */
+export function encodeCIDChunks(cid: string): bigint[] {
+  return [ethersLib.toBigInt(cidToDigest(cid))];
+}
+
+/** Rebuild a CID from its decrypted chunk values */
+export function decodeCIDChunks(chunks: bigint[]): string {
+  return digestToCIDv0(ethersLib.toBeHex(chunks[0], 32));
+}
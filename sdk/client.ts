@@ -0,0 +1,742 @@
+import { ethers as ethersLib } from "ethers";
+import type { Signer, TransactionReceipt } from "ethers";
+
+import type { ConfidentialTransmission, ConfidentialTransmissionViews } from "../types";
+import { cidToDigest, contentCIDOf, decodeCIDChunks, encodeCIDChunks } from "./cid";
+import { connectConfidentialTransmission, connectConfidentialTransmissionViews } from "./contracts";
+import { decryptEnvelope, encryptEnvelope, parseEnvelope } from "./envelope";
+import type { EncryptedEnvelope, EnvelopeFile } from "./envelope";
+import { decryptedAddress, decryptedBool, decryptedUint, userDecrypt } from "./fhe";
+import type { FheInstance } from "./fhe";
+import {
+  deriveOutboxSecret,
+  loadOutbox,
+  loadOutboxMetadata,
+  loadOutboxSlots,
+  outboxReceiptReader,
+  outboxRecallKey,
+  outboxTag,
+} from "./outbox";
+import { gatewayStorage } from "./storage";
+import type { StorageBackend } from "./storage";
+
+/** Public metadata of a message, as returned by the paged views */
+export type MessageMetadata = ConfidentialTransmissionViews.MessageMetadataStructOutput;
+
+/** Which messages the paged views return */
+export type MessageFilter = ConfidentialTransmissionViews.MessageFilterStruct;
+
+/** Messages that are not deleted, from any time */
+export const VISIBLE_MESSAGES: MessageFilter = { includeDeleted: false, since: 0, until: 0 };
+
+/** Number of messages requested per `getReceivedMessagesPage` call */
+const INBOX_PAGE_SIZE = 100;
+
+/** Which part of a filtered mailbox `listPage` and `listSentPage` return */
+export interface PageOptions {
+  /** Matching messages to skip (default: 0) */
+  offset?: number;
+  /** Most messages to return (default: all) */
+  limit?: number;
+  /** Oldest (default) or newest first */
+  order?: "oldest" | "newest";
+}
+
+/** Bits available in one encrypted input; the batch sender (160 bits) and each key (256 bits) share them */
+const ENCRYPTED_INPUT_BITS = 2048;
+
+/** Most messages `sendBatch` puts in one transaction: their keys share one encrypted input with the sender */
+export const MAX_BATCH_SIZE = Math.floor((ENCRYPTED_INPUT_BITS - 160) / 256);
+
+/** Everything the client is built from */
+export interface ClientOptions {
+  /** Signs transactions, user-decryption requests and the outbox secret */
+  signer: Signer;
+  /**
+   * FHEVM instance: the relayer SDK's in the browser, `hre.fhevm` in Hardhat. Without one the client
+   * can still list messages and send transactions that carry no encrypted input.
+   */
+  fhevm?: FheInstance;
+  /** Where envelopes are uploaded and downloaded (default: download only, through ipfs.io) */
+  storage?: StorageBackend;
+}
+
+/** A one-time stealth address to send to (see `generateStealthAddress`) */
+export interface StealthTarget {
+  stealthAddress: string;
+  ephemeralPubKey: string;
+  /** First byte of the shared secret's hash, as a 1-byte hex string */
+  viewTag: string;
+}
+
+/**
+ * Hash a reader signs as a personal message so that `openMessageFor` opens a message on their behalf.
+ * Bound to the contract, chain and message, so the signature opens nothing else.
+ */
+export function openRequestHash(contractAddress: string, chainId: bigint, messageId: bigint): string {
+  return ethersLib.keccak256(
+    ethersLib.AbiCoder.defaultAbiCoder().encode(
+      ["address", "uint256", "uint256"],
+      [contractAddress, chainId, messageId],
+    ),
+  );
+}
+
+/** Submits call data through an anonymous relayer and reports the created message IDs */
+export type RelayFunction = (data: string) => Promise<{ txHash: string; messageIds: string[] }>;
+
+/**
+ * Has a relayer fund the gas of a one-time account's signed transaction and broadcast it,
+ * reporting the created message IDs
+ */
+export type SponsorFunction = (signedTransaction: string) => Promise<{ txHash: string; messageIds: string[] }>;
+
+/** A message to send; the content is already encrypted and stored under `cid` with the AES `key` */
+export interface SendOptions {
+  recipients: string[];
+  cid: string;
+  /** AES key as a 0x-prefixed 32-byte hex string */
+  key: string;
+  /** Store the CID FHE encrypted instead of its public digest */
+  hideCid?: boolean;
+  /** Seconds until the message expires (0 = never) */
+  ttl?: number;
+  /** Unix time before which the key stays sealed (0 = not locked) */
+  unlockAt?: number;
+  /** Whose heartbeats hold the key back (zero address = no dead man's switch) */
+  switchOwner?: string;
+  /** Approvers that must sign off before the key is released */
+  approval?: { approvers: string[]; threshold: number };
+  /** Send to a one-time stealth address instead (single recipient only) */
+  stealth?: StealthTarget;
+  /** Send from a fresh one-time account whose gas a relayer sponsors, so the sender never appears on-chain */
+  sponsor?: SponsorFunction;
+}
+
+/** One message of a batch; each has its own content, key and recipient */
+export interface BatchMessage {
+  recipient: string;
+  cid: string;
+  /** AES key as a 0x-prefixed 32-byte hex string */
+  key: string;
+}
+
+/** How a batch is sent; messages share the expiry and time lock */
+export interface BatchOptions {
+  /** Seconds until the messages expire (0 = never) */
+  ttl?: number;
+  /** Unix time before which the keys stay sealed (0 = not locked) */
+  unlockAt?: number;
+  /** Messages per transaction, at most MAX_BATCH_SIZE (default: MAX_BATCH_SIZE) */
+  chunkSize?: number;
+  /** Gas budget per transaction; larger chunks are halved until they fit (default: half the block gas limit) */
+  maxGas?: bigint;
+}
+
+/** Outcome of a transaction that created messages */
+export interface SendResult {
+  txHash: string;
+  messageIds: bigint[];
+  /** Postage escrowed with the send, in wei */
+  postage: bigint;
+}
+
+/** A message after its FHE fields were decrypted */
+export interface OpenedMessage {
+  id: bigint;
+  timestamp: bigint;
+  /** Decrypted sender (the zero address when a forward withheld it) */
+  sender: string;
+  /** Whether the encrypted sender is the address that submitted the message */
+  senderVerified: boolean;
+  /** AES key as a 0x-prefixed 32-byte hex string */
+  key: string;
+  /** Content CID (recovered from its encrypted chunks when hidden) */
+  cid: string;
+  contentDigest: string;
+  isCIDHidden: boolean;
+}
+
+/** A received file, downloaded, verified and decrypted */
+export interface ReceivedFile {
+  message: OpenedMessage;
+  envelope: EncryptedEnvelope;
+  content: Uint8Array;
+}
+
+/** Read receipt status of a sent message, as seen by its sender */
+export type ReadStatus = "none" | "delivered" | "read";
+
+/**
+ * Typed client for the ConfidentialTransmission contract
+ *
+ * Wraps the contract (built from the ABIs in sdk/abi) with the envelope, FHE input, outbox and
+ * decryption logic shared by the CLI tasks and the React app. Features without a method here are
+ * reached through `client.contract`, and the paged views through `client.getViews()`.
+ */
+export class ConfidentialTransmissionClient {
+  readonly address: string;
+  readonly contract: ConfidentialTransmission;
+  readonly storage: StorageBackend;
+  private readonly signer: Signer;
+  private readonly fhevmInstance?: FheInstance;
+  private outboxSecret?: string;
+  private viewsContract?: ConfidentialTransmissionViews;
+
+  constructor(address: string, options: ClientOptions) {
+    this.address = address;
+    this.signer = options.signer;
+    this.fhevmInstance = options.fhevm;
+    this.storage = options.storage ?? gatewayStorage();
+    this.contract = connectConfidentialTransmission(address, options.signer);
+  }
+
+  /** The FHEVM instance, for methods that encrypt or decrypt */
+  private get fhevm(): FheInstance {
+    if (!this.fhevmInstance) {
+      throw new Error("No FHEVM instance configured");
+    }
+    return this.fhevmInstance;
+  }
+
+  /** The companion contract serving the paged views, looked up once from `contract.views()` */
+  async getViews(): Promise<ConfidentialTransmissionViews> {
+    if (!this.viewsContract) {
+      this.viewsContract = connectConfidentialTransmissionViews(await this.contract.views(), this.signer);
+    }
+    return this.viewsContract;
+  }
+
+  /** Derive the private outbox secret once (wallets prompt for the signature) */
+  async getOutboxSecret(): Promise<string> {
+    if (!this.outboxSecret) {
+      const network = await this.signer.provider?.getNetwork();
+      if (!network) {
+        throw new Error("The signer has no provider");
+      }
+      this.outboxSecret = await deriveOutboxSecret(this.signer, this.address, network.chainId);
+    }
+    return this.outboxSecret;
+  }
+
+  /** Total postage the recipients require, in wei */
+  async postageFor(recipients: string[]): Promise<bigint> {
+    let total = 0n;
+    for (const recipient of recipients) {
+      total += await this.contract.postageOf(recipient);
+    }
+    return total;
+  }
+
+  /**
+   * Encrypt content into an envelope and store it
+   * @returns The CID to send, the AES key and the envelope
+   */
+  async upload(
+    content: Uint8Array,
+    file: EnvelopeFile,
+  ): Promise<{ cid: string; key: string; envelope: EncryptedEnvelope }> {
+    const { envelope, key } = await encryptEnvelope(content, file);
+    const cid = await this.storage.upload(envelope);
+    return { cid, key, envelope };
+  }
+
+  /**
+   * FHE-encrypt an AES key, with a hidden CID's chunks in the same input
+   * @param inputOwner The account that submits the input to the contract
+   */
+  async encryptKey(
+    key: string,
+    hiddenCID: string | undefined,
+    inputOwner: string,
+  ): Promise<{ keyHandle: string; cidHandles: string[]; inputProof: Uint8Array }> {
+    const input = this.fhevm.createEncryptedInput(this.address, inputOwner).add256(BigInt(key));
+    for (const chunk of hiddenCID ? encodeCIDChunks(hiddenCID) : []) {
+      input.add256(chunk);
+    }
+    const { handles, inputProof } = await input.encrypt();
+    return {
+      keyHandle: ethersLib.hexlify(handles[0]),
+      cidHandles: handles.slice(1).map((handle) => ethersLib.hexlify(handle)),
+      inputProof,
+    };
+  }
+
+  /**
+   * Send a message to one recipient, several recipients sharing one payload, or a stealth address.
+   * Every message takes the next slot in the sender's private outbox.
+   */
+  async send(options: SendOptions): Promise<SendResult> {
+    const { recipients, stealth } = options;
+    if (recipients.length === 0) {
+      throw new Error("No recipients");
+    }
+    if (stealth && recipients.length > 1) {
+      throw new Error("Stealth sends go to a single recipient");
+    }
+
+    // Stealth addresses charge no postage; relayers only sponsor gas
+    const postage = stealth ? 0n : await this.postageFor(recipients);
+    if (postage > 0n && options.sponsor) {
+      throw new Error("Sponsored sends cannot attach postage; send directly or choose recipients without postage");
+    }
+
+    // Inputs are bound to the submitting account, so a one-time account's inputs cannot be replayed by anyone else
+    const senderAddress = await this.signer.getAddress();
+    const oneTimeAccount = options.sponsor ? ethersLib.Wallet.createRandom() : undefined;
+    const inputOwner = oneTimeAccount?.address ?? senderAddress;
+
+    const secret = await this.getOutboxSecret();
+    const { nextIndex } = await loadOutbox(this.contract, secret);
+
+    const sender = await this.fhevm.createEncryptedInput(this.address, inputOwner).addAddress(senderAddress).encrypt();
+    const key = await this.encryptKey(options.key, options.hideCid ? options.cid : undefined, inputOwner);
+
+    const encryptedArgs = [
+      ethersLib.hexlify(sender.handles[0]),
+      sender.inputProof,
+      key.keyHandle,
+      key.inputProof,
+      key.cidHandles,
+    ] as const;
+    const contentDigest = options.hideCid ? ethersLib.ZeroHash : cidToDigest(options.cid);
+    const tags = recipients.map((_, i) => outboxTag(secret, nextIndex + i));
+    const readers = recipients.map((_, i) => outboxReceiptReader(secret, nextIndex + i).address);
+    const ttl = options.ttl ?? 0;
+    const unlockAt = options.unlockAt ?? 0;
+    const switchOwner = options.switchOwner ?? ethersLib.ZeroAddress;
+    const approval = options.approval ?? { approvers: [], threshold: 0 };
+
+    let data: string;
+    if (stealth) {
+      data = this.contract.interface.encodeFunctionData("sendStealthMessage", [
+        stealth.stealthAddress,
+        stealth.ephemeralPubKey,
+        stealth.viewTag,
+        contentDigest,
+        ...encryptedArgs,
+        tags[0],
+        ttl,
+        unlockAt,
+        switchOwner,
+        approval,
+        readers[0],
+      ]);
+    } else if (recipients.length === 1) {
+      data = this.contract.interface.encodeFunctionData("sendMessage", [
+        recipients[0],
+        contentDigest,
+        ...encryptedArgs,
+        tags[0],
+        ttl,
+        unlockAt,
+        switchOwner,
+        approval,
+        readers[0],
+      ]);
+    } else {
+      data = this.contract.interface.encodeFunctionData("sendMessageToMany", [
+        recipients,
+        contentDigest,
+        ...encryptedArgs,
+        tags,
+        ttl,
+        unlockAt,
+        switchOwner,
+        approval,
+        readers,
+      ]);
+    }
+
+    if (oneTimeAccount && options.sponsor) {
+      const sponsored = await options.sponsor(await this.signOneTimeCall(oneTimeAccount, data));
+      return { txHash: sponsored.txHash, messageIds: sponsored.messageIds.map((id) => BigInt(id)), postage };
+    }
+
+    const tx = await this.signer.sendTransaction({ to: this.address, data, value: postage });
+    const receipt = await tx.wait();
+    return { txHash: tx.hash, messageIds: this.eventArgs(receipt, "MessageSent", "messageId"), postage };
+  }
+
+  /**
+   * Send many messages with as few transactions as possible. Each chunk encrypts the sender and all
+   * of its keys in one input; every message takes the next slot in the sender's private outbox.
+   * @returns One result per transaction, in sending order
+   */
+  async sendBatch(messages: BatchMessage[], options: BatchOptions = {}): Promise<SendResult[]> {
+    const chunkSize = options.chunkSize ?? MAX_BATCH_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_BATCH_SIZE) {
+      throw new Error(`Chunk size must be between 1 and ${MAX_BATCH_SIZE}`);
+    }
+
+    const senderAddress = await this.signer.getAddress();
+    const secret = await this.getOutboxSecret();
+    let { nextIndex } = await loadOutbox(this.contract, secret);
+
+    const postages: bigint[] = [];
+    for (const message of messages) {
+      postages.push(await this.contract.postageOf(message.recipient));
+    }
+
+    let maxGas = options.maxGas;
+    if (maxGas === undefined) {
+      const block = await this.signer.provider?.getBlock("latest");
+      maxGas = (block?.gasLimit ?? 30_000_000n) / 2n;
+    }
+    const ttl = options.ttl ?? 0;
+    const unlockAt = options.unlockAt ?? 0;
+    const noApproval = { approvers: [], threshold: 0 };
+
+    const buildChunk = async (first: number, count: number, firstIndex: number) => {
+      const items = messages.slice(first, first + count);
+      const input = this.fhevm.createEncryptedInput(this.address, senderAddress).addAddress(senderAddress);
+      for (const item of items) {
+        input.add256(BigInt(item.key));
+      }
+      const { handles, inputProof } = await input.encrypt();
+
+      const data = this.contract.interface.encodeFunctionData("sendBatch", [
+        items.map((item) => item.recipient),
+        items.map((item) => cidToDigest(item.cid)),
+        ethersLib.hexlify(handles[0]),
+        handles.slice(1).map((handle) => ethersLib.hexlify(handle)),
+        inputProof,
+        items.map((_, i) => outboxTag(secret, firstIndex + i)),
+        ttl,
+        unlockAt,
+        ethersLib.ZeroAddress,
+        noApproval,
+        items.map((_, i) => outboxReceiptReader(secret, firstIndex + i).address),
+      ]);
+      const value = postages.slice(first, first + count).reduce((total, postage) => total + postage, 0n);
+      const gas = await this.signer.estimateGas({ to: this.address, data, value });
+      return { data, value, gas };
+    };
+
+    const submitChunk = async (first: number, count: number): Promise<SendResult[]> => {
+      const { data, value, gas } = await buildChunk(first, count, nextIndex);
+      if (gas > maxGas && count > 1) {
+        const half = Math.ceil(count / 2);
+        return [...(await submitChunk(first, half)), ...(await submitChunk(first + half, count - half))];
+      }
+
+      const tx = await this.signer.sendTransaction({ to: this.address, data, value });
+      const receipt = await tx.wait();
+      nextIndex += count;
+      return [{ txHash: tx.hash, messageIds: this.eventArgs(receipt, "MessageSent", "messageId"), postage: value }];
+    };
+
+    const results: SendResult[] = [];
+    for (let start = 0; start < messages.length; start += chunkSize) {
+      results.push(...(await submitChunk(start, Math.min(chunkSize, messages.length - start))));
+    }
+    return results;
+  }
+
+  /** Reply to a received message; the contract routes it to the original sender's reader address */
+  async reply(
+    messageId: bigint,
+    content: { cid: string; key: string; hideCid?: boolean },
+  ): Promise<{ txHash: string; replyId: bigint; postage: bigint }> {
+    const { receiptReader } = await this.contract.messages(messageId);
+    const postage = receiptReader === ethersLib.ZeroAddress ? 0n : await this.contract.postageOf(receiptReader);
+
+    const key = await this.encryptKey(
+      content.key,
+      content.hideCid ? content.cid : undefined,
+      await this.signer.getAddress(),
+    );
+    const tx = await this.contract.replyToMessage(
+      messageId,
+      content.hideCid ? ethersLib.ZeroHash : cidToDigest(content.cid),
+      key.keyHandle,
+      key.inputProof,
+      key.cidHandles,
+      { value: postage },
+    );
+    const receipt = await tx.wait();
+    return { txHash: tx.hash, replyId: this.eventArgs(receipt, "MessageReplied", "replyId")[0], postage };
+  }
+
+  /** Forward a received message; the CID and FHE key are reused, nothing is re-encrypted */
+  async forward(
+    messageId: bigint,
+    to: string,
+    withholdSender: boolean,
+  ): Promise<{ txHash: string; messageId: bigint; postage: bigint }> {
+    const postage = await this.contract.postageOf(to);
+    const tx = await this.contract.forwardMessage(messageId, to, withholdSender, { value: postage });
+    const receipt = await tx.wait();
+    return { txHash: tx.hash, messageId: this.eventArgs(receipt, "MessageForwarded", "newMessageId")[0], postage };
+  }
+
+  /** Recall an unopened message from the signer's outbox by revealing its recall key (not once it carries postage) */
+  async recall(messageId: bigint, relay?: RelayFunction): Promise<{ txHash: string }> {
+    const secret = await this.getOutboxSecret();
+    const { messageIds } = await loadOutbox(this.contract, secret);
+    const outboxIndex = messageIds.findIndex((id) => id === messageId);
+    if (outboxIndex < 0) {
+      throw new Error(`Message #${messageId} is not in your outbox`);
+    }
+    if ((await this.contract.messages(messageId)).postage > 0n) {
+      throw new Error(`Message #${messageId} carries postage and cannot be recalled`);
+    }
+
+    const data = this.contract.interface.encodeFunctionData("recallMessage", [
+      messageId,
+      outboxRecallKey(secret, outboxIndex),
+    ]);
+    if (relay) {
+      return { txHash: (await relay(data)).txHash };
+    }
+    const tx = await this.signer.sendTransaction({ to: this.address, data });
+    await tx.wait();
+    return { txHash: tx.hash };
+  }
+
+  /** Soft-delete a received message */
+  async delete(messageId: bigint): Promise<{ txHash: string }> {
+    const tx = await this.contract.deleteMessage(messageId);
+    await tx.wait();
+    return { txHash: tx.hash };
+  }
+
+  /** Send an encrypted read receipt (and refund any postage) */
+  async acknowledge(messageId: bigint): Promise<{ txHash: string }> {
+    const tx = await this.contract.acknowledgeMessage(messageId);
+    await tx.wait();
+    return { txHash: tx.hash };
+  }
+
+  /**
+   * List an inbox with full metadata, one `getReceivedMessagesPage` call per page
+   * @param owner The inbox to list (default: the signer's)
+   */
+  async list(filter: MessageFilter = VISIBLE_MESSAGES, owner?: string): Promise<MessageMetadata[]> {
+    const recipient = owner ?? (await this.signer.getAddress());
+    const views = await this.getViews();
+    const messages: MessageMetadata[] = [];
+    let offset = 0n;
+    let total: bigint;
+    do {
+      const [page, nextOffset, inboxSize] = await views.getReceivedMessagesPage(
+        recipient,
+        filter,
+        offset,
+        INBOX_PAGE_SIZE,
+      );
+      messages.push(...page);
+      offset = nextOffset;
+      total = inboxSize;
+    } while (offset < total);
+    return messages;
+  }
+
+  /**
+   * List one page of an inbox. The views filter on-chain, and calls stop once the page is full.
+   * @param owner The inbox to list (default: the signer's)
+   * @returns The page's messages and the number of messages in the inbox before filtering
+   */
+  async listPage(
+    filter: MessageFilter = VISIBLE_MESSAGES,
+    page: PageOptions = {},
+    owner?: string,
+  ): Promise<{ messages: MessageMetadata[]; total: number }> {
+    const recipient = owner ?? (await this.signer.getAddress());
+    const views = await this.getViews();
+    const offset = page.offset ?? 0;
+    const wanted = page.limit !== undefined ? offset + page.limit : Infinity;
+    const matches: MessageMetadata[] = [];
+
+    if (page.order !== "newest") {
+      let position = 0n;
+      let inboxSize: bigint;
+      do {
+        const [messages, nextOffset, total] = await views.getReceivedMessagesPage(
+          recipient,
+          filter,
+          position,
+          INBOX_PAGE_SIZE,
+        );
+        matches.push(...messages);
+        position = nextOffset;
+        inboxSize = total;
+      } while (matches.length < wanted && position < inboxSize);
+      return { messages: matches.slice(offset, wanted), total: Number(inboxSize) };
+    }
+
+    // Walk back one window of the inbox at a time. The view scans forward, so it can also return
+    // matches past the window; inbox IDs only grow, so those are the ones above the window's last ID.
+    const [, inboxSize] = await this.contract.getReceivedMessageIds(recipient, 0, 0);
+    for (let end = Number(inboxSize); end > 0 && matches.length < wanted; end -= INBOX_PAGE_SIZE) {
+      const start = Math.max(0, end - INBOX_PAGE_SIZE);
+      const [windowIds] = await this.contract.getReceivedMessageIds(recipient, start, end - start);
+      const lastId = windowIds[windowIds.length - 1];
+      const [messages] = await views.getReceivedMessagesPage(recipient, filter, start, end - start);
+      matches.push(...[...messages].filter((metadata) => metadata.id <= lastId).reverse());
+    }
+    return { messages: matches.slice(offset, wanted), total: Number(inboxSize) };
+  }
+
+  /**
+   * List the signer's private outbox
+   * @returns The sent messages with their outbox index, in sending order
+   */
+  async listSent(filter: MessageFilter = VISIBLE_MESSAGES): Promise<{ index: number; metadata: MessageMetadata }[]> {
+    return loadOutboxMetadata(await this.getViews(), await this.getOutboxSecret(), filter);
+  }
+
+  /**
+   * List one page of the signer's private outbox, resolving only the tags the page needs
+   * @returns The page's messages with their outbox index, and the number of sent messages before filtering
+   */
+  async listSentPage(
+    filter: MessageFilter = VISIBLE_MESSAGES,
+    page: PageOptions = {},
+  ): Promise<{ entries: { index: number; metadata: MessageMetadata }[]; total: number }> {
+    const secret = await this.getOutboxSecret();
+    const { nextIndex: total } = await loadOutbox(this.contract, secret);
+    const offset = page.offset ?? 0;
+    const wanted = page.limit !== undefined ? offset + page.limit : Infinity;
+
+    const indices = Array.from({ length: total }, (_, index) => index);
+    if (page.order === "newest") {
+      indices.reverse();
+    }
+    const entries = await loadOutboxSlots(await this.getViews(), secret, filter, indices, wanted);
+    return { entries: entries.slice(offset, wanted), total };
+  }
+
+  /** Decrypt the read receipt of a sent message with the reader wallet of its outbox slot */
+  async readStatus(messageId: bigint, outboxIndex: number): Promise<ReadStatus> {
+    const handle = await this.contract.getReadReceipt(messageId);
+    if (handle === ethersLib.ZeroHash) {
+      return "none";
+    }
+    const reader = outboxReceiptReader(await this.getOutboxSecret(), outboxIndex);
+    const values = await userDecrypt(this.fhevm, [handle], this.address, reader);
+    return decryptedBool(values, handle) ? "read" : "delivered";
+  }
+
+  /**
+   * Find the received messages the signer has not acknowledged yet, with one user-decryption request.
+   * Decrypts each message's read flag, so no `MessageRead` log query is needed.
+   * @param messageIds Messages addressed to the signer
+   * @returns The unacknowledged IDs, in input order
+   */
+  async unacknowledged(messageIds: bigint[]): Promise<bigint[]> {
+    const handles = await Promise.all(messageIds.map((messageId) => this.contract.getReadReceipt(messageId)));
+    const values = await userDecrypt(this.fhevm, handles, this.address, this.signer);
+    // A zero handle is a message without receipts that was never acknowledged
+    return messageIds.filter((_, i) => handles[i] === ethersLib.ZeroHash || !decryptedBool(values, handles[i]));
+  }
+
+  /**
+   * Decrypt a message's sender, key and hidden CID with one user-decryption request, first opening
+   * the message on-chain if nobody has yet (the contract only grants the key then)
+   * @param reader The account holding the decryption rights (default: the signer); outbox reader
+   *   and stealth wallets need no provider
+   * @param relay Submits the signed open request of a reader other than the signer; without it the
+   *   signer submits it, which links the signer to the reader on-chain
+   */
+  async open(messageId: bigint, reader: Signer = this.signer, relay?: RelayFunction): Promise<OpenedMessage> {
+    if (!(await this.contract.messages(messageId)).isOpened) {
+      await this.openOnChain(messageId, reader, relay);
+    }
+    const readerContract = this.contract.connect(reader.provider ? reader : reader.connect(this.signer.provider));
+    const message = await readerContract.getMessage(messageId);
+    const cidHandles = [...message.encryptedCID];
+
+    const values = await userDecrypt(
+      this.fhevm,
+      [message.encryptedSender, message.senderVerified, message.encryptedKey, ...cidHandles],
+      this.address,
+      reader,
+    );
+
+    const isCIDHidden = cidHandles.length > 0;
+    const cid = isCIDHidden
+      ? decodeCIDChunks(cidHandles.map((handle) => decryptedUint(values, handle)))
+      : contentCIDOf(message.contentDigest);
+    return {
+      id: messageId,
+      timestamp: message.timestamp,
+      sender: decryptedAddress(values, message.encryptedSender),
+      senderVerified: decryptedBool(values, message.senderVerified),
+      key: ethersLib.toBeHex(decryptedUint(values, message.encryptedKey), 32),
+      cid,
+      contentDigest: cidToDigest(cid),
+      isCIDHidden,
+    };
+  }
+
+  /** Open a message, then download, verify and decrypt its envelope */
+  async receive(messageId: bigint, reader?: Signer, relay?: RelayFunction): Promise<ReceivedFile> {
+    const message = await this.open(messageId, reader, relay);
+    const envelope = parseEnvelope(await this.storage.download(message.contentDigest));
+    const content = await decryptEnvelope(envelope, message.key);
+    return { message, envelope, content };
+  }
+
+  /**
+   * Have the contract grant a message's key to its recipient and their delegates. The signer opens its
+   * own messages; other readers hold no ETH, so they sign an `openMessageFor` request instead.
+   */
+  private async openOnChain(messageId: bigint, reader: Signer, relay?: RelayFunction): Promise<void> {
+    if ((await reader.getAddress()) === (await this.signer.getAddress())) {
+      const tx = await this.contract.openMessage(messageId);
+      await tx.wait();
+      return;
+    }
+
+    const network = await this.signer.provider?.getNetwork();
+    if (!network) {
+      throw new Error("The signer has no provider");
+    }
+    const hash = openRequestHash(this.address, network.chainId, messageId);
+    const signature = await reader.signMessage(ethersLib.getBytes(hash));
+    const data = this.contract.interface.encodeFunctionData("openMessageFor", [messageId, signature]);
+    if (relay) {
+      await relay(data);
+      return;
+    }
+    const tx = await this.signer.sendTransaction({ to: this.address, data });
+    await tx.wait();
+  }
+
+  /**
+   * Sign a call to the contract as the first transaction of a fresh one-time account. The account holds
+   * no ETH: the sponsoring relayer funds its gas limit at the signed fees before broadcasting.
+   */
+  private async signOneTimeCall(account: ethersLib.HDNodeWallet, data: string): Promise<string> {
+    const provider = this.signer.provider;
+    if (!provider) {
+      throw new Error("The signer has no provider");
+    }
+
+    const [gasEstimate, fees, network] = await Promise.all([
+      provider.estimateGas({ from: account.address, to: this.address, data }),
+      provider.getFeeData(),
+      provider.getNetwork(),
+    ]);
+    return account.signTransaction({
+      type: 2,
+      chainId: network.chainId,
+      nonce: 0,
+      to: this.address,
+      data,
+      // Leave room for the state to change before the relayer broadcasts
+      gasLimit: (gasEstimate * 6n) / 5n,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    });
+  }
+
+  /** Collect an argument of every matching event in a receipt */
+  private eventArgs(receipt: TransactionReceipt | null, event: string, arg: string): bigint[] {
+    return (receipt?.logs ?? [])
+      .map((log) => this.contract.interface.parseLog(log))
+      .filter((parsed) => parsed?.name === event)
+      .map((parsed) => parsed!.args[arg] as bigint);
+  }
+}
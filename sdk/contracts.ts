@@ -0,0 +1,48 @@
+import { ethers as ethersLib } from "ethers";
+import type { ContractRunner, InterfaceAbi } from "ethers";
+
+import type { ConfidentialGroups, ConfidentialTransmission, ConfidentialTransmissionViews } from "../types";
+import confidentialGroupsAbi from "./abi/ConfidentialGroups.abi.json";
+import confidentialTransmissionAbi from "./abi/ConfidentialTransmission.abi.json";
+import confidentialTransmissionViewsAbi from "./abi/ConfidentialTransmissionViews.abi.json";
+
+/**
+ * Contract bindings
+ * =================
+ *
+ * The SDK ships the contract ABIs in sdk/abi, so it loads before the TypeChain types in types/
+ * have been generated (the Hardhat config loads the tasks, which load the SDK, before anything is
+ * compiled). TypeChain is only used for types. `npx hardhat compile` refreshes the ABIs (see
+ * tasks/abi.ts).
+ */
+
+/** ABI of the ConfidentialTransmission contract */
+export const CONFIDENTIAL_TRANSMISSION_ABI: InterfaceAbi = confidentialTransmissionAbi;
+
+/** ABI of the ConfidentialTransmissionViews contract, which serves the paged views */
+export const CONFIDENTIAL_TRANSMISSION_VIEWS_ABI: InterfaceAbi = confidentialTransmissionViewsAbi;
+
+/** ABI of the ConfidentialGroups contract */
+export const CONFIDENTIAL_GROUPS_ABI: InterfaceAbi = confidentialGroupsAbi;
+
+/** Typed ConfidentialTransmission contract at `address` */
+export function connectConfidentialTransmission(address: string, runner: ContractRunner): ConfidentialTransmission {
+  return new ethersLib.Contract(address, CONFIDENTIAL_TRANSMISSION_ABI, runner) as unknown as ConfidentialTransmission;
+}
+
+/** Typed ConfidentialTransmissionViews contract at `address` (see `ConfidentialTransmission.views()`) */
+export function connectConfidentialTransmissionViews(
+  address: string,
+  runner: ContractRunner,
+): ConfidentialTransmissionViews {
+  return new ethersLib.Contract(
+    address,
+    CONFIDENTIAL_TRANSMISSION_VIEWS_ABI,
+    runner,
+  ) as unknown as ConfidentialTransmissionViews;
+}
+
+/** Typed ConfidentialGroups contract at `address` */
+export function connectConfidentialGroups(address: string, runner: ContractRunner): ConfidentialGroups {
+  return new ethersLib.Contract(address, CONFIDENTIAL_GROUPS_ABI, runner) as unknown as ConfidentialGroups;
+}
@@ -0,0 +1,123 @@
+import { ethers as ethersLib } from "ethers";
+
+/**
+ * Encrypted content envelopes
+ * ===========================
+ *
+ * Files are encrypted with AES-256-CBC under a fresh random key and stored on IPFS as a JSON
+ * envelope:
+ *
+ *   { iv, content, algorithm: "aes-256-cbc", filename, size, type, messageType }
+ *
+ * `iv` and `content` are hex strings. Only the AES key goes on-chain, FHE encrypted. Encryption
+ * uses the Web Crypto API, so the CLI tasks and the React app produce and open the same envelopes.
+ */
+
+/** JSON document stored on IPFS for every message */
+export interface EncryptedEnvelope {
+  iv: string;
+  content: string;
+  algorithm: "aes-256-cbc";
+  filename: string;
+  size: number;
+  type: string;
+  messageType: "text" | "file";
+}
+
+/** What an envelope records about the file it holds */
+export interface EnvelopeFile {
+  filename: string;
+  type: string;
+  messageType?: "text" | "file";
+}
+
+/** Copy bytes into a fresh ArrayBuffer-backed array, as Web Crypto expects */
+function toBufferSource(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encrypt a file's content into an envelope
+ * @returns The envelope and its AES key as a 0x-prefixed 32-byte hex string
+ */
+export async function encryptEnvelope(
+  content: Uint8Array,
+  file: EnvelopeFile,
+): Promise<{ envelope: EncryptedEnvelope; key: string }> {
+  const key = crypto.getRandomValues(new Uint8Array(32));
+  const iv = crypto.getRandomValues(new Uint8Array(16));
+  const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "AES-CBC" }, false, ["encrypt"]);
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-CBC", iv }, cryptoKey, toBufferSource(content));
+
+  return {
+    envelope: {
+      iv: ethersLib.hexlify(iv).slice(2),
+      content: ethersLib.hexlify(new Uint8Array(encrypted)).slice(2),
+      algorithm: "aes-256-cbc",
+      filename: file.filename,
+      size: content.length,
+      type: file.type,
+      messageType: file.messageType ?? "file",
+    },
+    key: ethersLib.hexlify(key),
+  };
+}
+
+/**
+ * Parse and validate an envelope downloaded from IPFS
+ * @throws If the document is not a well-formed AES-256-CBC envelope
+ */
+export function parseEnvelope(document: Uint8Array): EncryptedEnvelope {
+  let envelope: EncryptedEnvelope;
+  try {
+    envelope = JSON.parse(new TextDecoder().decode(document));
+  } catch {
+    throw new Error("Content is not a JSON envelope");
+  }
+
+  const isHex = (value: unknown) => typeof value === "string" && /^([0-9a-f]{2})*$/i.test(value);
+  if (envelope.algorithm !== "aes-256-cbc") {
+    throw new Error(`Unsupported envelope algorithm: ${envelope.algorithm}`);
+  }
+  if (!isHex(envelope.iv) || envelope.iv.length !== 32) {
+    throw new Error("Envelope IV must be 16 bytes of hex");
+  }
+  if (!isHex(envelope.content) || envelope.content.length === 0 || (envelope.content.length / 2) % 16 !== 0) {
+    throw new Error("Envelope content must be whole AES blocks of hex");
+  }
+  if (typeof envelope.filename !== "string" || !Number.isInteger(envelope.size) || envelope.size < 0) {
+    throw new Error("Envelope has no valid filename or size");
+  }
+  return envelope;
+}
+
+/**
+ * Decrypt an envelope's content with its AES key
+ * @param key The AES key as a 0x-prefixed 32-byte hex string
+ * @throws If the key does not decrypt the content or the size does not match the envelope
+ */
+export async function decryptEnvelope(envelope: EncryptedEnvelope, key: string): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    toBufferSource(ethersLib.getBytes(key)),
+    { name: "AES-CBC" },
+    false,
+    ["decrypt"],
+  );
+
+  let content: Uint8Array;
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-CBC", iv: toBufferSource(ethersLib.getBytes(`0x${envelope.iv}`)) },
+      cryptoKey,
+      toBufferSource(ethersLib.getBytes(`0x${envelope.content}`)),
+    );
+    content = new Uint8Array(decrypted);
+  } catch {
+    throw new Error("Decryption failed (wrong key or corrupted envelope)");
+  }
+  if (content.length !== envelope.size) {
+    throw new Error(`Decrypted ${content.length} bytes, but the envelope declares ${envelope.size}`);
+  }
+  return content;
+}
@@ -0,0 +1,115 @@
+import { ethers as ethersLib } from "ethers";
+import type { Signer, TypedDataDomain } from "ethers";
+
+/**
+ * FHE instance adapter
+ * ====================
+ *
+ * The client only needs the parts of an FHEVM instance below. The relayer SDK's instance in the
+ * browser and Hardhat's `hre.fhevm` (mock or Sepolia) both provide them, so either can be passed in.
+ *
+ * Every encrypted value the contract takes is an euint256 (AES key, hidden CID chunks) or an
+ * eaddress (sender), added with `add256` / `addAddress`. Values are decrypted with one EIP-712
+ * signed `userDecrypt` request per call, however many handles it covers.
+ */
+
+/** An encrypted input under construction */
+export interface EncryptedInput {
+  addBool(value: boolean): EncryptedInput;
+  addAddress(value: string): EncryptedInput;
+  add256(value: bigint): EncryptedInput;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+/** EIP-712 request a user signs to decrypt handles */
+export interface UserDecryptRequest {
+  domain: TypedDataDomain;
+  types: Record<string, { name: string; type: string }[]>;
+  message: Record<string, unknown>;
+}
+
+/** Cleartext values by handle: bigint for euint, boolean for ebool, bigint or hex string for eaddress */
+export type DecryptedValues = Record<string, bigint | boolean | string>;
+
+/** The FHEVM instance methods the client uses */
+export interface FheInstance {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInput;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): UserDecryptRequest;
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<DecryptedValues>;
+}
+
+/** Days a user-decryption signature stays valid */
+const DECRYPTION_VALIDITY_DAYS = 1;
+
+/**
+ * User-decrypt handles of one contract with a single signature from `user`
+ * @returns The cleartext values by handle (zero handles are skipped and missing from the result)
+ */
+export async function userDecrypt(
+  fhevm: FheInstance,
+  handles: string[],
+  contractAddress: string,
+  user: Signer,
+): Promise<DecryptedValues> {
+  const pairs = [...new Set(handles)]
+    .filter((handle) => handle !== ethersLib.ZeroHash)
+    .map((handle) => ({ handle, contractAddress }));
+  if (pairs.length === 0) {
+    return {};
+  }
+
+  const keypair = fhevm.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = fhevm.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, DECRYPTION_VALIDITY_DAYS);
+  const signature = await user.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message,
+  );
+
+  return fhevm.userDecrypt(
+    pairs,
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await user.getAddress(),
+    startTimestamp,
+    DECRYPTION_VALIDITY_DAYS,
+  );
+}
+
+/** Read a decrypted euint256 (e.g. an AES key or a hidden CID chunk) */
+export function decryptedUint(values: DecryptedValues, handle: string): bigint {
+  const value = values[handle];
+  if (value === undefined) {
+    throw new Error(`Handle ${handle} was not decrypted`);
+  }
+  return BigInt(value);
+}
+
+/** Read a decrypted eaddress as a checksummed address */
+export function decryptedAddress(values: DecryptedValues, handle: string): string {
+  return ethersLib.getAddress(ethersLib.toBeHex(decryptedUint(values, handle), 20));
+}
+
+/** Read a decrypted ebool */
+export function decryptedBool(values: DecryptedValues, handle: string): boolean {
+  const value = values[handle];
+  return typeof value === "boolean" ? value : decryptedUint(values, handle) !== 0n;
+}
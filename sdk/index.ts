@@ -0,0 +1,49 @@
+/**
+ * ConfidentialTransmission client SDK
+ * ===================================
+ *
+ * One typed client for the CLI tasks and the React app. The contract bindings are built from the
+ * ABIs shipped in sdk/abi and typed with the TypeChain types (`npm run compile` generates them in
+ * types/); the signer, FHE instance and storage backend are passed in:
+ *
+ *   // Hardhat task
+ *   const client = new ConfidentialTransmissionClient(address, { signer, fhevm: hre.fhevm });
+ *
+ *   // Browser
+ *   const client = new ConfidentialTransmissionClient(address, {
+ *     signer: await provider.getSigner(),
+ *     fhevm: await relayerSDK.createInstance(config),
+ *     storage: pinataStorage({ apiKey, secretKey }),
+ *   });
+ *
+ *   const { cid, key } = await client.upload(bytes, { filename: "report.pdf", type: "application/pdf" });
+ *   const { messageIds } = await client.send({ recipients: [recipient], cid, key });
+ *   const { envelope, content } = await client.receive(messageIds[0]);
+ */
+
+export { ConfidentialTransmissionClient, MAX_BATCH_SIZE, openRequestHash, VISIBLE_MESSAGES } from "./client";
+export type {
+  BatchMessage,
+  BatchOptions,
+  ClientOptions,
+  MessageFilter,
+  MessageMetadata,
+  OpenedMessage,
+  PageOptions,
+  ReadStatus,
+  ReceivedFile,
+  RelayFunction,
+  SendOptions,
+  SendResult,
+  SponsorFunction,
+  StealthTarget,
+} from "./client";
+export * from "./cid";
+export * from "./contracts";
+export * from "./envelope";
+export * from "./fhe";
+export * from "./ipfs";
+export * from "./outbox";
+export * from "./stealth";
+export * from "./storage";
+export type { ConfidentialGroups, ConfidentialTransmission, ConfidentialTransmissionViews } from "../types";
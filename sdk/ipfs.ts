@@ -0,0 +1,156 @@
+import { ethers as ethersLib } from "ethers";
+
+/**
+ * Verified IPFS downloads
+ * =======================
+ *
+ * The contract stores the sha2-256 digest of every message's CID (see cid.ts), so a download can be
+ * checked against it instead of trusting the gateway. Blocks are fetched one by one in the trustless
+ * gateway format (`?format=raw`), each block is hashed against the digest that references it, and the
+ * file is reassembled from the UnixFS data of the dag-pb nodes:
+ *
+ *   PBNode  { 2: repeated PBLink, 1: bytes Data }      Data = UnixFS { 1: Type, 2: bytes Data, ... }
+ *   PBLink  { 1: bytes Hash, 2: string Name, 3: Tsize }
+ *
+ * Leaves may be dag-pb nodes (CIDv0 uploads) or raw blocks (codec 0x55). Any gateway implementing the
+ * trustless gateway spec works, e.g. ipfs.io or a local Kubo node's gateway on port 8080.
+ */
+
+/** Gateway used when none is configured */
+export const DEFAULT_IPFS_GATEWAY = "https://ipfs.io";
+
+/** Multicodec codes of the block formats a file can be made of */
+const DAG_PB_CODEC = 0x70;
+const RAW_CODEC = 0x55;
+
+/** Largest file assembled from blocks (bounds memory on malicious DAGs) */
+const MAX_FILE_BYTES = 64 * 1024 * 1024;
+
+/** A protobuf field decoded from a block: varints as numbers, length-delimited fields as bytes */
+type ProtobufField = { field: number; value: number | Uint8Array };
+
+function readVarint(bytes: Uint8Array, position: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  for (;;) {
+    if (position >= bytes.length || shift > 49) {
+      throw new Error("Invalid protobuf varint");
+    }
+    const byte = bytes[position++];
+    value += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+    if ((byte & 0x80) === 0) {
+      return [value, position];
+    }
+  }
+}
+
+/** Decode the top-level fields of a protobuf message (only varint and length-delimited wire types occur here) */
+function decodeProtobuf(bytes: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let position = 0;
+  while (position < bytes.length) {
+    const [key, next] = readVarint(bytes, position);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) {
+      const [value, end] = readVarint(bytes, next);
+      fields.push({ field, value });
+      position = end;
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(bytes, next);
+      if (start + length > bytes.length) {
+        throw new Error("Truncated protobuf field");
+      }
+      fields.push({ field, value: bytes.subarray(start, start + length) });
+      position = start + length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+/** Split the binary CID of a dag-pb link into its codec and sha2-256 digest */
+function parseLinkCID(cid: Uint8Array): { codec: number; digest: string } {
+  const hex = ethersLib.hexlify(cid);
+  // CIDv0: a bare sha2-256 multihash, always dag-pb
+  if (cid.length === 34 && hex.startsWith("0x1220")) {
+    return { codec: DAG_PB_CODEC, digest: ethersLib.dataSlice(hex, 2) };
+  }
+  // CIDv1: version, codec, multihash (both codes used here fit one varint byte)
+  if (cid.length === 36 && cid[0] === 0x01 && ethersLib.dataSlice(hex, 2, 4) === "0x1220") {
+    return { codec: cid[1], digest: ethersLib.dataSlice(hex, 4) };
+  }
+  throw new Error(`Unsupported link CID ${hex} (only sha2-256 CIDs can be verified)`);
+}
+
+/** Fetch one block from a trustless gateway and check its sha2-256 digest */
+async function fetchBlock(gateway: string, codec: number, digest: string): Promise<Uint8Array> {
+  // Base16 CIDv1 ("f" multibase) addresses dag-pb and raw blocks alike
+  const cid = `f01${codec.toString(16)}1220${digest.slice(2)}`;
+  const response = await fetch(`${gateway.replace(/\/$/, "")}/ipfs/${cid}?format=raw`, {
+    headers: { Accept: "application/vnd.ipld.raw" },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch block ${cid} from IPFS: ${response.status}`);
+  }
+
+  const block = new Uint8Array(await response.arrayBuffer());
+  if (ethersLib.hexlify(new Uint8Array(await crypto.subtle.digest("SHA-256", block))) !== digest) {
+    throw new Error(`Block ${cid} does not match its CID (the gateway returned different content)`);
+  }
+  return block;
+}
+
+/** Append the file data of a block and its children, in link order */
+async function collectFileData(
+  gateway: string,
+  codec: number,
+  digest: string,
+  chunks: Uint8Array[],
+  total: { bytes: number },
+): Promise<void> {
+  const block = await fetchBlock(gateway, codec, digest);
+  if (codec === RAW_CODEC) {
+    chunks.push(block);
+    total.bytes += block.length;
+  } else if (codec === DAG_PB_CODEC) {
+    const node = decodeProtobuf(block);
+    const data = node.find(({ field }) => field === 1)?.value;
+    if (data instanceof Uint8Array) {
+      const content = decodeProtobuf(data).find(({ field }) => field === 2)?.value;
+      if (content instanceof Uint8Array) {
+        chunks.push(content);
+        total.bytes += content.length;
+      }
+    }
+    for (const { field, value } of node) {
+      if (field === 2 && value instanceof Uint8Array) {
+        const hash = decodeProtobuf(value).find((linkField) => linkField.field === 1)?.value;
+        if (!(hash instanceof Uint8Array)) {
+          throw new Error("dag-pb link without a hash");
+        }
+        const link = parseLinkCID(hash);
+        await collectFileData(gateway, link.codec, link.digest, chunks, total);
+      }
+    }
+  } else {
+    throw new Error(`Unsupported block codec 0x${codec.toString(16)}`);
+  }
+
+  if (total.bytes > MAX_FILE_BYTES) {
+    throw new Error(`File exceeds ${MAX_FILE_BYTES} bytes`);
+  }
+}
+
+/**
+ * Download the file stored under a dag-pb / sha2-256 CID, verifying every block against the digest
+ * @param digest The sha2-256 digest stored on-chain (or decrypted from a hidden CID)
+ * @param gateway Base URL of a trustless IPFS gateway
+ */
+export async function fetchVerifiedFile(digest: string, gateway: string): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  await collectFileData(gateway, DAG_PB_CODEC, digest, chunks, { bytes: 0 });
+  return ethersLib.getBytes(ethersLib.concat(chunks));
+}
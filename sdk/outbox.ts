@@ -0,0 +1,138 @@
+import { ethers as ethersLib } from "ethers";
+import type { Signer, Wallet } from "ethers";
+
+import type { ConfidentialTransmission, ConfidentialTransmissionViews } from "../types";
+
+/**
+ * Private outbox helpers
+ * ======================
+ *
+ * The contract no longer records who sent a message. Instead every message can carry an
+ * outbox tag derived from a secret only the sender knows:
+ *
+ *   secret       = keccak256(sign("ConfidentialTransmission outbox ..."))
+ *   recallKey(i) = keccak256(abi.encode(secret, i))
+ *   tag(i)       = keccak256(abi.encode(recallKey(i)))
+ *   reader(i)    = wallet with private key keccak256(abi.encode(secret, i, "receipt"))
+ *
+ * Tags are used in order, so a sender rebuilds their outbox by resolving tag(0), tag(1), ...
+ * until the first unused one. Because a tag is a commitment to its recall key, revealing the key
+ * later proves authorship to `recallMessage` without revealing the sender's address. The reader
+ * wallet is the only account allowed to decrypt the message's encrypted read receipt.
+ */
+
+/** Number of tags resolved per `getOutboxMessages` / `getOutboxPage` call */
+const OUTBOX_PAGE_SIZE = 32;
+
+/**
+ * Message signed to derive the outbox secret. Bound to the contract and chain so the same
+ * wallet gets unrelated outboxes on different deployments.
+ */
+export function outboxSecretMessage(contractAddress: string, chainId: bigint): string {
+  return `ConfidentialTransmission outbox\nContract: ${ethersLib.getAddress(contractAddress)}\nChain: ${chainId}`;
+}
+
+/**
+ * Derive the outbox secret for a signer. Relies on deterministic (RFC 6979) signatures,
+ * which every common wallet produces for personal_sign.
+ */
+export async function deriveOutboxSecret(signer: Signer, contractAddress: string, chainId: bigint): Promise<string> {
+  const signature = await signer.signMessage(outboxSecretMessage(contractAddress, chainId));
+  return ethersLib.keccak256(signature);
+}
+
+/** Compute the recall key at a given index (kept private until the message is recalled) */
+export function outboxRecallKey(secret: string, index: number): string {
+  return ethersLib.keccak256(ethersLib.AbiCoder.defaultAbiCoder().encode(["bytes32", "uint256"], [secret, index]));
+}
+
+/** Compute the outbox tag at a given index */
+export function outboxTag(secret: string, index: number): string {
+  return ethersLib.keccak256(
+    ethersLib.AbiCoder.defaultAbiCoder().encode(["bytes32"], [outboxRecallKey(secret, index)]),
+  );
+}
+
+/**
+ * Derive the wallet allowed to decrypt the read receipt at a given index. It signs user-decryption
+ * requests and receives the message's postage refund when the recipient acknowledges it; the
+ * `postage-claim` task sweeps those refunds to a wallet of the sender's choice.
+ */
+export function outboxReceiptReader(secret: string, index: number): Wallet {
+  return new ethersLib.Wallet(
+    ethersLib.keccak256(
+      ethersLib.AbiCoder.defaultAbiCoder().encode(["bytes32", "uint256", "string"], [secret, index, "receipt"]),
+    ),
+  );
+}
+
+/**
+ * Resolve a sender's outbox
+ * @returns The sent message IDs in sending order and the next unused tag index
+ */
+export async function loadOutbox(
+  contract: ConfidentialTransmission,
+  secret: string,
+): Promise<{ messageIds: bigint[]; nextIndex: number }> {
+  const messageIds: bigint[] = [];
+
+  for (let start = 0; ; start += OUTBOX_PAGE_SIZE) {
+    const tags = Array.from({ length: OUTBOX_PAGE_SIZE }, (_, i) => outboxTag(secret, start + i));
+    const [found, ids] = await contract.getOutboxMessages(tags);
+
+    for (let i = 0; i < found.length; i++) {
+      if (!found[i]) {
+        return { messageIds, nextIndex: start + i };
+      }
+      messageIds.push(ids[i]);
+    }
+  }
+}
+
+/**
+ * Resolve a sender's outbox to full metadata, one `getOutboxPage` call per page of tags
+ * @returns The matching messages with their outbox index, in sending order
+ */
+export async function loadOutboxMetadata(
+  views: ConfidentialTransmissionViews,
+  secret: string,
+  filter: ConfidentialTransmissionViews.MessageFilterStruct,
+): Promise<{ index: number; metadata: ConfidentialTransmissionViews.MessageMetadataStructOutput }[]> {
+  const entries: { index: number; metadata: ConfidentialTransmissionViews.MessageMetadataStructOutput }[] = [];
+
+  for (let start = 0; ; start += OUTBOX_PAGE_SIZE) {
+    const tags = Array.from({ length: OUTBOX_PAGE_SIZE }, (_, i) => outboxTag(secret, start + i));
+    const [page, tagIndices, resolved] = await views.getOutboxPage(tags, filter);
+
+    page.forEach((metadata, i) => entries.push({ index: start + Number(tagIndices[i]), metadata }));
+    if (Number(resolved) < OUTBOX_PAGE_SIZE) {
+      return entries;
+    }
+  }
+}
+
+/**
+ * Resolve chosen outbox slots to full metadata, one `getOutboxPage` call per page of tags
+ * @param indices Outbox indices in use (below `loadOutbox`'s `nextIndex`), in the order to return them
+ * @param wanted Stop after the page that brings the matches to this many (default: resolve every slot)
+ * @returns The matching messages with their outbox index, in `indices` order
+ */
+export async function loadOutboxSlots(
+  views: ConfidentialTransmissionViews,
+  secret: string,
+  filter: ConfidentialTransmissionViews.MessageFilterStruct,
+  indices: number[],
+  wanted = Infinity,
+): Promise<{ index: number; metadata: ConfidentialTransmissionViews.MessageMetadataStructOutput }[]> {
+  const entries: { index: number; metadata: ConfidentialTransmissionViews.MessageMetadataStructOutput }[] = [];
+
+  for (let start = 0; start < indices.length && entries.length < wanted; start += OUTBOX_PAGE_SIZE) {
+    const slots = indices.slice(start, start + OUTBOX_PAGE_SIZE);
+    const [page, tagIndices] = await views.getOutboxPage(
+      slots.map((index) => outboxTag(secret, index)),
+      filter,
+    );
+    page.forEach((metadata, i) => entries.push({ index: slots[Number(tagIndices[i])], metadata }));
+  }
+  return entries;
+}
@@ -0,0 +1,144 @@
+import { ethers as ethersLib } from "ethers";
+import type { Signer } from "ethers";
+
+import type { ConfidentialTransmission } from "../types";
+
+/**
+ * Stealth address helpers (ERC-5564 scheme 1: secp256k1 with view tags)
+ * ======================================================================
+ *
+ * A recipient publishes a meta-address made of a spending and a viewing public key. To send
+ * privately, the sender picks an ephemeral key r and derives a one-time address:
+ *
+ *   secretHash     = keccak256(x coordinate of r * viewingPubKey)
+ *   viewTag        = first byte of secretHash
+ *   stealthPubKey  = spendingPubKey + secretHash * G
+ *
+ * `sendStealthMessage` stores the message for that address and emits an `Announcement` with
+ * r * G and the view tag. The recipient recomputes the shared secret with their viewing key,
+ * skips announcements whose view tag does not match, and derives the stealth private key
+ * (spendingKey + secretHash) that holds the message's FHE decryption rights.
+ *
+ * Both keys are derived from a wallet signature, so nothing needs to be stored.
+ */
+
+/** Order of the secp256k1 group */
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+/** ERC-5564 scheme ID (must match `STEALTH_SCHEME_ID` in the contract) */
+const STEALTH_SCHEME_ID = 1;
+
+export interface StealthKeys {
+  spendingKey: string;
+  viewingKey: string;
+}
+
+/**
+ * Message signed to derive the stealth keys. Bound to the contract and chain like the outbox secret.
+ */
+export function stealthKeysMessage(contractAddress: string, chainId: bigint): string {
+  return `ConfidentialTransmission stealth keys\nContract: ${ethersLib.getAddress(contractAddress)}\nChain: ${chainId}`;
+}
+
+/**
+ * Derive a signer's stealth spending and viewing keys (relies on deterministic signatures)
+ */
+export async function deriveStealthKeys(
+  signer: Signer,
+  contractAddress: string,
+  chainId: bigint,
+): Promise<StealthKeys> {
+  const seed = ethersLib.keccak256(await signer.signMessage(stealthKeysMessage(contractAddress, chainId)));
+  const coder = ethersLib.AbiCoder.defaultAbiCoder();
+  return {
+    spendingKey: ethersLib.keccak256(coder.encode(["bytes32", "string"], [seed, "spending"])),
+    viewingKey: ethersLib.keccak256(coder.encode(["bytes32", "string"], [seed, "viewing"])),
+  };
+}
+
+/** Encode the meta-address to publish with `setStealthMetaAddress` */
+export function stealthMetaAddress(keys: StealthKeys): string {
+  return ethersLib.concat([
+    ethersLib.SigningKey.computePublicKey(keys.spendingKey, true),
+    ethersLib.SigningKey.computePublicKey(keys.viewingKey, true),
+  ]);
+}
+
+/** Hash the x coordinate of the ECDH shared secret */
+function hashSharedSecret(privateKey: string, publicKey: string): string {
+  const sharedSecret = new ethersLib.SigningKey(privateKey).computeSharedSecret(publicKey);
+  return ethersLib.keccak256(ethersLib.dataSlice(sharedSecret, 1, 33));
+}
+
+/**
+ * Derive a fresh one-time address for a recipient's meta-address
+ * @returns The arguments `sendStealthMessage` needs besides the message itself
+ */
+export function generateStealthAddress(metaAddress: string): {
+  stealthAddress: string;
+  ephemeralPubKey: string;
+  viewTag: string;
+} {
+  if (ethersLib.dataLength(metaAddress) !== 66) {
+    throw new Error(`Invalid stealth meta-address: ${metaAddress}`);
+  }
+
+  const ephemeralKey = new ethersLib.SigningKey(ethersLib.randomBytes(32));
+  const secretHash = hashSharedSecret(ephemeralKey.privateKey, ethersLib.dataSlice(metaAddress, 33, 66));
+  const stealthPubKey = ethersLib.SigningKey.addPoints(
+    ethersLib.dataSlice(metaAddress, 0, 33),
+    ethersLib.SigningKey.computePublicKey(secretHash, true),
+  );
+
+  return {
+    stealthAddress: ethersLib.computeAddress(stealthPubKey),
+    ephemeralPubKey: ephemeralKey.compressedPublicKey,
+    viewTag: ethersLib.dataSlice(secretHash, 0, 1),
+  };
+}
+
+/**
+ * Derive the wallet for an announced stealth address
+ * @returns The stealth wallet, or null when the announcement is not addressed to these keys
+ */
+export function stealthWalletFor(
+  keys: StealthKeys,
+  stealthAddress: string,
+  ephemeralPubKey: string,
+  viewTag: string,
+): ethersLib.Wallet | null {
+  const secretHash = hashSharedSecret(keys.viewingKey, ephemeralPubKey);
+  if (ethersLib.dataSlice(secretHash, 0, 1) !== viewTag) {
+    return null;
+  }
+
+  const privateKey = (ethersLib.toBigInt(keys.spendingKey) + ethersLib.toBigInt(secretHash)) % SECP256K1_N;
+  const wallet = new ethersLib.Wallet(ethersLib.toBeHex(privateKey, 32));
+  return wallet.address === ethersLib.getAddress(stealthAddress) ? wallet : null;
+}
+
+/**
+ * Scan `Announcement` events for messages sent to a recipient's stealth addresses
+ * @returns The message IDs found, oldest first, with the stealth wallet that can read each
+ */
+export async function scanStealthInbox(
+  contract: ConfidentialTransmission,
+  keys: StealthKeys,
+  fromBlock: number = 0,
+): Promise<{ messageId: bigint; wallet: ethersLib.Wallet }[]> {
+  const announcements = await contract.queryFilter(contract.filters.Announcement(STEALTH_SCHEME_ID), fromBlock);
+  const found: { messageId: bigint; wallet: ethersLib.Wallet }[] = [];
+
+  for (const { args } of announcements) {
+    // Metadata is the view tag followed by the message ID
+    if (ethersLib.dataLength(args.metadata) !== 33 || ethersLib.dataLength(args.ephemeralPubKey) !== 33) {
+      continue;
+    }
+    const viewTag = ethersLib.dataSlice(args.metadata, 0, 1);
+    const wallet = stealthWalletFor(keys, args.stealthAddress, args.ephemeralPubKey, viewTag);
+    if (wallet) {
+      found.push({ messageId: ethersLib.toBigInt(ethersLib.dataSlice(args.metadata, 1, 33)), wallet });
+    }
+  }
+  return found;
+}
@@ -0,0 +1,103 @@
+import type { EncryptedEnvelope } from "./envelope";
+import { DEFAULT_IPFS_GATEWAY, fetchVerifiedFile } from "./ipfs";
+
+/**
+ * Envelope storage
+ * ================
+ *
+ * A storage backend uploads envelopes and downloads them again by the digest stored on-chain:
+ *
+ *   pinataStorage    Pinata's pinning API
+ *   ipfsNodeStorage  A local or self-hosted IPFS (Kubo) node's RPC API
+ *   gatewayStorage   Download only, for readers that never upload
+ *
+ * Uploads return dag-pb / sha2-256 CIDs, the only kind the contract can store (see cid.ts).
+ * Downloads go through a trustless gateway and are verified block by block (see ipfs.ts).
+ */
+
+/** Stores envelopes on IPFS and fetches them back */
+export interface StorageBackend {
+  name: string;
+  /** Store an envelope and return its IPFS CID */
+  upload(envelope: EncryptedEnvelope): Promise<string>;
+  /** Download the envelope document stored under a CID's sha2-256 digest, verified against it */
+  download(digest: string): Promise<Uint8Array>;
+}
+
+/** Pinata API credentials */
+export interface PinataCredentials {
+  apiKey: string;
+  secretKey: string;
+}
+
+const PINATA_PIN_JSON_URL = "https://api.pinata.cloud/pinning/pinJSONToIPFS";
+
+/**
+ * Pin an envelope to IPFS through Pinata
+ * @returns The IPFS CID of the pinned envelope
+ */
+export async function uploadToPinata(envelope: EncryptedEnvelope, credentials: PinataCredentials): Promise<string> {
+  const response = await fetch(PINATA_PIN_JSON_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      pinata_api_key: credentials.apiKey,
+      pinata_secret_api_key: credentials.secretKey,
+    },
+    body: JSON.stringify({
+      pinataContent: envelope,
+      pinataMetadata: { name: `encrypted-message-${Date.now()}.json` },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Pinata upload failed: ${response.status} - ${await response.text()}`);
+  }
+  const result = (await response.json()) as { IpfsHash: string };
+  return result.IpfsHash;
+}
+
+/**
+ * Add an envelope to an IPFS node through the Kubo RPC API (`/api/v0/add`), pinning it
+ * @returns The CIDv0 of the added envelope
+ */
+export async function uploadToIpfsNode(envelope: EncryptedEnvelope, apiUrl: string): Promise<string> {
+  const form = new FormData();
+  form.append("file", new Blob([JSON.stringify(envelope)], { type: "application/json" }), "envelope.json");
+
+  const response = await fetch(`${apiUrl.replace(/\/$/, "")}/api/v0/add?pin=true&cid-version=0`, {
+    method: "POST",
+    body: form,
+  });
+  if (!response.ok) {
+    throw new Error(`IPFS node upload failed: ${response.status} - ${await response.text()}`);
+  }
+  const result = (await response.json()) as { Hash: string };
+  return result.Hash;
+}
+
+/** Upload through Pinata, download through a trustless gateway */
+export function pinataStorage(credentials: PinataCredentials, gateway: string = DEFAULT_IPFS_GATEWAY): StorageBackend {
+  return {
+    name: "Pinata",
+    upload: (envelope) => uploadToPinata(envelope, credentials),
+    download: (digest) => fetchVerifiedFile(digest, gateway),
+  };
+}
+
+/** Upload to an IPFS node's RPC API, download through a trustless gateway */
+export function ipfsNodeStorage(apiUrl: string, gateway: string = DEFAULT_IPFS_GATEWAY): StorageBackend {
+  return {
+    name: `IPFS node (${apiUrl})`,
+    upload: (envelope) => uploadToIpfsNode(envelope, apiUrl),
+    download: (digest) => fetchVerifiedFile(digest, gateway),
+  };
+}
+
+/** Download through a trustless gateway; uploading is not supported */
+export function gatewayStorage(gateway: string = DEFAULT_IPFS_GATEWAY): StorageBackend {
+  return {
+    name: `IPFS gateway (${gateway})`,
+    upload: () => Promise.reject(new Error(`No upload backend configured (${gateway} is download only)`)),
+    download: (digest) => fetchVerifiedFile(digest, gateway),
+  };
+}
@@ -0,0 +1,385 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { ethers as ethersLib } from "ethers";
+import { resolve } from "path";
+
+import { cidToDigest, contentCIDOf } from "../sdk";
+import { encryptFile, resolveStorageBackend, STORAGE_BACKENDS } from "./envelope";
+
+/**
+ * ConfidentialGroups Task Suite
+ * =============================
+ *
+ * Named groups whose members all receive every message posted to the group. Groups live in the
+ * ConfidentialGroups companion contract; messages use the same encrypted envelope as one-to-one sends.
+ *
+ * Tutorial: Group Channels (--network localhost)
+ * ==============================================
+ *
+ * 1. Create a group (you become its admin and first member):
+ *    npx hardhat --network localhost group:create --name "Legal team" \
+ *      --members 0x70997970C51812dc3A010C7d01b50e0d17dc79C8,0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC
+ *
+ * 2. Post a file to every current member (or pass --cid and --key for content you uploaded yourself):
+ *    npx hardhat --network localhost group:send --group 0 --file ./contract.pdf
+ *
+ * 3. Add a member and share the last 10 messages with them (FHE permissions cannot be revoked later):
+ *    npx hardhat --network localhost group:add --group 0 --member 0x90F79bf6EB2c4f870365E785982E1f101E93b906 --history 10
+ *
+ * 4. Members list and read the group's messages:
+ *    npx hardhat --network localhost group:list --group 0
+ *    npx hardhat --network localhost group:read --group 0 --index 0
+ *
+ * 5. Remove a member (or leave with your own address):
+ *    npx hardhat --network localhost group:remove --group 0 --member 0x90F79bf6EB2c4f870365E785982E1f101E93b906
+ */
+
+/** Parse a `--group` argument */
+function parseGroupId(value: string): number {
+  const groupId = parseInt(value);
+  if (!Number.isInteger(groupId) || groupId < 0) {
+    throw new Error(`Invalid group ID: ${value}`);
+  }
+  return groupId;
+}
+
+/**
+ * Create a group
+ * Example:
+ *   npx hardhat --network localhost group:create --name "Legal team" --members 0x...,0x...
+ */
+task("group:create", "Create a group channel (you become its admin)")
+  .addOptionalParam("address", "Optionally specify the ConfidentialGroups contract address")
+  .addParam("name", "Display name of the group")
+  .addOptionalParam("members", "Comma-separated initial members besides yourself")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const members: string[] = (taskArguments.members?.split(",") ?? [])
+      .map((member: string) => member.trim())
+      .filter((member: string) => member !== "");
+    for (const member of members) {
+      if (!ethersLib.isAddress(member)) {
+        throw new Error(`Invalid member address: ${member}`);
+      }
+    }
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialGroups");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialGroups", contractDeployment.address);
+
+    console.log(`\n👥 Creating Group "${taskArguments.name}"`);
+    console.log(`============================`);
+    console.log(`👑 Admin   : ${signers[0].address}`);
+    console.log(`👤 Members : ${[signers[0].address, ...members].join("\n            ")}`);
+
+    const tx = await contract.connect(signers[0]).createGroup(taskArguments.name, members);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    for (const log of receipt?.logs ?? []) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "GroupCreated") {
+        console.log(`✅ Group created! ID: ${parsed.args.groupId}`);
+      }
+    }
+    console.log(``);
+  });
+
+/**
+ * Add a member to a group (admins only)
+ * Example:
+ *   npx hardhat --network localhost group:add --group 0 --member 0x...
+ *   npx hardhat --network localhost group:add --group 0 --member 0x... --history 10
+ */
+task("group:add", "Add a member to a group (admins only)")
+  .addOptionalParam("address", "Optionally specify the ConfidentialGroups contract address")
+  .addParam("group", "The group ID")
+  .addParam("member", "The account to add")
+  .addOptionalParam("history", "Number of earlier messages to share with the new member", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const groupId = parseGroupId(taskArguments.group);
+    if (!ethersLib.isAddress(taskArguments.member)) {
+      throw new Error(`Invalid member address: ${taskArguments.member}`);
+    }
+    const history = parseInt(taskArguments.history);
+    if (!Number.isInteger(history) || history < 0) {
+      throw new Error(`Invalid history count: ${taskArguments.history}`);
+    }
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialGroups");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialGroups", contractDeployment.address);
+
+    console.log(`\n➕ Adding Member to Group #${groupId}`);
+    console.log(`============================`);
+    console.log(`👤 Member  : ${taskArguments.member}`);
+    if (history > 0) {
+      // ACL grants are permanent: removing the member later does not take these keys back
+      console.log(`📜 History : last ${history} message(s) (cannot be revoked)`);
+    }
+
+    const tx = await contract.connect(signers[0]).addMember(groupId, taskArguments.member, history);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Member added!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(``);
+  });
+
+/**
+ * Remove a member from a group (admins only), or leave a group
+ * Example:
+ *   npx hardhat --network localhost group:remove --group 0 --member 0x...
+ */
+task("group:remove", "Remove a member from a group, or leave it with your own address")
+  .addOptionalParam("address", "Optionally specify the ConfidentialGroups contract address")
+  .addParam("group", "The group ID")
+  .addParam("member", "The member to remove")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const groupId = parseGroupId(taskArguments.group);
+    if (!ethersLib.isAddress(taskArguments.member)) {
+      throw new Error(`Invalid member address: ${taskArguments.member}`);
+    }
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialGroups");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialGroups", contractDeployment.address);
+
+    console.log(`\n➖ Removing Member from Group #${groupId}`);
+    console.log(`============================`);
+    console.log(`👤 Member: ${taskArguments.member}`);
+    console.log(`⚠️  Messages already shared with this member stay readable to them`);
+
+    const tx = await contract.connect(signers[0]).removeMember(groupId, taskArguments.member);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Member removed!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(``);
+  });
+
+/**
+ * Post an encrypted message to every current member of a group
+ * Example:
+ *   npx hardhat --network localhost group:send --group 0 --file ./contract.pdf
+ *   npx hardhat --network localhost group:send --group 0 --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG --key 0x1234...
+ */
+task("group:send", "Send an encrypted message to every member of a group")
+  .addOptionalParam("address", "Optionally specify the ConfidentialGroups contract address")
+  .addParam("group", "The group ID")
+  .addOptionalParam("file", "File to encrypt and upload to IPFS")
+  .addOptionalParam("cid", "IPFS CID of content you encrypted yourself")
+  .addOptionalParam("key", "AES encryption key of --cid (32 bytes hex)")
+  .addOptionalParam("storage", `Where to store --file: ${STORAGE_BACKENDS.join(" or ")} (default: STORAGE_BACKEND var)`)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const groupId = parseGroupId(taskArguments.group);
+    if (!taskArguments.file === !taskArguments.cid) {
+      throw new Error(`Specify either --file or --cid with --key`);
+    }
+
+    // Encrypt and pin the file, or use the caller's own content
+    let cid: string = taskArguments.cid;
+    let keyHex: string = taskArguments.key ?? "";
+    if (taskArguments.file) {
+      const storage = resolveStorageBackend(taskArguments.storage);
+      const filePath = resolve(taskArguments.file);
+      const { envelope, key } = await encryptFile(filePath);
+      cid = await storage.upload(envelope);
+      keyHex = key;
+      console.log(`📤 ${envelope.filename} (${envelope.size} bytes) -> ${cid} via ${storage.name}`);
+    }
+    keyHex = keyHex.startsWith("0x") ? keyHex : `0x${keyHex}`;
+    if (keyHex.length !== 66) {
+      throw new Error(`Invalid key length. Expected 32 bytes (64 hex chars), got ${(keyHex.length - 2) / 2} bytes`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialGroups");
+
+    const signers = await ethers.getSigners();
+    const sender = signers[0];
+    const contract = await ethers.getContractAt("ConfidentialGroups", contractDeployment.address);
+    const [name, , members] = await contract.getGroup(groupId);
+    if (!members.includes(sender.address)) {
+      throw new Error(`${sender.address} is not a member of group #${groupId}`);
+    }
+
+    console.log(`\n👥 Sending to Group #${groupId} "${name}"`);
+    console.log(`============================`);
+    console.log(`📍 Contract : ${contractDeployment.address}`);
+    console.log(`✍️  Sender   : ${sender.address}`);
+    console.log(`👤 Members  : ${members.length}`);
+    console.log(`📦 IPFS CID : ${cid}`);
+
+    // Sender and key share one encrypted input
+    console.log(`\n🔒 Encrypting sender and key with FHE...`);
+    const encrypted = await fhevm
+      .createEncryptedInput(contractDeployment.address, sender.address)
+      .addAddress(sender.address)
+      .add256(BigInt(keyHex))
+      .encrypt();
+
+    const tx = await contract
+      .connect(sender)
+      .sendToGroup(groupId, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, cidToDigest(cid));
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Transaction confirmed! Gas Used: ${receipt?.gasUsed.toString()}`);
+    for (const log of receipt?.logs ?? []) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "GroupMessageSent") {
+        console.log(`📨 Message index: ${parsed.args.index}`);
+      }
+    }
+    console.log(`\n🎉 Sent to ${members.length} member(s)!\n`);
+  });
+
+/**
+ * List your groups, or the members and messages of one group
+ * Example:
+ *   npx hardhat --network localhost group:list
+ *   npx hardhat --network localhost group:list --group 0
+ */
+task("group:list", "List your groups, or the members and messages of a group")
+  .addOptionalParam("address", "Optionally specify the ConfidentialGroups contract address")
+  .addOptionalParam("group", "The group to show (defaults to listing your groups)")
+  .addOptionalParam("for", "Optionally specify an account to list groups for (defaults to first signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialGroups");
+
+    const signers = await ethers.getSigners();
+    const account = taskArguments.for || signers[0].address;
+    const contract = await ethers.getContractAt("ConfidentialGroups", contractDeployment.address);
+
+    if (taskArguments.group === undefined) {
+      const groupIds = await contract.getGroupsOf(account);
+
+      console.log(`\n👥 Groups of ${account}`);
+      console.log(`====================================`);
+      if (groupIds.length === 0) {
+        console.log(`\n   No groups.\n`);
+        return;
+      }
+      for (const groupId of groupIds) {
+        const [name, admins, members, messageCount] = await contract.getGroup(groupId);
+        const role = admins.includes(account) ? "admin" : "member";
+        console.log(`   #${groupId} ${name}  (${members.length} members, ${messageCount} messages, ${role})`);
+      }
+      console.log(``);
+      return;
+    }
+
+    const groupId = parseGroupId(taskArguments.group);
+    const [name, admins, members, messageCount] = await contract.getGroup(groupId);
+    const pageSize = Number(await contract.MAX_PAGE_SIZE());
+
+    console.log(`\n👥 Group #${groupId} "${name}"`);
+    console.log(`====================================`);
+    console.log(`\n👤 Members:`);
+    for (const member of members) {
+      console.log(`   ${admins.includes(member) ? "👑" : "  "} ${member}`);
+    }
+
+    console.log(`\n📨 Messages (${messageCount}):`);
+    for (let offset = 0n; offset < messageCount; offset += BigInt(pageSize)) {
+      const page = await contract.getGroupMessagesPage(groupId, offset, pageSize);
+      for (const message of page) {
+        const readable = await contract.canRead(groupId, message.index, account);
+        console.log(
+          `   #${message.index}  ${new Date(Number(message.timestamp) * 1000).toLocaleString()}  ` +
+            `${contentCIDOf(message.contentDigest)}${readable ? "" : "  (no access)"}`,
+        );
+      }
+    }
+    console.log(``);
+  });
+
+/**
+ * Read and decrypt a group message (members with access only)
+ * Example:
+ *   npx hardhat --network localhost group:read --group 0 --index 0
+ */
+task("group:read", "Read and decrypt a group message")
+  .addOptionalParam("address", "Optionally specify the ConfidentialGroups contract address")
+  .addParam("group", "The group ID")
+  .addParam("index", "Position of the message in the group's history")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const groupId = parseGroupId(taskArguments.group);
+    const index = parseInt(taskArguments.index);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error(`Invalid message index: ${taskArguments.index}`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialGroups");
+
+    const signers = await ethers.getSigners();
+    const reader = signers[0];
+    const contract = await ethers.getContractAt("ConfidentialGroups", contractDeployment.address);
+
+    console.log(`\n🔓 Reading Group #${groupId} Message #${index}`);
+    console.log(`============================`);
+    console.log(`👤 Reader: ${reader.address}`);
+
+    const message = await contract.connect(reader).getGroupMessage(groupId, index);
+    const contentCID = contentCIDOf(message.contentDigest);
+
+    console.log(`\n📦 Message Content:`);
+    console.log(`   IPFS CID : ${contentCID}`);
+    console.log(`   Timestamp: ${new Date(Number(message.timestamp) * 1000).toLocaleString()}`);
+
+    console.log(`\n🔐 Decrypting FHE data...`);
+    const sender = await fhevm.userDecryptEaddress(message.encryptedSender, contractDeployment.address, reader);
+    const senderVerified = await fhevm.userDecryptEbool(message.senderVerified, contractDeployment.address, reader);
+    const key = await fhevm.userDecryptEuint(
+      FhevmType.euint256,
+      message.encryptedKey,
+      contractDeployment.address,
+      reader,
+    );
+    const keyHex = ethersLib.toBeHex(key, 32);
+
+    console.log(`\n✅ Decrypted Information:`);
+    console.log(`   👤 Sender: ${sender}`);
+    console.log(
+      `      ${senderVerified ? "✅ Verified (posted by this address)" : "⚠️ Unverified (not posted by this address)"}`,
+    );
+    console.log(`   🔑 Key   : ${keyHex}`);
+
+    console.log(`\n💡 Next Steps:`);
+    console.log(`   1. Download encrypted content from IPFS: ${contentCID}`);
+    console.log(`   2. Decrypt using AES key: ${keyHex}`);
+    console.log(``);
+  });
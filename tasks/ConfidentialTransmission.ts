@@ -1,6 +1,28 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
 import { ethers as ethersLib } from "ethers";
+import type { Signer } from "ethers";
+import { dirname, resolve } from "path";
+
+import {
+  ConfidentialTransmissionClient,
+  contentCIDOf,
+  deriveOutboxSecret,
+  deriveStealthKeys,
+  gatewayStorage,
+  generateStealthAddress,
+  loadOutbox,
+  MAX_BATCH_SIZE,
+  outboxReceiptReader,
+  scanStealthInbox,
+  stealthMetaAddress,
+  VISIBLE_MESSAGES,
+} from "../sdk";
+import type { BatchMessage, MessageMetadata, ReadStatus, StorageBackend } from "../sdk";
+import { encryptFile, resolveGateway, resolveStorageBackend, STORAGE_BACKENDS, writeReceivedFile } from "./envelope";
+import { describeError, JSON_FLAG, jsonOutput, messageJson, TaskError } from "./output";
+import type { MessageJson } from "./output";
 
 /**
  * ConfidentialTransmission Task Suite
@@ -18,18 +40,202 @@ import { ethers as ethersLib } from "ethers";
  * 2. Deploy contract:
  *    npx hardhat --network localhost deploy
  *
- * 3. Send encrypted message:
+ * 3. Send an encrypted file (encrypted, uploaded and sent in one step):
+ *    npx hardhat --network localhost confidential-transmission:send-file \
+ *      --file ./report.pdf --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *
+ *    or send content you already encrypted and uploaded yourself:
  *    npx hardhat --network localhost confidential-transmission:send \
  *      --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
- *      --cid QmExampleCID123 \
+ *      --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG \
  *      --key 0x1234...
  *
  * 4. List received messages:
  *    npx hardhat --network localhost confidential-transmission:list
  *
- * 5. Read message:
+ * 5. Read message (and send an encrypted read receipt to its sender):
+ *    npx hardhat --network localhost confidential-transmission:read --message-id 0 --acknowledge
+ *
+ * 6. Download, verify and decrypt the file itself (or every unread file with --all-unread):
+ *    npx hardhat --network localhost confidential-transmission:receive --id 0 --out ./inbox
+ *
+ * 7. Or keep watching the inbox, saving new files as they arrive (resumes from a checkpoint after a restart):
+ *    npx hardhat --network localhost confidential-transmission:watch --auto-download ./inbox
+ *
+ *
+ * Tutorial: Anonymous Sending
+ * ===========================
+ *
+ * Sends submitted directly still reveal the sender as the transaction origin. To hide it,
+ * send from a fresh one-time account whose gas the local relayer sponsors:
+ *
+ * 1. Start the relayer (funds one-time accounts and relays recalls with its own account):
+ *    npx hardhat --network localhost confidential-transmission:relayer
+ *
+ * 2. Send anonymously:
+ *    npx hardhat --network localhost confidential-transmission:send --anonymous \
+ *      --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
+ *      --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG --key 0x1234...
+ *
+ * 3. List your private outbox, including delivered/read status:
+ *    npx hardhat --network localhost confidential-transmission:list --sent
+ *
+ * 4. Recall a message you sent, without revealing yourself:
+ *    npx hardhat --network localhost confidential-transmission:recall --message-id 0 --anonymous
+ *
+ * 5. The recipient answers without learning who you are:
+ *    npx hardhat --network localhost confidential-transmission:reply --message-id 0 \
+ *      --cid QmUEFmLPVpC38QkqZu4fFtcKimJRv5Wr95vAztHG15cUBn --key 0x5678...
+ *
+ * 6. Read the reply through your outbox (list --sent shows reply IDs):
+ *    npx hardhat --network localhost confidential-transmission:read --message-id 1 --as-sender
+ *
+ *
+ * Tutorial: Sender Filter
+ * ======================
+ *
+ * Keep an encrypted allowlist or blocklist of senders. Each incoming message gets an encrypted
+ * pass/fail flag that only you can decrypt; `list` shows it and the Received tab folds failures.
+ *
+ * 1. Add senders (the list itself is never revealed):
+ *    npx hardhat --network localhost confidential-transmission:filter-add --sender 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC
+ *
+ * 2. Apply it as an allowlist (or --mode block, --mode off):
+ *    npx hardhat --network localhost confidential-transmission:filter-mode --mode allow
+ *
+ * 3. Show the decrypted list, or remove an entry by position:
+ *    npx hardhat --network localhost confidential-transmission:filter-list
+ *    npx hardhat --network localhost confidential-transmission:filter-remove --index 0
+ *
+ *
+ * Tutorial: Stealth Recipients
+ * ============================
+ *
+ * Hide who receives a message: the sender derives a one-time address from the recipient's
+ * published meta-address, and the recipient finds the message by scanning announcements.
+ *
+ * 1. Recipient publishes a stealth meta-address (derived from a signature, nothing to store):
+ *    npx hardhat --network localhost confidential-transmission:stealth-register
+ *
+ * 2. Sender sends to a fresh stealth address:
+ *    npx hardhat --network localhost confidential-transmission:send --stealth \
+ *      --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
+ *      --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG --key 0x1234...
+ *
+ * 3. Recipient scans for stealth messages and reads one with its stealth key:
+ *    npx hardhat --network localhost confidential-transmission:stealth-scan
+ *    npx hardhat --network localhost confidential-transmission:read --message-id 0 --stealth
+ *
+ *
+ * Tutorial: Anti-spam Postage
+ * ============================
+ *
+ * Require every incoming message to carry an ETH deposit. Senders get it back once you read
+ * the message (`read --acknowledge`); mark unwanted messages as spam to keep it instead.
+ *
+ * 1. Set your inbox postage (or --amount 0 to accept messages for free):
+ *    npx hardhat --network localhost confidential-transmission:postage --amount 0.001
+ *
+ * 2. Check what an inbox requires (`send` attaches it automatically):
+ *    npx hardhat --network localhost confidential-transmission:postage --for 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *
+ * 3. Keep the postage of an unwanted message:
+ *    npx hardhat --network localhost confidential-transmission:spam --message-id 0
+ *
+ *    Or give it back without reading, e.g. after deleting the message or once it expired:
+ *    npx hardhat --network localhost confidential-transmission:refund --message-id 0
+ *
+ * 4. As a sender, collect refunds from your outbox reader wallets:
+ *    npx hardhat --network localhost confidential-transmission:postage-claim
+ *
+ * Refunds are paid to the message's receipt reader, a wallet derived from the sender's outbox.
+ * Sponsored (--anonymous) sends cannot attach ETH, so they only reach inboxes without postage.
+ *
+ *
+ * Tutorial: Time-locked Messages
+ * ==============================
+ *
+ * Deliver a message now but keep its key sealed until a given time. The contract holds the key
+ * until then; after the unlock time anyone can unlock the message, and the recipient's first read
+ * opens it, which grants them the key.
+ *
+ * 1. Send with an unlock time (unix seconds or an ISO date):
+ *    npx hardhat --network localhost confidential-transmission:send --unlock-at 2030-01-01T00:00:00Z \
+ *      --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
+ *      --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG --key 0x1234...
+ *
+ * 2. Once the time has passed, unlock it (`list` shows the unlock time), then read it:
+ *    npx hardhat --network localhost confidential-transmission:unlock --message-id 0
+ *    npx hardhat --network localhost confidential-transmission:read --message-id 0
+ *
+ *
+ * Tutorial: Dead Man's Switch
+ * ===========================
+ *
+ * Register messages that reach their recipients only if you stop checking in.
+ *
+ * 1. Start your switch with the longest time you may go without checking in:
+ *    npx hardhat --network localhost confidential-transmission:heartbeat --interval 30d
+ *
+ * 2. Send messages held back by it:
+ *    npx hardhat --network localhost confidential-transmission:send --switch \
+ *      --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
+ *      --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG --key 0x1234...
+ *
+ * 3. Check in regularly (list --sent shows the release deadline):
+ *    npx hardhat --network localhost confidential-transmission:heartbeat
+ *
+ * 4. Once a deadline passes without a heartbeat, anyone can release the message:
+ *    npx hardhat --network localhost confidential-transmission:release --message-id 0
+ *
+ * The switch owner is public, so switch messages are linked to the address that checks in.
+ *
+ *
+ * Tutorial: M-of-N Approvals
+ * ==========================
+ *
+ * Release a message's key only after enough designated approvers sign off on-chain.
+ *
+ * 1. Send with approvers and the number of approvals required:
+ *    npx hardhat --network localhost confidential-transmission:send \
+ *      --approvers 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC,0x90F79bf6EB2c4f870365E785982E1f101E93b906 --threshold 2 \
+ *      --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
+ *      --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG --key 0x1234...
+ *
+ * 2. Each approver signs off (or refuses with --reject); the last approval releases the key:
+ *    npx hardhat --network localhost confidential-transmission:approve --message-id 0
+ *
+ *
+ * Tutorial: Delegated Inbox Access
+ * =================================
+ *
+ * Let an assistant or an archiving service read your messages with its own account.
+ *
+ * 1. Add the delegate (optionally expiring) and share the messages you already have:
+ *    npx hardhat --network localhost confidential-transmission:delegate-add \
+ *      --delegate 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC --expires 30d --share-existing
+ *
+ * 2. The delegate lists and reads your inbox:
+ *    npx hardhat --network localhost confidential-transmission:list --for 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
  *    npx hardhat --network localhost confidential-transmission:read --message-id 0
  *
+ * 3. Stop sharing new messages (FHE permissions already granted cannot be revoked):
+ *    npx hardhat --network localhost confidential-transmission:delegate-remove --delegate 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC
+ *
+ *
+ * Tutorial: Batch Sending
+ * =======================
+ *
+ * Send many local files at once. Each file is encrypted with its own AES key and pinned to IPFS;
+ * the keys of a whole chunk share one FHE input proof and one `sendBatch` transaction.
+ *
+ * 1. Store your Pinata API keys:
+ *    npx hardhat vars set PINATA_API_KEY
+ *    npx hardhat vars set PINATA_SECRET_KEY
+ *
+ * 2. List `recipient,file` pairs in a CSV (or a JSON array of { recipient, file }) and send them:
+ *    npx hardhat --network localhost confidential-transmission:send-batch --manifest ./batch.csv
+ *
  *
  * Tutorial: Sepolia Testnet (--network sepolia)
  * ==============================================
@@ -37,255 +243,2074 @@ import { ethers as ethersLib } from "ethers";
  * Same commands, just replace --network localhost with --network sepolia
  */
 
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/** Sender filter modes, in `SenderFilterMode` enum order */
+const SENDER_FILTER_MODES = ["off", "allow", "block"];
+
+/** How `list --sent` shows each read receipt status */
+const READ_STATUS_LABELS: Record<ReadStatus, string> = {
+  none: "Delivered (no read receipt requested)",
+  delivered: "Delivered",
+  read: "Read",
+};
+
+/** Sort orders accepted by `list --order` */
+const LIST_ORDERS = ["oldest", "newest"];
+
+/** A message as `list --json` prints it, with the sender filter result and, for sent messages, outbox details */
+interface ListedMessageJson extends MessageJson {
+  senderFilter: "passed" | "blocked" | null;
+  outboxIndex: number | null;
+  readStatus: ReadStatus | null;
+  replies: string[] | null;
+}
+
+/**
+ * Parse a non-negative whole number given for an option such as --limit
+ */
+function parseCount(value: string, option: string): number {
+  const count = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(count)) {
+    throw new TaskError("INVALID_ARGUMENT", `Invalid ${option}: ${value} (expected a whole number)`);
+  }
+  return count;
+}
+
+/**
+ * Parse a duration such as "3600", "90m", "24h" or "7d" into seconds
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+)([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new TaskError("INVALID_ARGUMENT", `Invalid duration: ${value} (expected e.g. 3600, 90m, 24h or 7d)`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] || "s"];
+}
+
+/**
+ * Parse a time given as unix seconds or an ISO 8601 date into unix seconds
+ * @param name What the time is, for the error message
+ */
+function parseTime(value: string, name: string): number {
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new TaskError("INVALID_ARGUMENT", `Invalid ${name}: ${value} (expected unix seconds or an ISO date)`);
+  }
+  return Math.floor(time / 1000);
+}
+
+/** Number of messages shared per `grantDelegateAccess` transaction */
+const DELEGATE_SHARE_BATCH_SIZE = 25;
+
+/**
+ * Connect an SDK client (see sdk/client.ts) to the deployed contract, or the one at `address`,
+ * as the first signer unless another signer is given
+ */
+async function connectClient(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+  options: { signer?: Signer; storage?: StorageBackend } = {},
+): Promise<ConfidentialTransmissionClient> {
+  const contractAddress = address ?? (await hre.deployments.get("ConfidentialTransmission")).address;
+  const signer = options.signer ?? (await hre.ethers.getSigners())[0];
+  return new ConfidentialTransmissionClient(contractAddress, { signer, fhevm: hre.fhevm, storage: options.storage });
+}
+
+/**
+ * Post a request to the anonymous relayer service (see tasks/Relayer.ts)
+ */
+async function callRelayer(
+  relayerUrl: string,
+  endpoint: "relay" | "sponsor",
+  body: Record<string, string>,
+): Promise<{ txHash: string; messageIds: string[] }> {
+  const response = await fetch(`${relayerUrl}/${endpoint}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const result = (await response.json()) as { txHash: string; messageIds: string[]; error?: string };
+  if (!response.ok) {
+    throw new Error(`Relayer rejected the request: ${result.error}`);
+  }
+  return result;
+}
+
+/**
+ * Submit call data (recalls, signed opens) through the relayer's forwarder
+ */
+function submitViaRelayer(relayerUrl: string, data: string): Promise<{ txHash: string; messageIds: string[] }> {
+  return callRelayer(relayerUrl, "relay", { data });
+}
+
+/**
+ * Have the relayer fund and broadcast a one-time account's signed send
+ */
+function sponsorViaRelayer(
+  relayerUrl: string,
+  signedTransaction: string,
+): Promise<{ txHash: string; messageIds: string[] }> {
+  return callRelayer(relayerUrl, "sponsor", { signedTransaction });
+}
+
+/** One file to send, as listed in a `send-batch` manifest */
+interface ManifestEntry {
+  recipient: string;
+  file: string;
+}
+
+/**
+ * Parse a `send-batch` manifest: a JSON array of `{ recipient, file }` objects or a CSV file
+ * with `recipient,file` lines (an optional header line is skipped). Relative file paths are
+ * resolved from the manifest's directory.
+ */
+function parseManifest(manifestPath: string): ManifestEntry[] {
+  const text = readFileSync(manifestPath, "utf8");
+  let entries: ManifestEntry[];
+  if (manifestPath.toLowerCase().endsWith(".json")) {
+    entries = JSON.parse(text) as ManifestEntry[];
+    if (!Array.isArray(entries)) {
+      throw new Error(`Manifest ${manifestPath} must be a JSON array of { recipient, file } objects`);
+    }
+  } else {
+    entries = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line !== "" && !line.startsWith("#") && !/^recipient\s*,/i.test(line))
+      .map((line) => {
+        const [recipient, ...file] = line.split(",");
+        return { recipient: recipient.trim(), file: file.join(",").trim() };
+      });
+  }
+
+  if (entries.length === 0) {
+    throw new Error(`Manifest ${manifestPath} lists no files`);
+  }
+  return entries.map((entry, i) => {
+    if (!entry?.recipient || !ethersLib.isAddress(entry.recipient)) {
+      throw new Error(`Invalid recipient address in manifest entry ${i + 1}: ${entry?.recipient}`);
+    }
+    if (!entry.file) {
+      throw new Error(`Missing file in manifest entry ${i + 1}`);
+    }
+    return { recipient: entry.recipient, file: resolve(dirname(manifestPath), entry.file) };
+  });
+}
+
+/**
+ * Get contract address
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:address
+ */
+task("confidential-transmission:address", "Prints the ConfidentialTransmission contract address").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const { deployments } = hre;
+
+    const contract = await deployments.get("ConfidentialTransmission");
+    console.log("\n📍 ConfidentialTransmission contract address:");
+    console.log(`   ${contract.address}`);
+    console.log("");
+  },
+);
+
+/**
+ * Get contract statistics
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:stats
+ *   npx hardhat --network localhost confidential-transmission:stats --json
+ *
+ * JSON result: { contract, totalMessages }
+ */
+task("confidential-transmission:stats", "Display contract statistics")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addFlag("json", JSON_FLAG)
+  .setAction(
+    jsonOutput(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, deployments } = hre;
+
+      const contractDeployment = taskArguments.address
+        ? { address: taskArguments.address }
+        : await deployments.get("ConfidentialTransmission");
+
+      const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+      const totalMessages = await contract.getTotalMessages();
+
+      console.log("\n📊 ConfidentialTransmission Statistics");
+      console.log("====================================");
+      console.log(`📍 Contract Address: ${contractDeployment.address}`);
+      console.log(`📨 Total Messages  : ${totalMessages}`);
+      console.log("");
+
+      return { contract: contractDeployment.address, totalMessages: totalMessages.toString() };
+    }),
+  );
+
+/**
+ * Send encrypted message
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:send \
+ *     --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
+ *     --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG \
+ *     --key 0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef
+ *   npx hardhat --network localhost confidential-transmission:send --anonymous ...
+ *   npx hardhat --network localhost confidential-transmission:send \
+ *     --recipients 0x7099...79C8,0x3C44...93BC --cid QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG --key 0x1234...
+ *   npx hardhat --network localhost confidential-transmission:send --ttl 24h ...
+ *   npx hardhat --network localhost confidential-transmission:send --hide-cid ...
+ *   npx hardhat --network localhost confidential-transmission:send --stealth ...
+ *   npx hardhat --network localhost confidential-transmission:send --unlock-at 2030-01-01T00:00:00Z ...
+ *   npx hardhat --network localhost confidential-transmission:send --switch ...
+ *   npx hardhat --network localhost confidential-transmission:send --approvers 0x3C44...93BC,0x90F7...b906 --threshold 2 ...
+ *   npx hardhat --network localhost confidential-transmission:send --json ...
+ *
+ * JSON result: { txHash, messageIds, recipients, stealthAddress, postage, anonymous }
+ */
+task("confidential-transmission:send", "Send an encrypted message to one or more addresses")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("recipient", "The recipient's Ethereum address")
+  .addOptionalParam("recipients", "Comma-separated recipient addresses sharing one encrypted payload")
+  .addParam("cid", "IPFS CID of the encrypted content")
+  .addParam("key", "AES encryption key (32 bytes hex)")
+  .addOptionalParam("ttl", "Time until the message expires, e.g. 3600, 90m, 24h or 7d (default: never)")
+  .addOptionalParam("unlockAt", "Keep the key sealed until this time, as unix seconds or an ISO date")
+  .addFlag("switch", "Hold the key back with your dead man's switch until you stop checking in")
+  .addOptionalParam("approvers", "Comma-separated addresses that must approve before the key is released")
+  .addOptionalParam("threshold", "Number of approvals required (default: all approvers)")
+  .addFlag("hideCid", "Store the CID FHE encrypted so only recipients can see it")
+  .addFlag("stealth", "Send to a one-time stealth address derived from the recipient's meta-address")
+  .addFlag("anonymous", "Submit through the relayer so the sender never appears on-chain")
+  .addOptionalParam("relayer", "Relayer service URL used with --anonymous", "http://127.0.0.1:8787")
+  .addFlag("json", JSON_FLAG)
+  .setAction(
+    jsonOutput(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, fhevm } = hre;
+
+      // Collect and validate recipient addresses
+      const recipients: string[] = [taskArguments.recipient, ...(taskArguments.recipients?.split(",") ?? [])]
+        .filter((recipient) => recipient !== undefined && recipient.trim() !== "")
+        .map((recipient) => recipient.trim());
+      if (recipients.length === 0) {
+        throw new TaskError("INVALID_ARGUMENT", `Specify --recipient or --recipients`);
+      }
+      for (const recipient of recipients) {
+        if (!ethersLib.isAddress(recipient)) {
+          throw new TaskError("INVALID_ARGUMENT", `Invalid recipient address: ${recipient}`);
+        }
+      }
+      if (taskArguments.stealth && recipients.length > 1) {
+        throw new TaskError("INVALID_ARGUMENT", `--stealth sends to a single --recipient`);
+      }
+
+      const ttl = taskArguments.ttl ? parseDuration(taskArguments.ttl) : 0;
+      const unlockAt = taskArguments.unlockAt ? parseTime(taskArguments.unlockAt, "unlock time") : 0;
+
+      // Approval-gated keys are released once `threshold` of the approvers sign off
+      const approvers: string[] = (taskArguments.approvers?.split(",") ?? [])
+        .map((approver: string) => approver.trim())
+        .filter((approver: string) => approver !== "");
+      for (const approver of approvers) {
+        if (!ethersLib.isAddress(approver)) {
+          throw new TaskError("INVALID_ARGUMENT", `Invalid approver address: ${approver}`);
+        }
+      }
+      const threshold = taskArguments.threshold ? parseInt(taskArguments.threshold) : approvers.length;
+      if (!Number.isInteger(threshold) || threshold > approvers.length || (approvers.length > 0 && threshold < 1)) {
+        throw new TaskError("INVALID_ARGUMENT", `--threshold must be between 1 and the number of --approvers`);
+      }
+      const approval = { approvers, threshold };
+
+      // Validate key format
+      const keyHex = taskArguments.key.startsWith("0x") ? taskArguments.key : `0x${taskArguments.key}`;
+      if (keyHex.length !== 66) {
+        // 0x + 64 hex chars = 32 bytes
+        throw new TaskError(
+          "INVALID_ARGUMENT",
+          `Invalid key length. Expected 32 bytes (64 hex chars), got ${(keyHex.length - 2) / 2} bytes`,
+        );
+      }
+
+      await fhevm.initializeCLIApi();
+
+      const client = await connectClient(hre, taskArguments.address);
+      const contract = client.contract;
+      const signers = await ethers.getSigners();
+      const sender = signers[0];
+
+      console.log(`\n🔐 Sending Encrypted Message`);
+      console.log(`============================`);
+      console.log(`📍 Contract  : ${client.address}`);
+      console.log(`👤 Recipient : ${recipients.join("\n              ")}`);
+      console.log(`📦 IPFS CID  : ${taskArguments.cid}${taskArguments.hideCid ? " (hidden)" : ""}`);
+      if (ttl > 0) {
+        console.log(`⏳ Expires   : in ${ttl} seconds`);
+      }
+      if (unlockAt > 0) {
+        console.log(`🔒 Unlocks   : ${new Date(unlockAt * 1000).toLocaleString()}`);
+      }
+      if (threshold > 0) {
+        console.log(`✅ Approvals : ${threshold} of ${approvers.join(", ")}`);
+      }
+      console.log(`✍️  Sender    : ${sender.address}`);
+
+      // Dead man's switch messages are held back by the sender's own heartbeats
+      const switchOwner = taskArguments.switch ? sender.address : ethersLib.ZeroAddress;
+      if (taskArguments.switch) {
+        const { interval } = await contract.switchOf(sender.address);
+        if (interval === 0n) {
+          throw new TaskError("INVALID_ARGUMENT", `Configure your dead man's switch first (heartbeat --interval 30d)`);
+        }
+        console.log(`🪦 Switch    : released if ${sender.address} misses a heartbeat (owner is public)`);
+      }
+
+      // Stealth sends go to a fresh one-time address; the recipient's address never appears on-chain
+      let stealth: ReturnType<typeof generateStealthAddress> | undefined;
+      if (taskArguments.stealth) {
+        const metaAddress = await contract.stealthMetaAddressOf(recipients[0]);
+        if (metaAddress === "0x") {
+          throw new TaskError(
+            "NOT_FOUND",
+            `${recipients[0]} has not published a stealth meta-address (see stealth-register)`,
+          );
+        }
+        stealth = generateStealthAddress(metaAddress);
+        console.log(`🕵️  Stealth   : ${stealth.stealthAddress}`);
+      }
+
+      // Every recipient's postage is escrowed with the send (stealth addresses charge none)
+      const postage = stealth ? 0n : await client.postageFor(recipients);
+      if (postage > 0n) {
+        console.log(`💰 Postage   : ${ethersLib.formatEther(postage)} ETH (refunded when read)`);
+      }
+      if (taskArguments.anonymous) {
+        console.log(`🕶️  Anonymous : one-time account, gas sponsored by relayer ${taskArguments.relayer}`);
+      }
+
+      // The client encrypts the sender and key, takes the next outbox slots and picks the send method
+      console.log(`\n🔒 Encrypting sender and key with FHE...`);
+      const result = await client.send({
+        recipients,
+        cid: taskArguments.cid,
+        key: keyHex,
+        hideCid: taskArguments.hideCid,
+        ttl,
+        unlockAt,
+        switchOwner,
+        approval,
+        stealth,
+        sponsor: taskArguments.anonymous
+          ? (signedTransaction) => sponsorViaRelayer(taskArguments.relayer, signedTransaction)
+          : undefined,
+      });
+      console.log(`✅ ${taskArguments.anonymous ? "Sponsored" : "Confirmed"} transaction: ${result.txHash}`);
+      const messageIds = result.messageIds;
+
+      console.log(`\n📨 Message ID${messageIds.length > 1 ? "s" : ""}: ${messageIds.join(", ")}`);
+      console.log(`\n🎉 Message sent${taskArguments.anonymous ? " anonymously" : " successfully"}!`);
+      console.log(`   Only ${recipients.join(", ")} can decrypt this message.\n`);
+      if (stealth) {
+        console.log(`   The recipient finds it with confidential-transmission:stealth-scan.\n`);
+      }
+      if (unlockAt > 0) {
+        console.log(`   The key is released with confidential-transmission:unlock after the unlock time.\n`);
+      }
+      if (taskArguments.switch) {
+        console.log(`   Keep checking in with confidential-transmission:heartbeat to hold it back.\n`);
+      }
+      if (threshold > 0) {
+        console.log(`   The key is released once ${threshold} approver(s) run confidential-transmission:approve.\n`);
+      }
+
+      return {
+        txHash: result.txHash,
+        messageIds: messageIds.map((id) => id.toString()),
+        recipients,
+        stealthAddress: stealth?.stealthAddress ?? null,
+        postage: result.postage.toString(),
+        anonymous: Boolean(taskArguments.anonymous),
+      };
+    }),
+  );
+
+/**
+ * Encrypt a local file, store its envelope and send it in one step
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:send-file --file ./report.pdf --recipient 0x...
+ *   npx hardhat --network localhost confidential-transmission:send-file --file ./report.pdf --recipient 0x... --storage ipfs
+ *
+ * The envelope is the one the React app produces, so the recipient can open the file in the browser
+ * or with the read task. See tasks/envelope.ts for the storage backends and their configuration.
+ */
+task("confidential-transmission:send-file", "Encrypt a local file, upload it and send it to an address")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("file", "Path of the file to send")
+  .addParam("recipient", "The recipient's Ethereum address")
+  .addOptionalParam(
+    "storage",
+    `Where to store the envelope: ${STORAGE_BACKENDS.join(" or ")} (default: STORAGE_BACKEND var)`,
+  )
+  .addOptionalParam("ttl", "Time until the message expires, e.g. 3600, 90m, 24h or 7d (default: never)")
+  .addOptionalParam("unlockAt", "Keep the key sealed until this time, as unix seconds or an ISO date")
+  .addFlag("hideCid", "Store the CID FHE encrypted so only the recipient can see it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    if (!ethersLib.isAddress(taskArguments.recipient)) {
+      throw new Error(`Invalid recipient address: ${taskArguments.recipient}`);
+    }
+    const filePath = resolve(taskArguments.file);
+    const ttl = taskArguments.ttl ? parseDuration(taskArguments.ttl) : 0;
+    const unlockAt = taskArguments.unlockAt ? parseTime(taskArguments.unlockAt, "unlock time") : 0;
+    const storage = resolveStorageBackend(taskArguments.storage);
+
+    await fhevm.initializeCLIApi();
+
+    const client = await connectClient(hre, taskArguments.address, { storage });
+    const signers = await ethers.getSigners();
+    const sender = signers[0];
+
+    console.log(`\n📁 Sending Encrypted File`);
+    console.log(`============================`);
+    console.log(`📍 Contract  : ${client.address}`);
+    console.log(`✍️  Sender    : ${sender.address}`);
+    console.log(`👤 Recipient : ${taskArguments.recipient}`);
+
+    // 1. Encrypt the file with a fresh AES key and store its envelope
+    const { envelope, key } = await encryptFile(filePath);
+    console.log(`📄 File      : ${envelope.filename} (${envelope.size} bytes, ${envelope.type})`);
+    console.log(`\n📤 Uploading encrypted envelope to ${storage.name}...`);
+    const cid = await storage.upload(envelope);
+    console.log(`📦 IPFS CID  : ${cid}${taskArguments.hideCid ? " (hidden)" : ""}`);
+
+    // 2. FHE-encrypt the sender and key, and send it with any postage the recipient requires
+    console.log(`\n🔒 Encrypting sender and key with FHE...`);
+    const result = await client.send({
+      recipients: [taskArguments.recipient],
+      cid,
+      key,
+      hideCid: taskArguments.hideCid,
+      ttl,
+      unlockAt,
+    });
+    if (result.postage > 0n) {
+      console.log(`💰 Postage   : ${ethersLib.formatEther(result.postage)} ETH (refunded when read)`);
+    }
+    console.log(`✅ Transaction confirmed: ${result.txHash}`);
+
+    console.log(`\n📨 Message ID: ${result.messageIds[0]}`);
+    console.log(`\n🎉 File sent! Only ${taskArguments.recipient} can decrypt it.\n`);
+  });
+
+/**
+ * Encrypt, upload and send many files in as few transactions as possible
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:send-batch --manifest ./batch.csv
+ *   npx hardhat --network localhost confidential-transmission:send-batch --manifest ./batch.json --chunk-size 4
+ *
+ * batch.csv:
+ *   recipient,file
+ *   0x70997970C51812dc3A010C7d01b50e0d17dc79C8,./report.pdf
+ *   0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC,./notes.txt
+ *
+ * Envelopes are pinned through Pinata (npx hardhat vars set PINATA_API_KEY / PINATA_SECRET_KEY) or,
+ * with --storage ipfs, added to the IPFS node at IPFS_API_URL (see tasks/envelope.ts)
+ */
+task("confidential-transmission:send-batch", "Encrypt, upload and send the files listed in a manifest")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("manifest", "CSV (recipient,file) or JSON ([{ recipient, file }]) manifest of files to send")
+  .addOptionalParam("chunkSize", `Messages per transaction (at most ${MAX_BATCH_SIZE})`, `${MAX_BATCH_SIZE}`)
+  .addOptionalParam("maxGas", "Gas budget per transaction; larger chunks are split (default: half the block gas limit)")
+  .addOptionalParam("ttl", "Time until the messages expire, e.g. 3600, 90m, 24h or 7d (default: never)")
+  .addOptionalParam("unlockAt", "Keep the keys sealed until this time, as unix seconds or an ISO date")
+  .addOptionalParam(
+    "storage",
+    `Where to store the envelopes: ${STORAGE_BACKENDS.join(" or ")} (default: STORAGE_BACKEND var)`,
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const entries = parseManifest(resolve(taskArguments.manifest));
+    const chunkSize = parseInt(taskArguments.chunkSize);
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_BATCH_SIZE) {
+      throw new Error(`--chunk-size must be between 1 and ${MAX_BATCH_SIZE}`);
+    }
+    const maxGas = taskArguments.maxGas ? BigInt(taskArguments.maxGas) : undefined;
+    const ttl = taskArguments.ttl ? parseDuration(taskArguments.ttl) : 0;
+    const unlockAt = taskArguments.unlockAt ? parseTime(taskArguments.unlockAt, "unlock time") : 0;
+
+    const storage = resolveStorageBackend(taskArguments.storage);
+
+    await fhevm.initializeCLIApi();
+
+    const client = await connectClient(hre, taskArguments.address, { storage });
+    const signers = await ethers.getSigners();
+    const sender = signers[0];
+
+    console.log(`\n📦 Sending Encrypted Batch`);
+    console.log(`==========================`);
+    console.log(`📍 Contract  : ${client.address}`);
+    console.log(`✍️  Sender    : ${sender.address}`);
+    console.log(`📄 Manifest  : ${entries.length} file(s)`);
+    console.log(`🗄️  Storage   : ${storage.name}`);
+
+    // 1. Encrypt every file with a fresh AES key and store its envelope
+    const messages: BatchMessage[] = [];
+    for (const entry of entries) {
+      const { envelope, key } = await encryptFile(entry.file);
+      const cid = await storage.upload(envelope);
+      messages.push({ recipient: entry.recipient, cid, key });
+      console.log(`📤 ${envelope.filename} (${envelope.size} bytes) -> ${cid} for ${entry.recipient}`);
+    }
+
+    // 2. Send the keys in chunks that share one encrypted input; chunks over the gas budget are halved
+    console.log(`\n🔒 Sending ${messages.length} message(s) in chunks of up to ${chunkSize}...`);
+    const results = await client.sendBatch(messages, { ttl, unlockAt, chunkSize, maxGas });
+    for (const result of results) {
+      const postage = result.postage > 0n ? `, ${ethersLib.formatEther(result.postage)} ETH postage` : "";
+      console.log(`✅ ${result.messageIds.length} message(s) in ${result.txHash}${postage}`);
+    }
+
+    const messageIds = results.flatMap((result) => result.messageIds);
+    console.log(`\n📨 Message IDs: ${messageIds.join(", ")}`);
+    console.log(`\n🎉 Sent ${messageIds.length} message(s)!\n`);
+  });
+
+/**
+ * List received messages
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:list
+ *   npx hardhat --network localhost confidential-transmission:list --for 0x...
+ *   npx hardhat --network localhost confidential-transmission:list --sent
+ *   npx hardhat --network localhost confidential-transmission:list --since 2025-01-01 --include-deleted
+ *   npx hardhat --network localhost confidential-transmission:list --order newest --limit 10 --offset 20 --json
+ *
+ * --since and --until take unix seconds or an ISO date (--until is exclusive). The contract's paged
+ * views apply them, and --order, --offset and --limit page through the matches on-chain: the task
+ * stops calling the views once the page is full.
+ *
+ * JSON result: { mailbox, account, total, offset, limit, order, messages }, where `total` counts the
+ * messages in the mailbox before filtering and each message is a MessageJson (see tasks/output.ts) plus `senderFilter`
+ * ("passed", "blocked" or null), `outboxIndex`, `readStatus` and `replies` (sent messages only, else null).
+ */
+task("confidential-transmission:list", "List received messages")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("for", "Optionally specify an address to list messages for (defaults to first signer)")
+  .addFlag("sent", "List the first signer's private outbox instead of received messages (not with --for)")
+  .addFlag("includeDeleted", "Also list deleted messages, flagged as such")
+  .addOptionalParam("since", "Only messages sent at or after this time (unix seconds or an ISO date)")
+  .addOptionalParam("until", "Only messages sent before this time (unix seconds or an ISO date)")
+  .addOptionalParam("order", "Sort order: oldest or newest first", "oldest")
+  .addOptionalParam("offset", "Skip this many messages", "0")
+  .addOptionalParam("limit", "List at most this many messages (default: all)")
+  .addFlag("json", JSON_FLAG)
+  .setAction(
+    jsonOutput(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, fhevm } = hre;
+
+      const filter = {
+        includeDeleted: Boolean(taskArguments.includeDeleted),
+        since: taskArguments.since ? parseTime(taskArguments.since, "--since time") : 0,
+        until: taskArguments.until ? parseTime(taskArguments.until, "--until time") : 0,
+      };
+      if (filter.until > 0 && filter.until <= filter.since) {
+        throw new TaskError("INVALID_ARGUMENT", `--until must be later than --since`);
+      }
+      if (!LIST_ORDERS.includes(taskArguments.order)) {
+        throw new TaskError("INVALID_ARGUMENT", `Invalid order: ${taskArguments.order} (expected oldest or newest)`);
+      }
+      const offset = parseCount(taskArguments.offset, "--offset");
+      const limit = taskArguments.limit !== undefined ? parseCount(taskArguments.limit, "--limit") : undefined;
+      const page = { offset, limit, order: taskArguments.order };
+      // The outbox can only be rebuilt by its owner
+      if (taskArguments.sent && taskArguments.for) {
+        throw new TaskError("INVALID_ARGUMENT", `--sent lists your own outbox and cannot be combined with --for`);
+      }
+
+      const client = await connectClient(hre, taskArguments.address);
+      const views = await client.getViews();
+      const signers = await ethers.getSigners();
+      const queryAddress = taskArguments.for || signers[0].address;
+      if (!ethersLib.isAddress(queryAddress)) {
+        throw new TaskError("INVALID_ARGUMENT", `Invalid address: ${queryAddress}`);
+      }
+
+      // Outbox entries keep their index, which the read receipt wallet is derived from
+      let entries: { index: number; metadata: MessageMetadata }[];
+      let total: number;
+      let showFilter = false;
+      const account = taskArguments.sent ? signers[0].address : ethersLib.getAddress(queryAddress);
+      if (taskArguments.sent) {
+        console.log(`\n📨 Sent Messages for ${account}`);
+        console.log(`====================================`);
+
+        ({ entries, total } = await client.listSentPage(filter, page));
+
+        // Read receipts are decrypted with the per-message reader wallet
+        await fhevm.initializeCLIApi();
+      } else {
+        console.log(`\n📬 Received Messages for ${account}`);
+        console.log(`====================================`);
+
+        const inbox = await client.listPage(filter, page, account);
+        entries = inbox.messages.map((metadata, index) => ({ index, metadata }));
+        total = inbox.total;
+
+        // Sender filter results can only be decrypted by the inbox owner
+        showFilter = account === signers[0].address;
+        if (showFilter) {
+          await fhevm.initializeCLIApi();
+        }
+      }
+
+      if (total === 0) {
+        console.log(`\n   No messages ${taskArguments.sent ? "sent" : "received"} yet.\n`);
+      } else {
+        console.log(`\n   Total messages: ${total}`);
+        if (entries.length < total) {
+          console.log(`   Showing ${entries.length} matching from offset ${offset}`);
+        }
+        console.log(``);
+      }
+
+      const messages: ListedMessageJson[] = [];
+      for (const { index, metadata } of entries) {
+        const messageId = metadata.id;
+        const listed: ListedMessageJson = {
+          ...messageJson(metadata),
+          senderFilter: null,
+          outboxIndex: null,
+          readStatus: null,
+          replies: null,
+        };
+
+        console.log(`   📨 Message ID: ${messageId}`);
+        if (taskArguments.sent) {
+          console.log(`      👤 To       : ${metadata.recipient}`);
+        }
+        console.log(`      📦 CID      : ${contentCIDOf(metadata.contentDigest) || "Hidden (decrypt with read)"}`);
+        console.log(`      ⏰ Time     : ${new Date(Number(metadata.timestamp) * 1000).toLocaleString()}`);
+        console.log(`      🗑️  Deleted  : ${metadata.isDeleted ? "Yes" : "No"}`);
+        if (metadata.isRecalled) {
+          console.log(`      ↩️  Recalled : Yes`);
+        }
+        if (metadata.inReplyTo > 0n) {
+          console.log(`      ↪️  Reply to : #${metadata.inReplyTo - 1n}`);
+        }
+        if (metadata.isSpam) {
+          console.log(`      🚮 Spam     : Yes`);
+        } else if (metadata.postage > 0n) {
+          console.log(`      💰 Postage  : ${ethersLib.formatEther(metadata.postage)} ETH (escrowed)`);
+        }
+        if (showFilter && metadata.isAllowed !== ethersLib.ZeroHash) {
+          const isAllowed = await fhevm.userDecryptEbool(metadata.isAllowed, client.address, signers[0]);
+          listed.senderFilter = isAllowed ? "passed" : "blocked";
+          console.log(`      🛡️  Filter   : ${isAllowed ? "Passed" : "Blocked"}`);
+        }
+        if (taskArguments.sent) {
+          const status = await client.readStatus(messageId, index);
+          console.log(`      📬 Status   : ${READ_STATUS_LABELS[status]}`);
+
+          const replies = await views.getReplies(messageId);
+          if (replies.length > 0) {
+            console.log(
+              `      💬 Replies  : ${replies.map((reply) => `#${reply.id}`).join(", ")} (read with --as-sender)`,
+            );
+          }
+          listed.outboxIndex = index;
+          listed.readStatus = status;
+          listed.replies = replies.map((reply) => reply.id.toString());
+        }
+        if (metadata.expiresAt > 0n) {
+          const expiry = new Date(Number(metadata.expiresAt) * 1000).toLocaleString();
+          console.log(`      ⏳ Expires  : ${metadata.isExpired ? `Expired (${expiry})` : expiry}`);
+        }
+        if (metadata.unlockAt > 0n) {
+          const unlockTime = new Date(Number(metadata.unlockAt) * 1000).toLocaleString();
+          console.log(
+            `      🔒 Unlocks  : ${metadata.isLocked ? `Locked until ${unlockTime}` : `Unlocked (${unlockTime})`}`,
+          );
+        }
+        if (metadata.switchOwner !== ethersLib.ZeroAddress) {
+          const releaseTime = new Date(Number(metadata.releasableAt) * 1000).toLocaleString();
+          console.log(
+            `      🪦 Switch   : ${metadata.isLocked ? `Releasable from ${releaseTime} without a heartbeat` : "Released"}`,
+          );
+        }
+        if (metadata.approvalThreshold > 0n) {
+          console.log(`      ✅ Approved : ${metadata.approvals} of ${metadata.approvalThreshold} required`);
+        }
+        console.log(``);
+        messages.push(listed);
+      }
+
+      return {
+        mailbox: taskArguments.sent ? "sent" : "received",
+        account,
+        total,
+        offset,
+        limit: limit ?? null,
+        order: taskArguments.order,
+        messages,
+      };
+    }),
+  );
+
+/**
+ * Read and decrypt a message
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:read --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:read --message-id 0 --stealth --anonymous
+ *   npx hardhat --network localhost confidential-transmission:read --message-id 0 --json
+ *
+ * The first read opens the message on-chain, which grants the key. Stealth and outbox reader wallets
+ * hold no ETH, so they sign the open request and --anonymous submits it through the relayer; without
+ * it your account submits it, which links it to the wallet.
+ *
+ * JSON result: { id, reader, inbox, sender, senderVerified, key, cid, isCIDHidden, timestamp, receiptTxHash },
+ * with a null sender when it was withheld on forwarding and a null receiptTxHash without --acknowledge
+ */
+task("confidential-transmission:read", "Read and decrypt a message")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to read")
+  .addFlag("acknowledge", "Send an encrypted read receipt to the sender (and refund any postage) after decrypting")
+  .addFlag("asSender", "Read a reply to one of your messages using the reader wallet from your outbox")
+  .addFlag("stealth", "Read a message sent to one of your stealth addresses")
+  .addFlag("anonymous", "Submit the open request of a --stealth or --as-sender wallet through the relayer")
+  .addOptionalParam("relayer", "Relayer service URL used with --anonymous", "http://127.0.0.1:8787")
+  .addFlag("json", JSON_FLAG)
+  .setAction(
+    jsonOutput(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, fhevm } = hre;
+
+      const messageId = parseInt(taskArguments.messageId);
+      if (!Number.isInteger(messageId) || messageId < 0) {
+        throw new TaskError("INVALID_ARGUMENT", `Invalid message ID: ${taskArguments.messageId}`);
+      }
+      if ((taskArguments.asSender || taskArguments.stealth) && taskArguments.acknowledge) {
+        throw new TaskError("INVALID_ARGUMENT", `--acknowledge cannot be combined with --as-sender or --stealth`);
+      }
+
+      await fhevm.initializeCLIApi();
+
+      const client = await connectClient(hre, taskArguments.address);
+      const contract = client.contract;
+      const signers = await ethers.getSigners();
+      if (BigInt(messageId) >= (await contract.messageCount())) {
+        throw new TaskError("NOT_FOUND", `Message #${messageId} does not exist`);
+      }
+
+      // Replies are addressed to the reader wallet derived for the original message's outbox slot
+      let reader: Signer = signers[0];
+      if (taskArguments.asSender) {
+        const { inReplyTo } = await contract.messages(messageId);
+        if (inReplyTo === 0n) {
+          throw new TaskError("NOT_FOUND", `Message #${messageId} is not a reply`);
+        }
+
+        const outboxSecret = await client.getOutboxSecret();
+        const { messageIds } = await loadOutbox(contract, outboxSecret);
+        const outboxIndex = messageIds.findIndex((id) => id === inReplyTo - 1n);
+        if (outboxIndex < 0) {
+          throw new TaskError("NOT_FOUND", `Message #${messageId} does not reply to a message in your outbox`);
+        }
+        reader = outboxReceiptReader(outboxSecret, outboxIndex).connect(ethers.provider);
+      } else if (taskArguments.stealth) {
+        // The stealth private key holds the message's FHE decryption rights
+        const { chainId } = await ethers.provider.getNetwork();
+        const keys = await deriveStealthKeys(signers[0], client.address, chainId);
+        const found = (await scanStealthInbox(contract, keys)).find((entry) => entry.messageId === BigInt(messageId));
+        if (!found) {
+          throw new TaskError("NOT_FOUND", `Message #${messageId} was not sent to one of your stealth addresses`);
+        }
+        reader = found.wallet.connect(ethers.provider);
+      }
+
+      console.log(`\n🔓 Reading Message #${messageId}`);
+      console.log(`============================`);
+      const readerLabel = taskArguments.asSender
+        ? " (outbox reader wallet)"
+        : taskArguments.stealth
+          ? " (stealth)"
+          : "";
+      console.log(`👤 Reader: ${await reader.getAddress()}${readerLabel}`);
+
+      // Delegates read the inbox owner's messages with their own account
+      const { recipient, isLocked, isOpened, unlockAt, switchOwner, contentDigest, timestamp } =
+        await contract.messages(messageId);
+      if (recipient !== (await reader.getAddress())) {
+        console.log(`👥 Inbox : ${recipient} (as delegate)`);
+      }
+
+      // Locked keys are only readable after `unlock`, `release` or the approvers' quorum
+      const [, approvalThreshold, approvals] = await contract.getApprovalGate(messageId);
+      if (isLocked && approvals < approvalThreshold) {
+        throw new TaskError(
+          "LOCKED",
+          `Message #${messageId} is awaiting approvals (${approvals} of ${approvalThreshold})`,
+        );
+      }
+      if (isLocked && switchOwner !== ethersLib.ZeroAddress) {
+        throw new TaskError(
+          "LOCKED",
+          `Message #${messageId} is held back by a dead man's switch (see the release task)`,
+        );
+      }
+      if (isLocked) {
+        const unlockTime = new Date(Number(unlockAt) * 1000).toLocaleString();
+        throw new TaskError(
+          "LOCKED",
+          `Message #${messageId} is locked until ${unlockTime} (release it with the unlock task)`,
+        );
+      }
+
+      console.log(`\n📦 Message Content:`);
+      console.log(`   IPFS CID : ${contentCIDOf(contentDigest) || "Hidden (FHE encrypted)"}`);
+      console.log(`   Timestamp: ${new Date(Number(timestamp) * 1000).toLocaleString()}`);
+
+      // Sender, sender verification (FHE.eq on-chain), key and any hidden CID in one decryption request
+      if (!isOpened) {
+        const via = taskArguments.anonymous ? ` via relayer ${taskArguments.relayer}` : "";
+        console.log(`\n📭 Opening the message${via}, which grants the key...`);
+      }
+      console.log(`\n🔐 Decrypting FHE data...`);
+      const relay = taskArguments.anonymous
+        ? (data: string) => submitViaRelayer(taskArguments.relayer, data)
+        : undefined;
+      const message = await client.open(BigInt(messageId), reader, relay);
+      const decryptedSender = message.sender;
+      const senderVerified = message.senderVerified;
+      const decryptedKey = message.key;
+      const contentCID = message.cid;
+
+      // Forwarded messages may carry an encrypted zero address instead of the original sender
+      const senderLabel = decryptedSender === ethersLib.ZeroAddress ? "Withheld (forwarded message)" : decryptedSender;
+      const verifiedLabel = senderVerified
+        ? "✅ Verified (submitted by this address)"
+        : "⚠️ Unverified (relayed anonymously or not submitted by this address)";
+
+      console.log(`\n✅ Decrypted Information:`);
+      console.log(`   👤 Sender: ${senderLabel}`);
+      if (decryptedSender !== ethersLib.ZeroAddress) {
+        console.log(`      ${verifiedLabel}`);
+      }
+      console.log(`   🔑 Key   : ${decryptedKey}`);
+      if (message.isCIDHidden) {
+        console.log(`   📦 CID   : ${contentCID}`);
+      }
+
+      let receiptTxHash: string | null = null;
+      if (taskArguments.acknowledge) {
+        console.log(`\n⏳ Sending read receipt...`);
+        const { txHash } = await client.acknowledge(BigInt(messageId));
+        receiptTxHash = txHash;
+        console.log(`✅ Read receipt sent (only the sender can decrypt it), postage refunded (${txHash})`);
+      }
+
+      console.log(`\n💡 Next Steps:`);
+      console.log(`   Download, verify and decrypt the file with:`);
+      console.log(`   npx hardhat confidential-transmission:receive --id ${messageId} --out .`);
+      console.log(``);
+
+      return {
+        id: messageId.toString(),
+        reader: await reader.getAddress(),
+        inbox: recipient,
+        sender: decryptedSender === ethersLib.ZeroAddress ? null : decryptedSender,
+        senderVerified,
+        key: decryptedKey,
+        cid: contentCID,
+        isCIDHidden: message.isCIDHidden,
+        timestamp: Number(timestamp),
+        receiptTxHash,
+      };
+    }),
+  );
+
+/**
+ * Download, verify and decrypt received files to disk
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:receive --id 0
+ *   npx hardhat --network localhost confidential-transmission:receive --id 0 --out ./inbox --acknowledge
+ *   npx hardhat --network localhost confidential-transmission:receive --all-unread --out ./inbox --acknowledge
+ *
+ * Every IPFS block is checked against the digest stored on-chain (see sdk/ipfs.ts), so the gateway
+ * cannot substitute the envelope. Unread messages are those you have not acknowledged, found by
+ * decrypting their read flags; pass --acknowledge so a batch run does not download them again.
+ */
+task("confidential-transmission:receive", "Download, verify and decrypt received files to disk")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("id", "The ID of the message to receive")
+  .addFlag("allUnread", "Receive every message in your inbox you have not acknowledged yet")
+  .addOptionalParam("out", "Directory to write the files to", ".")
+  .addOptionalParam("gateway", "Trustless IPFS gateway URL (default: IPFS_GATEWAY_URL var or https://ipfs.io)")
+  .addFlag("acknowledge", "Send an encrypted read receipt for every file written (and refund any postage)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    if ((taskArguments.id === undefined) === !taskArguments.allUnread) {
+      throw new Error(`Specify either --id or --all-unread`);
+    }
+    const gateway = resolveGateway(taskArguments.gateway);
+    const outDir = resolve(taskArguments.out);
+
+    await fhevm.initializeCLIApi();
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const reader = signers[0];
+    const client = await connectClient(hre, contractDeployment.address, { storage: gatewayStorage(gateway) });
+
+    console.log(`\n📥 Receiving Files`);
+    console.log(`============================`);
+    console.log(`👤 Reader  : ${reader.address}`);
+    console.log(`🌐 Gateway : ${gateway}`);
+    console.log(`📂 Output  : ${outDir}`);
+
+    let messageIds: bigint[];
+    if (taskArguments.id !== undefined) {
+      const messageId = parseInt(taskArguments.id);
+      if (!Number.isInteger(messageId) || messageId < 0) {
+        throw new Error(`Invalid message ID: ${taskArguments.id}`);
+      }
+      messageIds = [BigInt(messageId)];
+    } else {
+      // Decrypt the read flags of the readable messages rather than scanning MessageRead logs
+      const inbox = await client.list(VISIBLE_MESSAGES);
+      messageIds = await client.unacknowledged(
+        inbox
+          .filter((message) => !message.isExpired && !message.isRecalled && !message.isLocked)
+          .map((message) => message.id),
+      );
+      console.log(`📬 Unread  : ${messageIds.length} message(s)`);
+    }
+
+    mkdirSync(outDir, { recursive: true });
+
+    let received = 0;
+    for (const messageId of messageIds) {
+      try {
+        // Recover the key, the sender and a hidden CID, fetch the envelope block by block against
+        // the digest, then decrypt it
+        const { message, envelope, content } = await client.receive(messageId);
+        const sender = message.sender;
+
+        const { fileName, filePath } = writeReceivedFile(outDir, messageId, envelope, content);
+        received++;
+
+        const senderLabel = sender === ethersLib.ZeroAddress ? "a withheld sender" : sender;
+        console.log(`\n✅ #${messageId} ${fileName} (${envelope.size} bytes, ${envelope.type}) from ${senderLabel}`);
+        console.log(`   💾 ${filePath}`);
+
+        if (taskArguments.acknowledge) {
+          const { txHash } = await client.acknowledge(messageId);
+          console.log(`   📬 Read receipt sent (${txHash})`);
+        }
+      } catch (error) {
+        // A single message fails the task; a batch reports the failure and moves on
+        if (taskArguments.id !== undefined) {
+          throw error;
+        }
+        console.log(`\n❌ #${messageId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    console.log(`\n🎉 Received ${received} of ${messageIds.length} file(s)\n`);
+  });
+
+/** Most blocks `watch` queries events for in one request */
+const WATCH_BLOCK_RANGE = 1000;
+
+/** Progress a `watch` run saves after every block range, so a restart resumes where it stopped */
+interface WatchCheckpoint {
+  chainId: string;
+  contract: string;
+  recipient: string;
+  lastBlock: number;
+  /** IDs of received messages whose download failed and is retried on every poll */
+  pending: string[];
+}
+
+/**
+ * Load a `watch` checkpoint, if the file exists
+ * @throws If the checkpoint was written for another network, contract or inbox
+ */
+function loadCheckpoint(
+  path: string,
+  expected: Omit<WatchCheckpoint, "lastBlock" | "pending">,
+): WatchCheckpoint | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  const checkpoint = JSON.parse(readFileSync(path, "utf8")) as WatchCheckpoint;
+  for (const field of ["chainId", "contract", "recipient"] as const) {
+    if (String(checkpoint[field]).toLowerCase() !== expected[field].toLowerCase()) {
+      throw new Error(`Checkpoint ${path} is for ${field} ${checkpoint[field]}, not ${expected[field]}`);
+    }
+  }
+  if (!Number.isInteger(checkpoint.lastBlock) || checkpoint.lastBlock < 0) {
+    throw new Error(`Checkpoint ${path} has no valid lastBlock`);
+  }
+  // Checkpoints written before downloads were retried have no pending list
+  checkpoint.pending ??= [];
+  if (!Array.isArray(checkpoint.pending) || !checkpoint.pending.every((id) => /^\d+$/.test(String(id)))) {
+    throw new Error(`Checkpoint ${path} has an invalid pending list`);
+  }
+  return checkpoint;
+}
+
+/** Save a `watch` checkpoint through a temporary file, so an interrupted write never leaves it corrupted */
+function saveCheckpoint(path: string, checkpoint: WatchCheckpoint): void {
+  writeFileSync(`${path}.tmp`, JSON.stringify(checkpoint, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+/**
+ * Stream incoming messages as they arrive
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:watch
+ *   npx hardhat --network localhost confidential-transmission:watch --auto-download ./inbox
+ *   npx hardhat --network sepolia confidential-transmission:watch --for 0x7099...79C8 --interval 30
+ *
+ * Polls `MessageSent` and `MessageDeleted` events for the inbox and prints each one. The last
+ * processed block is saved to a checkpoint file after every range, so a restarted watcher (e.g. a
+ * server daemon) picks up exactly where it stopped; without a checkpoint it starts at --from-block,
+ * or the current block. Stop it with Ctrl+C or SIGTERM.
+ *
+ * With --auto-download, new files are verified, decrypted and saved as `receive` does. A delegate
+ * watching an owner's inbox (--for) can only download the messages it was given access to.
+ * Messages whose download fails (gateway down, still locked, ...) are kept in the checkpoint's
+ * pending list and retried on every poll until they are saved, or deleted, recalled or expired.
+ */
+task("confidential-transmission:watch", "Stream incoming messages as they arrive, optionally saving them")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("for", "Inbox to watch (defaults to first signer)")
+  .addOptionalParam("autoDownload", "Directory to download, verify and decrypt new files into")
+  .addOptionalParam("gateway", "Trustless IPFS gateway URL (default: IPFS_GATEWAY_URL var or https://ipfs.io)")
+  .addOptionalParam("checkpoint", "Checkpoint file (default: watch-<inbox>.checkpoint.json)")
+  .addOptionalParam("fromBlock", "Block to start from when there is no checkpoint (default: the current block)")
+  .addOptionalParam("interval", "Seconds between polls", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const signers = await ethers.getSigners();
+    const inbox = taskArguments.for || signers[0].address;
+    if (!ethersLib.isAddress(inbox)) {
+      throw new Error(`Invalid inbox address: ${inbox}`);
+    }
+    const interval = Number(taskArguments.interval);
+    if (!Number.isFinite(interval) || interval <= 0) {
+      throw new Error(`Invalid interval: ${taskArguments.interval}`);
+    }
+
+    const outDir = taskArguments.autoDownload ? resolve(taskArguments.autoDownload) : undefined;
+    const gateway = resolveGateway(taskArguments.gateway);
+    if (outDir) {
+      await fhevm.initializeCLIApi();
+      mkdirSync(outDir, { recursive: true });
+    }
+
+    const client = await connectClient(hre, taskArguments.address, { storage: gatewayStorage(gateway) });
+    const contract = client.contract;
+
+    const network = await ethers.provider.getNetwork();
+    const scope = { chainId: network.chainId.toString(), contract: client.address, recipient: inbox };
+    const checkpointPath = resolve(taskArguments.checkpoint ?? `watch-${inbox.toLowerCase()}.checkpoint.json`);
+    const checkpoint = loadCheckpoint(checkpointPath, scope);
+
+    let lastBlock: number;
+    if (checkpoint) {
+      lastBlock = checkpoint.lastBlock;
+    } else if (taskArguments.fromBlock !== undefined) {
+      const fromBlock = parseInt(taskArguments.fromBlock);
+      if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+        throw new Error(`Invalid block: ${taskArguments.fromBlock}`);
+      }
+      lastBlock = fromBlock - 1;
+    } else {
+      lastBlock = await ethers.provider.getBlockNumber();
+    }
+    const pending = new Set<bigint>((checkpoint?.pending ?? []).map((id) => BigInt(id)));
+    const save = () => saveCheckpoint(checkpointPath, { ...scope, lastBlock, pending: [...pending].map(String) });
+
+    console.log(`\n👀 Watching Inbox`);
+    console.log(`============================`);
+    console.log(`📬 Inbox      : ${inbox}`);
+    console.log(`📝 Checkpoint : ${checkpointPath}${checkpoint ? ` (resuming after block ${lastBlock})` : ""}`);
+    if (pending.size > 0) {
+      console.log(`🔁 Pending    : ${[...pending].map((id) => `#${id}`).join(", ")}`);
+    }
+    console.log(`🧱 From block : ${lastBlock + 1}`);
+    if (outDir) {
+      console.log(`🌐 Gateway    : ${gateway}`);
+      console.log(`📂 Output     : ${outDir}`);
+    }
+    console.log(`\n⏳ Waiting for messages (Ctrl+C to stop)...`);
+
+    // Stop between polls on Ctrl+C or SIGTERM, waking any pending sleep
+    let stopping = false;
+    let wake: () => void = () => {};
+    const stop = () => {
+      stopping = true;
+      wake();
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+
+    /**
+     * Download, verify and decrypt a message into the output directory
+     * @returns "retry" if it failed in a way a later poll may fix, "done" once saved or when the
+     *   watcher has no access to it
+     */
+    const download = async (messageId: bigint): Promise<"done" | "retry"> => {
+      try {
+        const { message, envelope, content } = await client.receive(messageId);
+        const { fileName, filePath } = writeReceivedFile(outDir!, messageId, envelope, content);
+        const senderLabel = message.sender === ethersLib.ZeroAddress ? "a withheld sender" : message.sender;
+        console.log(`   ✅ ${fileName} (${envelope.size} bytes, ${envelope.type}) from ${senderLabel}`);
+        console.log(`   💾 ${filePath}`);
+        return "done";
+      } catch (error) {
+        console.log(`   ❌ Not downloaded: ${error instanceof Error ? error.message : String(error)}`);
+        // A delegate without access to this message will not gain it by retrying
+        return describeError(error).reason === "Not authorized" ? "done" : "retry";
+      }
+    };
+
+    /** Retry the pending downloads; locked messages wait quietly, unreadable ones are dropped */
+    const retryPending = async () => {
+      for (const messageId of pending) {
+        const { isDeleted, isExpired, isRecalled } = await contract.getMessageMetadata(messageId);
+        if (isDeleted || isExpired || isRecalled) {
+          const reason = isDeleted ? "deleted" : isRecalled ? "recalled" : "expired";
+          console.log(`\n🚫 #${messageId} ${reason}, no longer retried`);
+          pending.delete(messageId);
+        } else if (!(await contract.messages(messageId)).isLocked) {
+          console.log(`\n🔁 Retrying #${messageId}`);
+          if ((await download(messageId)) === "done") {
+            pending.delete(messageId);
+          }
+        }
+      }
+      save();
+    };
+
+    try {
+      while (!stopping) {
+        try {
+          if (outDir && pending.size > 0) {
+            await retryPending();
+          }
+
+          const latest = await ethers.provider.getBlockNumber();
+          while (lastBlock < latest && !stopping) {
+            const from = lastBlock + 1;
+            const to = Math.min(from + WATCH_BLOCK_RANGE - 1, latest);
+            const sent = await contract.queryFilter(contract.filters.MessageSent(undefined, inbox), from, to);
+            const deleted = await contract.queryFilter(contract.filters.MessageDeleted(undefined, inbox), from, to);
+
+            // Replay both kinds of event in chain order
+            const events = [
+              ...sent.map((event) => ({ kind: "sent" as const, event })),
+              ...deleted.map((event) => ({ kind: "deleted" as const, event })),
+            ].sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.index - b.event.index);
+
+            for (const entry of events) {
+              const { blockNumber } = entry.event;
+              const messageId = entry.event.args.messageId;
+              if (entry.kind === "deleted") {
+                console.log(`\n🗑️  #${messageId} deleted (block ${blockNumber})`);
+                pending.delete(messageId);
+                continue;
+              }
+
+              const { contentDigest, timestamp } = entry.event.args;
+              const cid = contentDigest === ethersLib.ZeroHash ? "hidden" : contentCIDOf(contentDigest);
+              console.log(`\n📩 #${messageId} received ${new Date(Number(timestamp) * 1000).toLocaleString()}`);
+              console.log(`   🔗 CID: ${cid} (block ${blockNumber})`);
+
+              // A message that cannot be opened yet (locked, gateway down, ...) is retried on later polls
+              if (outDir && (await download(messageId)) === "retry") {
+                pending.add(messageId);
+              }
+            }
+
+            lastBlock = to;
+            save();
+          }
+        } catch (error) {
+          // RPC hiccups are retried on the next poll; the checkpoint only moves past processed ranges
+          console.log(`\n⚠️  Poll failed, retrying: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (!stopping) {
+          await new Promise<void>((resolveSleep) => {
+            const timer = setTimeout(resolveSleep, interval * 1000);
+            wake = () => {
+              clearTimeout(timer);
+              resolveSleep();
+            };
+          });
+        }
+      }
+    } finally {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+    }
+
+    console.log(`\n👋 Stopped after block ${lastBlock}\n`);
+  });
+
+/**
+ * Delete a message
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:delete --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:delete --message-id 0 --json
+ *
+ * JSON result: { id, deleter, txHash }
+ */
+task("confidential-transmission:delete", "Delete a message (soft delete)")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to delete")
+  .addFlag("json", JSON_FLAG)
+  .setAction(
+    jsonOutput(async function (taskArguments: TaskArguments, hre) {
+      const { ethers } = hre;
+
+      const messageId = parseInt(taskArguments.messageId);
+      if (!Number.isInteger(messageId) || messageId < 0) {
+        throw new TaskError("INVALID_ARGUMENT", `Invalid message ID: ${taskArguments.messageId}`);
+      }
+
+      const signers = await ethers.getSigners();
+      const deleter = signers[0];
+      const client = await connectClient(hre, taskArguments.address, { signer: deleter });
+
+      console.log(`\n🗑️  Deleting Message #${messageId}`);
+      console.log(`============================`);
+      console.log(`👤 Deleter: ${deleter.address}`);
+
+      const { txHash } = await client.delete(BigInt(messageId));
+      console.log(`✅ Message deleted successfully!`);
+      console.log(`   Transaction: ${txHash}`);
+      console.log(``);
+
+      return { id: messageId.toString(), deleter: deleter.address, txHash };
+    }),
+  );
+
+/**
+ * Recall a message you sent
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:recall --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:recall --message-id 0 --anonymous
+ */
+task("confidential-transmission:recall", "Recall a message you sent (sender only)")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to recall")
+  .addFlag("anonymous", "Submit through the relayer so the recall does not reveal you as the sender")
+  .addOptionalParam("relayer", "Relayer service URL used with --anonymous", "http://127.0.0.1:8787")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    }
+
+    const signers = await ethers.getSigners();
+    const sender = signers[0];
+    const client = await connectClient(hre, taskArguments.address, { signer: sender });
+
+    console.log(`\n↩️  Recalling Message #${messageId}`);
+    console.log(`============================`);
+    console.log(`👤 Sender: ${sender.address}`);
+
+    // The client locates the message in the private outbox to recover its recall key
+    const { txHash } = await client.recall(
+      BigInt(messageId),
+      taskArguments.anonymous ? (data) => submitViaRelayer(taskArguments.relayer, data) : undefined,
+    );
+    console.log(`✅ Message recalled ${taskArguments.anonymous ? "anonymously" : "successfully"}!`);
+    console.log(`   Transaction: ${txHash}`);
+    console.log(``);
+  });
+
+/**
+ * Reply to a received message without learning its sender
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:reply --message-id 0 \
+ *     --cid QmUEFmLPVpC38QkqZu4fFtcKimJRv5Wr95vAztHG15cUBn --key 0x5678...
+ *   npx hardhat --network localhost confidential-transmission:reply --hide-cid ...
+ */
+task("confidential-transmission:reply", "Reply to a received message (recipient only)")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to reply to")
+  .addParam("cid", "IPFS CID of the encrypted reply content")
+  .addParam("key", "AES-256 decryption key (32 bytes hex)")
+  .addFlag("hideCid", "Store the CID FHE encrypted so only the original sender can see it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    }
+
+    // Validate key format
+    const keyHex = taskArguments.key.startsWith("0x") ? taskArguments.key : `0x${taskArguments.key}`;
+    if (keyHex.length !== 66) {
+      throw new Error(`Invalid key length. Expected 32 bytes (64 hex chars), got ${(keyHex.length - 2) / 2} bytes`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const replier = signers[0];
+    const client = await connectClient(hre, taskArguments.address, { signer: replier });
+
+    console.log(`\n💬 Replying to Message #${messageId}`);
+    console.log(`============================`);
+    console.log(`👤 Replier  : ${replier.address}`);
+    console.log(`📦 IPFS CID : ${taskArguments.cid}${taskArguments.hideCid ? " (hidden)" : ""}`);
+
+    // The contract routes the reply to the sender's reader address; the replier never sees it resolved.
+    // Reader addresses can set no postage of their own, but the reply still pays whatever is required.
+    const { txHash, replyId, postage } = await client.reply(BigInt(messageId), {
+      cid: taskArguments.cid,
+      key: keyHex,
+      hideCid: taskArguments.hideCid,
+    });
+    if (postage > 0n) {
+      console.log(`💰 Postage  : ${ethersLib.formatEther(postage)} ETH`);
+    }
+
+    console.log(`✅ Reply sent successfully!`);
+    console.log(`   Transaction: ${txHash}`);
+    console.log(`\n📨 Reply ID: ${replyId}`);
+    console.log(``);
+  });
+
+/**
+ * Forward a received message to a new address
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:forward --message-id 0 --to 0x...
+ *   npx hardhat --network localhost confidential-transmission:forward --message-id 0 --to 0x... --withhold-sender
+ */
+task("confidential-transmission:forward", "Forward a received message to a new address (recipient only)")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to forward")
+  .addParam("to", "The address to forward the message to")
+  .addFlag("withholdSender", "Hide the original sender from the new recipient")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    }
+    if (!ethersLib.isAddress(taskArguments.to)) {
+      throw new Error(`Invalid recipient address: ${taskArguments.to}`);
+    }
+
+    const signers = await ethers.getSigners();
+    const forwarder = signers[0];
+    const client = await connectClient(hre, taskArguments.address, { signer: forwarder });
+
+    console.log(`\n📤 Forwarding Message #${messageId}`);
+    console.log(`============================`);
+    console.log(`👤 From     : ${forwarder.address}`);
+    console.log(`👤 To       : ${taskArguments.to}`);
+    console.log(`🕶️  Sender   : ${taskArguments.withholdSender ? "Withheld" : "Kept"}`);
+
+    // The content CID and FHE key handle are reused, so nothing is re-encrypted or re-uploaded.
+    // The forwarder pays the new recipient's postage and gets it back when the copy is read.
+    const {
+      txHash,
+      messageId: newMessageId,
+      postage,
+    } = await client.forward(BigInt(messageId), taskArguments.to, Boolean(taskArguments.withholdSender));
+    if (postage > 0n) {
+      console.log(`💰 Postage  : ${ethersLib.formatEther(postage)} ETH`);
+    }
+
+    console.log(`✅ Message forwarded successfully!`);
+    console.log(`   Transaction: ${txHash}`);
+    console.log(`\n📨 New Message ID: ${newMessageId}`);
+    console.log(``);
+  });
+
+/**
+ * Publish your stealth meta-address
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:stealth-register
+ *   npx hardhat --network localhost confidential-transmission:stealth-register --clear
+ */
+task("confidential-transmission:stealth-register", "Publish the meta-address senders derive stealth addresses from")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addFlag("clear", "Remove your published meta-address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const owner = signers[0];
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    let metaAddress = "0x";
+    if (!taskArguments.clear) {
+      const { chainId } = await ethers.provider.getNetwork();
+      metaAddress = stealthMetaAddress(await deriveStealthKeys(owner, contractDeployment.address, chainId));
+    }
+
+    console.log(`\n🕵️  Publishing Stealth Meta-Address`);
+    console.log(`============================`);
+    console.log(`👤 Owner        : ${owner.address}`);
+    console.log(`🔑 Meta-address : ${taskArguments.clear ? "(cleared)" : `st:eth:${metaAddress}`}`);
+
+    const tx = await contract.connect(owner).setStealthMetaAddress(metaAddress);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Meta-address ${taskArguments.clear ? "cleared" : "published"}!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(``);
+  });
+
+/**
+ * Find messages sent to your stealth addresses
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:stealth-scan
+ *   npx hardhat --network sepolia confidential-transmission:stealth-scan --from-block 6000000
+ */
+task("confidential-transmission:stealth-scan", "Scan announcements for messages sent to your stealth addresses")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("fromBlock", "First block to scan", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    console.log(`\n🕵️  Stealth Messages for ${signers[0].address}`);
+    console.log(`====================================`);
+
+    // Announcements are matched locally; the viewing key never leaves this machine
+    const { chainId } = await ethers.provider.getNetwork();
+    const keys = await deriveStealthKeys(signers[0], contractDeployment.address, chainId);
+    const found = await scanStealthInbox(contract, keys, Number(taskArguments.fromBlock));
+
+    if (found.length === 0) {
+      console.log(`\n   No stealth messages found.\n`);
+      return;
+    }
+
+    console.log(`\n   Total messages: ${found.length}\n`);
+
+    for (const { messageId, wallet } of found) {
+      const [, contentDigest, timestamp, isDeleted, , isExpired, isRecalled] =
+        await contract.getMessageMetadata(messageId);
+
+      console.log(`   📨 Message ID: ${messageId}`);
+      console.log(`      🕵️  Address  : ${wallet.address}`);
+      console.log(`      📦 CID      : ${contentCIDOf(contentDigest) || "Hidden (decrypt with read --stealth)"}`);
+      console.log(`      ⏰ Time     : ${new Date(Number(timestamp) * 1000).toLocaleString()}`);
+      console.log(`      🗑️  Deleted  : ${isDeleted ? "Yes" : "No"}`);
+      if (isRecalled) {
+        console.log(`      ↩️  Recalled : Yes`);
+      }
+      if (isExpired) {
+        console.log(`      ⏳ Expired  : Yes`);
+      }
+      console.log(``);
+    }
+  });
+
+/**
+ * Show or set the postage an inbox requires
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:postage
+ *   npx hardhat --network localhost confidential-transmission:postage --amount 0.001
+ *   npx hardhat --network localhost confidential-transmission:postage --for 0x...
+ */
+task("confidential-transmission:postage", "Show or set the postage required to message an inbox")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("amount", "New postage for your inbox in ETH (0 = free)")
+  .addOptionalParam("for", "Optionally specify an inbox to show (defaults to first signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    if (taskArguments.amount === undefined) {
+      const owner = taskArguments.for || signers[0].address;
+      const postage = await contract.postageOf(owner);
+      console.log(`\n💰 Postage for ${owner}: ${postage > 0n ? `${ethersLib.formatEther(postage)} ETH` : "None"}\n`);
+      return;
+    }
+
+    const amount = ethersLib.parseEther(taskArguments.amount);
+
+    console.log(`\n💰 Setting Inbox Postage`);
+    console.log(`============================`);
+    console.log(`👤 Owner  : ${signers[0].address}`);
+    console.log(`💵 Amount : ${ethersLib.formatEther(amount)} ETH`);
+
+    const tx = await contract.connect(signers[0]).setPostage(amount);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Postage updated!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(``);
+  });
+
+/**
+ * Sweep postage refunds from the first signer's outbox reader wallets
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:postage-claim
+ *   npx hardhat --network localhost confidential-transmission:postage-claim --to 0x...
+ */
+task("confidential-transmission:postage-claim", "Collect postage refunds paid to your outbox reader wallets")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("to", "Address to collect the refunds at (defaults to first signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const destination = taskArguments.to || signers[0].address;
+    if (!ethersLib.isAddress(destination)) {
+      throw new Error(`Invalid destination address: ${destination}`);
+    }
+
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    console.log(`\n💰 Claiming Postage Refunds`);
+    console.log(`============================`);
+    console.log(`👤 To: ${destination}`);
+    // Every claim transfer links a reader wallet to the destination on-chain
+    console.log(`⚠️  Claiming links these messages to the destination address`);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const outboxSecret = await deriveOutboxSecret(signers[0], contractDeployment.address, chainId);
+    const { nextIndex } = await loadOutbox(contract, outboxSecret);
+
+    const { gasPrice } = await ethers.provider.getFeeData();
+    const transferCost = 21000n * (gasPrice ?? 0n);
+
+    let claimed = 0n;
+    for (let index = 0; index < nextIndex; index++) {
+      const reader = outboxReceiptReader(outboxSecret, index).connect(ethers.provider);
+      const balance = await ethers.provider.getBalance(reader.address);
+      if (balance <= transferCost) {
+        continue;
+      }
+
+      const tx = await reader.sendTransaction({
+        to: destination,
+        value: balance - transferCost,
+        gasLimit: 21000n,
+        gasPrice,
+      });
+      await tx.wait();
+      claimed += balance - transferCost;
+      console.log(`   ✅ Outbox #${index}: ${ethersLib.formatEther(balance - transferCost)} ETH (${tx.hash})`);
+    }
+
+    console.log(`\n🎉 Claimed ${ethersLib.formatEther(claimed)} ETH\n`);
+  });
+
+/**
+ * Unlock a time-locked message so its recipient can open it
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:unlock --message-id 0
+ */
+task("confidential-transmission:unlock", "Unlock a time-locked message once its unlock time has passed")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to unlock")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    }
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    console.log(`\n🔓 Unlocking Message #${messageId}`);
+    console.log(`============================`);
+
+    const { isLocked, unlockAt, switchOwner } = await contract.messages(messageId);
+    if (!isLocked) {
+      throw new Error(`Message #${messageId} is not locked`);
+    }
+    if (switchOwner !== ethersLib.ZeroAddress) {
+      throw new Error(`Message #${messageId} is held back by a dead man's switch (see the release task)`);
+    }
+    const latest = await ethers.provider.getBlock("latest");
+    if (BigInt(latest?.timestamp ?? 0) < unlockAt) {
+      throw new Error(`Message #${messageId} is locked until ${new Date(Number(unlockAt) * 1000).toLocaleString()}`);
+    }
+
+    // Anyone may unlock; the key ACL only goes to the recipient and their delegates when they open it
+    const tx = await contract.connect(signers[0]).unlock(messageId);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Message unlocked!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(`   The recipient can now read it with confidential-transmission:read.`);
+    console.log(``);
+  });
+
+/**
+ * Approve (or reject) an approval-gated message as one of its designated approvers
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:approve --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:approve --message-id 0 --reject
+ */
+task("confidential-transmission:approve", "Sign off on an approval-gated message (designated approvers only)")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to approve")
+  .addFlag("reject", "Refuse the message instead of approving it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    }
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    console.log(`\n${taskArguments.reject ? "❌ Rejecting" : "✅ Approving"} Message #${messageId}`);
+    console.log(`============================`);
+    console.log(`👤 Approver: ${signers[0].address}`);
+
+    const [approvers, threshold] = await contract.getApprovalGate(messageId);
+    if (threshold === 0n) {
+      throw new Error(`Message #${messageId} does not need approval`);
+    }
+    if (!approvers.includes(signers[0].address)) {
+      throw new Error(`${signers[0].address} is not an approver of message #${messageId}`);
+    }
+
+    const tx = taskArguments.reject
+      ? await contract.connect(signers[0]).rejectMessage(messageId)
+      : await contract.connect(signers[0]).approveMessage(messageId);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    const parsedLogs = (receipt?.logs ?? []).map((log) => contract.interface.parseLog(log));
+    const decision = parsedLogs.find(
+      (parsed) => parsed?.name === "MessageApproved" || parsed?.name === "MessageRejected",
+    );
+    const released = parsedLogs.some((parsed) => parsed?.name === "MessageUnlocked");
+
+    console.log(`✅ Decision recorded!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    if (decision?.name === "MessageApproved") {
+      console.log(`   Approvals: ${decision.args.approvals} of ${threshold} required`);
+    } else if (decision) {
+      console.log(`   Rejections: ${decision.args.rejections} of ${approvers.length} approvers`);
+    }
+    if (released) {
+      console.log(`   🔓 Quorum reached: the recipient can now read the message.`);
+    }
+    console.log(``);
+  });
+
 /**
- * Get contract address
+ * Configure your dead man's switch or check in
  * Example:
- *   npx hardhat --network localhost confidential-transmission:address
+ *   npx hardhat --network localhost confidential-transmission:heartbeat --interval 30d
+ *   npx hardhat --network localhost confidential-transmission:heartbeat
  */
-task("confidential-transmission:address", "Prints the ConfidentialTransmission contract address").setAction(
-  async function (_taskArguments: TaskArguments, hre) {
-    const { deployments } = hre;
+task("confidential-transmission:heartbeat", "Check in to hold back your dead man's switch messages")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("interval", "Start the switch or change its interval, e.g. 7d or 30d")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
 
-    const contract = await deployments.get("ConfidentialTransmission");
-    console.log("\n📍 ConfidentialTransmission contract address:");
-    console.log(`   ${contract.address}`);
-    console.log("");
-  },
-);
+    const interval = taskArguments.interval ? parseDuration(taskArguments.interval) : 0;
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    console.log(`\n💓 Dead Man's Switch Heartbeat`);
+    console.log(`============================`);
+    console.log(`👤 Owner: ${signers[0].address}`);
+
+    if (interval === 0) {
+      const current = await contract.switchOf(signers[0].address);
+      if (current.interval === 0n) {
+        throw new Error(`No dead man's switch yet; start one with --interval (e.g. --interval 30d)`);
+      }
+    }
+
+    const tx =
+      interval > 0
+        ? await contract.connect(signers[0]).configureSwitch(interval)
+        : await contract.connect(signers[0]).heartbeat();
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    const checkIn = (receipt?.logs ?? [])
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "SwitchHeartbeat");
+
+    console.log(`✅ ${interval > 0 ? "Switch configured" : "Checked in"}!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    if (checkIn) {
+      const deadline = new Date(Number(checkIn.args.releasableAt) * 1000).toLocaleString();
+      console.log(`   Next heartbeat due before: ${deadline}`);
+    }
+    console.log(``);
+  });
 
 /**
- * Get contract statistics
+ * Release a dead man's switch message whose owner stopped checking in
  * Example:
- *   npx hardhat --network localhost confidential-transmission:stats
+ *   npx hardhat --network localhost confidential-transmission:release --message-id 0
  */
-task("confidential-transmission:stats", "Display contract statistics")
+task("confidential-transmission:release", "Release a dead man's switch message to its recipient")
   .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to release")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    }
+
     const contractDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("ConfidentialTransmission");
 
+    const signers = await ethers.getSigners();
     const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
 
-    const totalMessages = await contract.getTotalMessages();
+    console.log(`\n🪦 Releasing Message #${messageId}`);
+    console.log(`============================`);
 
-    console.log("\n📊 ConfidentialTransmission Statistics");
-    console.log("====================================");
-    console.log(`📍 Contract Address: ${contractDeployment.address}`);
-    console.log(`📨 Total Messages  : ${totalMessages}`);
-    console.log("");
+    const { isLocked, switchOwner } = await contract.messages(messageId);
+    if (switchOwner === ethersLib.ZeroAddress) {
+      throw new Error(`Message #${messageId} has no dead man's switch`);
+    }
+    if (!isLocked) {
+      throw new Error(`Message #${messageId} was already released`);
+    }
+    const { interval, lastHeartbeat } = await contract.switchOf(switchOwner);
+    const latest = await ethers.provider.getBlock("latest");
+    if (BigInt(latest?.timestamp ?? 0) < lastHeartbeat + interval) {
+      const deadline = new Date(Number(lastHeartbeat + interval) * 1000).toLocaleString();
+      throw new Error(`${switchOwner} is still checking in; message #${messageId} is held back until ${deadline}`);
+    }
+
+    // Anyone may release; the key ACL only goes to the recipient and their delegates when they open it
+    const tx = await contract.connect(signers[0]).release(messageId);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Message released!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(`   The recipient can now read it with confidential-transmission:read.`);
+    console.log(``);
   });
 
 /**
- * Send encrypted message
+ * Mark a received message as spam and keep its postage
  * Example:
- *   npx hardhat --network localhost confidential-transmission:send \
- *     --recipient 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 \
- *     --cid QmExampleCID123 \
- *     --key 0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef
+ *   npx hardhat --network localhost confidential-transmission:spam --message-id 0
  */
-task("confidential-transmission:send", "Send an encrypted message to a specific address")
+task("confidential-transmission:spam", "Mark a received message as spam and keep its postage")
   .addOptionalParam("address", "Optionally specify the contract address")
-  .addParam("recipient", "The recipient's Ethereum address")
-  .addParam("cid", "IPFS CID of the encrypted content")
-  .addParam("key", "AES encryption key (32 bytes hex)")
+  .addParam("messageId", "The ID of the message to mark as spam")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
-
-    // Validate recipient address
-    if (!ethersLib.isAddress(taskArguments.recipient)) {
-      throw new Error(`Invalid recipient address: ${taskArguments.recipient}`);
-    }
+    const { ethers, deployments } = hre;
 
-    // Validate key format
-    const keyHex = taskArguments.key.startsWith("0x") ? taskArguments.key : `0x${taskArguments.key}`;
-    if (keyHex.length !== 66) {
-      // 0x + 64 hex chars = 32 bytes
-      throw new Error(`Invalid key length. Expected 32 bytes (64 hex chars), got ${(keyHex.length - 2) / 2} bytes`);
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
     }
 
-    await fhevm.initializeCLIApi();
-
     const contractDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("ConfidentialTransmission");
 
-    console.log(`\n🔐 Sending Encrypted Message`);
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    console.log(`\n🚮 Marking Message #${messageId} as Spam`);
     console.log(`============================`);
-    console.log(`📍 Contract  : ${contractDeployment.address}`);
-    console.log(`👤 Recipient : ${taskArguments.recipient}`);
-    console.log(`📦 IPFS CID  : ${taskArguments.cid}`);
 
-    const signers = await ethers.getSigners();
-    const sender = signers[0];
+    const tx = await contract.connect(signers[0]).markAsSpam(messageId);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
 
-    console.log(`✍️  Sender    : ${sender.address}`);
+    const receipt = await tx.wait();
+    const settled = (receipt?.logs ?? [])
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "PostageSettled");
 
-    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+    console.log(`✅ Message marked as spam!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(`   Postage kept: ${settled ? `${ethersLib.formatEther(settled.args.amount)} ETH` : "None"}`);
+    console.log(``);
+  });
 
-    // Encrypt sender address
-    const encryptedSenderInput = await fhevm
-      .createEncryptedInput(contractDeployment.address, sender.address)
-      .addAddress(sender.address)
-      .encrypt();
+/**
+ * Refund a received message's postage to its sender's receipt reader without reading it, e.g. once the
+ * message was deleted or has expired and can no longer be acknowledged
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:refund --message-id 0
+ */
+task("confidential-transmission:refund", "Refund the postage of a received message without reading it")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message whose postage to refund")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
 
-    // Encrypt AES key
-    const encryptedKeyInput = await fhevm
-      .createEncryptedInput(contractDeployment.address, sender.address)
-      .addBytes256(keyHex)
-      .encrypt();
+    const messageId = parseInt(taskArguments.messageId);
+    if (!Number.isInteger(messageId) || messageId < 0) {
+      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    }
 
-    console.log(`\n🔒 Encrypting sender and key with FHE...`);
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
 
-    // Send transaction
-    const tx = await contract
-      .connect(sender)
-      .sendMessage(
-        taskArguments.recipient,
-        taskArguments.cid,
-        encryptedSenderInput.handles[0],
-        encryptedSenderInput.inputProof,
-        encryptedKeyInput.handles[0],
-        encryptedKeyInput.inputProof,
-      );
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+
+    console.log(`\n↩️  Refunding Postage of Message #${messageId}`);
+    console.log(`============================`);
 
+    const tx = await contract.connect(signers[0]).refundPostage(messageId);
     console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
 
     const receipt = await tx.wait();
-    console.log(`✅ Transaction confirmed!`);
-    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
-    console.log(`   Gas Used: ${receipt?.gasUsed.toString()}`);
-
-    // Get message ID from event
-    const messageCount = await contract.getTotalMessages();
-    const messageId = messageCount - 1n;
+    const settled = (receipt?.logs ?? [])
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "PostageSettled");
 
-    console.log(`\n📨 Message ID: ${messageId}`);
-    console.log(`\n🎉 Message sent successfully!`);
-    console.log(`   Only ${taskArguments.recipient} can decrypt this message.\n`);
+    console.log(`✅ Postage refunded!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(`   Refunded: ${settled ? `${ethersLib.formatEther(settled.args.amount)} ETH` : "None"}`);
+    console.log(``);
   });
 
 /**
- * List received messages
+ * Set how your encrypted sender list is applied
  * Example:
- *   npx hardhat --network localhost confidential-transmission:list
- *   npx hardhat --network localhost confidential-transmission:list --for 0x...
+ *   npx hardhat --network localhost confidential-transmission:filter-mode --mode allow
  */
-task("confidential-transmission:list", "List received messages")
+task("confidential-transmission:filter-mode", "Apply your sender list as an allowlist or blocklist")
   .addOptionalParam("address", "Optionally specify the contract address")
-  .addOptionalParam("for", "Optionally specify an address to list messages for (defaults to first signer)")
+  .addParam("mode", `Filter mode: ${SENDER_FILTER_MODES.join(", ")}`)
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
+    const mode = SENDER_FILTER_MODES.indexOf(taskArguments.mode);
+    if (mode < 0) {
+      throw new Error(`Invalid mode: ${taskArguments.mode} (expected ${SENDER_FILTER_MODES.join(", ")})`);
+    }
+
     const contractDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("ConfidentialTransmission");
 
     const signers = await ethers.getSigners();
-    const queryAddress = taskArguments.for || signers[0].address;
+    const owner = signers[0];
 
-    console.log(`\n📬 Received Messages for ${queryAddress}`);
-    console.log(`====================================`);
+    console.log(`\n🛡️  Setting Sender Filter Mode`);
+    console.log(`============================`);
+    console.log(`👤 Owner: ${owner.address}`);
+    console.log(`⚙️  Mode : ${taskArguments.mode}`);
 
     const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
 
-    const messageIds = await contract.getReceivedMessagesOf(queryAddress);
+    const tx = await contract.connect(owner).setSenderFilterMode(mode);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
 
-    if (messageIds.length === 0) {
-      console.log(`\n   No messages received yet.\n`);
-      return;
+    const receipt = await tx.wait();
+    console.log(`✅ Sender filter updated!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(``);
+  });
+
+/**
+ * Add a sender to your encrypted sender list. Entries only match a message's sender when it is verified,
+ * so claimed addresses and anonymous sends never match one.
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:filter-add --sender 0x...
+ */
+task("confidential-transmission:filter-add", "Add an address to your encrypted sender list")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("sender", "The sender address to add")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    if (!ethersLib.isAddress(taskArguments.sender)) {
+      throw new Error(`Invalid sender address: ${taskArguments.sender}`);
     }
 
-    console.log(`\n   Total messages: ${messageIds.length}\n`);
+    await fhevm.initializeCLIApi();
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
 
-    for (let i = 0; i < messageIds.length; i++) {
-      const messageId = messageIds[i];
-      const metadata = await contract.getMessageMetadata(messageId);
+    const signers = await ethers.getSigners();
+    const owner = signers[0];
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+    const sender: string = taskArguments.sender;
 
-      console.log(`   📨 Message ID: ${messageId}`);
-      console.log(`      📦 CID      : ${metadata.contentCID}`);
-      console.log(`      ⏰ Time     : ${new Date(Number(metadata.timestamp) * 1000).toLocaleString()}`);
-      console.log(`      🗑️  Deleted  : ${metadata.isDeleted ? "Yes" : "No"}`);
-      console.log(``);
-    }
+    console.log(`\n🛡️  Adding Sender Filter Entry`);
+    console.log(`============================`);
+    console.log(`👤 Owner : ${owner.address}`);
+    console.log(`✉️  Sender: ${sender}`);
+
+    // The entry is stored encrypted, so the list is never published
+    const encryptedEntry = await fhevm
+      .createEncryptedInput(contractDeployment.address, owner.address)
+      .addAddress(sender)
+      .encrypt();
+
+    const tx = await contract.connect(owner).addSenderFilterEntry(encryptedEntry.handles[0], encryptedEntry.inputProof);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Sender added!`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(``);
   });
 
 /**
- * Read and decrypt a message
+ * Remove a sender from your encrypted sender list
  * Example:
- *   npx hardhat --network localhost confidential-transmission:read --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:filter-remove --index 0
  */
-task("confidential-transmission:read", "Read and decrypt a message")
+task("confidential-transmission:filter-remove", "Remove an entry from your encrypted sender list")
   .addOptionalParam("address", "Optionally specify the contract address")
-  .addParam("messageId", "The ID of the message to read")
+  .addParam("index", "Position of the entry to remove (see filter-list)")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, deployments } = hre;
 
-    const messageId = parseInt(taskArguments.messageId);
-    if (!Number.isInteger(messageId) || messageId < 0) {
-      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    const index = parseInt(taskArguments.index);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error(`Invalid index: ${taskArguments.index}`);
     }
 
-    await fhevm.initializeCLIApi();
-
     const contractDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("ConfidentialTransmission");
 
     const signers = await ethers.getSigners();
-    const reader = signers[0];
+    const owner = signers[0];
 
-    console.log(`\n🔓 Reading Message #${messageId}`);
+    console.log(`\n🛡️  Removing Sender Filter Entry #${index}`);
     console.log(`============================`);
-    console.log(`👤 Reader: ${reader.address}`);
+    console.log(`👤 Owner: ${owner.address}`);
 
     const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
 
-    // Get message
-    const message = await contract.connect(reader).getMessage(messageId);
+    const tx = await contract.connect(owner).removeSenderFilterEntry(index);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`✅ Entry removed (the last entry moved to position ${index})`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
+    console.log(``);
+  });
+
+/**
+ * Show your decrypted sender list
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:filter-list
+ */
+task("confidential-transmission:filter-list", "Show your decrypted sender list")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
 
-    console.log(`\n📦 Message Content:`);
-    console.log(`   IPFS CID : ${message.contentCID}`);
-    console.log(`   Timestamp: ${new Date(Number(message.timestamp) * 1000).toLocaleString()}`);
+    await fhevm.initializeCLIApi();
 
-    console.log(`\n🔐 Decrypting FHE data...`);
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
 
-    // Decrypt sender address
-    const decryptedSender = await fhevm.userDecryptEaddress(
-      message.encryptedSender,
-      contractDeployment.address,
-      reader,
-    );
+    const signers = await ethers.getSigners();
+    const owner = signers[0];
 
-    // Decrypt AES key
-    const decryptedKey = await fhevm.userDecryptEbytes256(message.encryptedKey, contractDeployment.address, reader);
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+    const [mode, entries] = await contract.getSenderFilter(owner.address);
 
-    console.log(`\n✅ Decrypted Information:`);
-    console.log(`   👤 Sender: ${decryptedSender}`);
-    console.log(`   🔑 Key   : ${decryptedKey}`);
+    console.log(`\n🛡️  Sender Filter for ${owner.address}`);
+    console.log(`====================================`);
+    console.log(`   ⚙️  Mode   : ${SENDER_FILTER_MODES[Number(mode)]}`);
+    console.log(`   📋 Entries: ${entries.length}\n`);
 
-    console.log(`\n💡 Next Steps:`);
-    console.log(`   1. Download encrypted content from IPFS: ${message.contentCID}`);
-    console.log(`   2. Decrypt using AES key: ${decryptedKey}`);
+    for (let i = 0; i < entries.length; i++) {
+      const sender = await fhevm.userDecryptEaddress(entries[i], contractDeployment.address, owner);
+      console.log(`   #${i}  ${sender}`);
+    }
     console.log(``);
   });
 
 /**
- * Delete a message
+ * Let another account read your inbox
  * Example:
- *   npx hardhat --network localhost confidential-transmission:delete --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:delegate-add --delegate 0x...
+ *   npx hardhat --network localhost confidential-transmission:delegate-add --delegate 0x... --expires 30d --share-existing
  */
-task("confidential-transmission:delete", "Delete a message (soft delete)")
+task("confidential-transmission:delegate-add", "Allow an assistant or service to read your inbox")
   .addOptionalParam("address", "Optionally specify the contract address")
-  .addParam("messageId", "The ID of the message to delete")
+  .addParam("delegate", "The address to delegate to")
+  .addOptionalParam("expires", "Time until the delegation ends, e.g. 3600, 90m, 24h or 7d (default: never)")
+  .addFlag("shareExisting", "Also share the messages already in your inbox")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
-    const messageId = parseInt(taskArguments.messageId);
-    if (!Number.isInteger(messageId) || messageId < 0) {
-      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    if (!ethersLib.isAddress(taskArguments.delegate)) {
+      throw new Error(`Invalid delegate address: ${taskArguments.delegate}`);
     }
 
     const contractDeployment = taskArguments.address
@@ -293,37 +2318,56 @@ task("confidential-transmission:delete", "Delete a message (soft delete)")
       : await deployments.get("ConfidentialTransmission");
 
     const signers = await ethers.getSigners();
-    const deleter = signers[0];
-
-    console.log(`\n🗑️  Deleting Message #${messageId}`);
-    console.log(`============================`);
-    console.log(`👤 Deleter: ${deleter.address}`);
+    const owner = signers[0];
 
     const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
 
-    const tx = await contract.connect(deleter).deleteMessage(messageId);
+    const block = await ethers.provider.getBlock("latest");
+    const expiresAt = taskArguments.expires ? (block?.timestamp ?? 0) + parseDuration(taskArguments.expires) : 0;
+
+    console.log(`\n👥 Adding Delegate`);
+    console.log(`============================`);
+    console.log(`👤 Owner   : ${owner.address}`);
+    console.log(`🤝 Delegate: ${taskArguments.delegate}`);
+    console.log(`⏳ Expires : ${expiresAt > 0 ? new Date(expiresAt * 1000).toLocaleString() : "Never"}`);
+
+    const tx = await contract.connect(owner).addDelegate(taskArguments.delegate, expiresAt);
     console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
 
     const receipt = await tx.wait();
-    console.log(`✅ Message deleted successfully!`);
+    console.log(`✅ Delegate added! New messages are shared with it automatically.`);
     console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
-    console.log(``);
+
+    if (taskArguments.shareExisting) {
+      const inbox = await (await connectClient(hre, contractDeployment.address)).list(VISIBLE_MESSAGES);
+      const messageIds = inbox.filter((metadata) => !metadata.isRecalled).map((metadata) => metadata.id);
+      for (let start = 0; start < messageIds.length; start += DELEGATE_SHARE_BATCH_SIZE) {
+        const shareTx = await contract
+          .connect(owner)
+          .grantDelegateAccess(messageIds.slice(start, start + DELEGATE_SHARE_BATCH_SIZE), taskArguments.delegate);
+        console.log(`⏳ Sharing existing messages: ${shareTx.hash}...`);
+        await shareTx.wait();
+      }
+      console.log(`✅ Shared ${messageIds.length} existing message(s)`);
+    }
+
+    console.log(`\n   The delegate reads with: confidential-transmission:list --for ${owner.address}`);
+    console.log(`   FHE permissions are permanent: removing the delegate later only stops future sharing.\n`);
   });
 
 /**
- * Check if user is recipient
+ * Stop sharing your inbox with a delegate
  * Example:
- *   npx hardhat --network localhost confidential-transmission:is-recipient --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:delegate-remove --delegate 0x...
  */
-task("confidential-transmission:is-recipient", "Check if you are the recipient of a message")
+task("confidential-transmission:delegate-remove", "Stop sharing your inbox with a delegate")
   .addOptionalParam("address", "Optionally specify the contract address")
-  .addParam("messageId", "The ID of the message to check")
+  .addParam("delegate", "The delegate address to remove")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
-    const messageId = parseInt(taskArguments.messageId);
-    if (!Number.isInteger(messageId) || messageId < 0) {
-      throw new Error(`Invalid message ID: ${taskArguments.messageId}`);
+    if (!ethersLib.isAddress(taskArguments.delegate)) {
+      throw new Error(`Invalid delegate address: ${taskArguments.delegate}`);
     }
 
     const contractDeployment = taskArguments.address
@@ -331,25 +2375,103 @@ task("confidential-transmission:is-recipient", "Check if you are the recipient o
       : await deployments.get("ConfidentialTransmission");
 
     const signers = await ethers.getSigners();
-    const user = signers[0];
+    const owner = signers[0];
+
+    console.log(`\n👥 Removing Delegate`);
+    console.log(`============================`);
+    console.log(`👤 Owner   : ${owner.address}`);
+    console.log(`🤝 Delegate: ${taskArguments.delegate}`);
 
     const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
 
-    const isRecipient = await contract.connect(user).isRecipient(messageId);
+    const tx = await contract.connect(owner).removeDelegate(taskArguments.delegate);
+    console.log(`⏳ Waiting for transaction: ${tx.hash}...`);
 
-    console.log(`\n🔍 Checking Message #${messageId}`);
-    console.log(`============================`);
-    console.log(`👤 User      : ${user.address}`);
-    console.log(`📨 Is Recipient: ${isRecipient ? "✅ YES" : "❌ NO"}`);
+    const receipt = await tx.wait();
+    console.log(`✅ Delegate removed (keys it was already granted stay decryptable by it)`);
+    console.log(`   Status: ${receipt?.status === 1 ? "Success" : "Failed"}`);
     console.log(``);
   });
 
+/**
+ * Show the delegates of an inbox
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:delegate-list
+ *   npx hardhat --network localhost confidential-transmission:delegate-list --owner 0x...
+ */
+task("confidential-transmission:delegate-list", "Show the delegates of an inbox")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addOptionalParam("owner", "Inbox owner (defaults to first signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const signers = await ethers.getSigners();
+    const owner = taskArguments.owner || signers[0].address;
+
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+    const delegates = await contract.getDelegates(owner);
+    const block = await ethers.provider.getBlock("latest");
+    const now = BigInt(block?.timestamp ?? 0);
+
+    console.log(`\n👥 Delegates of ${owner}`);
+    console.log(`====================================`);
+    if (delegates.length === 0) {
+      console.log(`\n   No delegates.\n`);
+      return;
+    }
 
+    for (const { account, expiresAt } of delegates) {
+      const status =
+        expiresAt === 0n
+          ? "never expires"
+          : `${expiresAt > now ? "expires" : "expired"} ${new Date(Number(expiresAt) * 1000).toLocaleString()}`;
+      console.log(`   🤝 ${account}  (${status})`);
+    }
+    console.log(``);
+  });
 
+/**
+ * Check if user is recipient
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:is-recipient --message-id 0
+ *   npx hardhat --network localhost confidential-transmission:is-recipient --message-id 0 --json
+ *
+ * JSON result: { id, account, isRecipient }
+ */
+task("confidential-transmission:is-recipient", "Check if you are the recipient of a message")
+  .addOptionalParam("address", "Optionally specify the contract address")
+  .addParam("messageId", "The ID of the message to check")
+  .addFlag("json", JSON_FLAG)
+  .setAction(
+    jsonOutput(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, deployments } = hre;
 
+      const messageId = parseInt(taskArguments.messageId);
+      if (!Number.isInteger(messageId) || messageId < 0) {
+        throw new TaskError("INVALID_ARGUMENT", `Invalid message ID: ${taskArguments.messageId}`);
+      }
 
+      const contractDeployment = taskArguments.address
+        ? { address: taskArguments.address }
+        : await deployments.get("ConfidentialTransmission");
 
+      const signers = await ethers.getSigners();
+      const user = signers[0];
 
+      const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
 
+      const isRecipient = await contract.connect(user).isRecipient(messageId);
 
+      console.log(`\n🔍 Checking Message #${messageId}`);
+      console.log(`============================`);
+      console.log(`👤 User      : ${user.address}`);
+      console.log(`📨 Is Recipient: ${isRecipient ? "✅ YES" : "❌ NO"}`);
+      console.log(``);
 
+      return { id: messageId.toString(), account: user.address, isRecipient };
+    }),
+  );
@@ -0,0 +1,286 @@
+import { createServer } from "http";
+import type { IncomingMessage, ServerResponse } from "http";
+import { Transaction } from "ethers";
+import type { TransactionReceipt } from "ethers";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Anonymous Relayer Service
+ * =========================
+ *
+ * Local HTTP service that keeps the user's wallet off-chain. The relayer pays for gas with its own signer:
+ *
+ * - Sends come from a fresh one-time account. The client binds its FHE encrypted inputs to that
+ *   account and signs its first transaction; /sponsor funds the signed gas limit and broadcasts it.
+ *   Inputs bound to a one-time account cannot be replayed by anyone else, which is why the contract
+ *   refuses sends through the forwarder.
+ * - Recalls and signed opens are submitted through the ConfidentialForwarder by /relay; signed opens
+ *   let stealth and outbox reader wallets, which hold no ETH, take delivery of their messages.
+ *
+ * Endpoints:
+ *   GET  /info    -> { forwarder, target, relayer, chainId }
+ *   POST /relay   -> body { data: "0x...", deadline?: number } -> { txHash, messageIds }
+ *   POST /sponsor -> body { signedTransaction: "0x..." } -> { txHash, messageIds }
+ *
+ * Only `recallMessage` / `openMessageFor` calls are relayed, and only fresh accounts' `sendMessage` /
+ * `sendMessageToMany` / `sendStealthMessage` calls to the configured ConfidentialTransmission contract
+ * are sponsored. Sponsored sends carry no ETH, so sends to inboxes that charge postage are rejected.
+ * A sponsored gas limit may exceed the relayer's own estimate by half at most and its fee cap the
+ * current one twice at most, which bounds what a one-time account keeps after its send.
+ *
+ * Neither this service nor the ConfidentialForwarder authenticates anyone: the forwarder executes
+ * any call for any caller, and the relayer pays the gas of every request it accepts. The service
+ * therefore only answers browsers on the configured frontend origin (--origin; requests without an
+ * Origin header, such as the CLI, are accepted) and limits /relay requests per client address and
+ * per origin over a rolling minute (/relay and /sponsor share the limits). Behind a reverse proxy every
+ * client shares the proxy's address.
+ *
+ * Example:
+ *   npx hardhat --network localhost confidential-transmission:relayer --port 8787
+ *   npx hardhat --network localhost confidential-transmission:relayer --origin https://app.example.org
+ */
+
+/** Default validity of a relayed request, in seconds */
+const DEFAULT_DEADLINE_SECONDS = 600;
+
+/** Maximum accepted request body size */
+const MAX_BODY_BYTES = 256 * 1024;
+
+/** Length of a rate limit window, in milliseconds */
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/** Origin of the frontend's Vite dev server */
+const DEFAULT_ORIGIN = "http://localhost:5173";
+
+/** Key under which requests without an Origin header (CLI, scripts) are counted */
+const NO_ORIGIN = "(none)";
+
+/**
+ * Fixed-window request counter
+ * @param limit Requests allowed per key and window
+ * @returns A function that counts a request for `key` and tells whether it is within the limit
+ */
+function createRateLimiter(limit: number): (key: string) => boolean {
+  const windows = new Map<string, { start: number; count: number }>();
+  return (key) => {
+    const now = Date.now();
+    const window = windows.get(key);
+    if (window && now - window.start < RATE_LIMIT_WINDOW_MS) {
+      window.count++;
+      return window.count <= limit;
+    }
+
+    // Drop expired windows so idle clients do not accumulate
+    for (const [staleKey, stale] of windows) {
+      if (now - stale.start >= RATE_LIMIT_WINDOW_MS) {
+        windows.delete(staleKey);
+      }
+    }
+    windows.set(key, { start: now, count: 1 });
+    return true;
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown, allowedOrigin: string) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    Vary: "Origin",
+  });
+  res.end(JSON.stringify(payload));
+}
+
+/** Parse a positive integer task argument */
+function parseLimit(name: string, value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return limit;
+}
+
+task("confidential-transmission:relayer", "Run a local relayer for anonymous sends, recalls and opens")
+  .addOptionalParam("address", "Optionally specify the ConfidentialTransmission contract address")
+  .addOptionalParam("port", "Port to listen on", "8787")
+  .addOptionalParam("host", "Host to bind to", "127.0.0.1")
+  .addOptionalParam("origin", "Frontend origin allowed to call the relayer from a browser", DEFAULT_ORIGIN)
+  .addOptionalParam("clientLimit", "Relayed requests per client address and minute", "10")
+  .addOptionalParam("originLimit", "Relayed requests per origin and minute", "60")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const allowedOrigin: string = new URL(taskArguments.origin).origin;
+    const withinClientLimit = createRateLimiter(parseLimit("client-limit", taskArguments.clientLimit));
+    const withinOriginLimit = createRateLimiter(parseLimit("origin-limit", taskArguments.originLimit));
+
+    const contractDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ConfidentialTransmission");
+
+    const contract = await ethers.getContractAt("ConfidentialTransmission", contractDeployment.address);
+    const forwarderAddress = await contract.trustedForwarder();
+    const forwarder = await ethers.getContractAt("ConfidentialForwarder", forwarderAddress);
+
+    const signers = await ethers.getSigners();
+    const relayer = signers[0];
+    const { chainId } = await ethers.provider.getNetwork();
+    const relayableSelectors = [
+      contract.interface.getFunction("recallMessage").selector,
+      contract.interface.getFunction("openMessageFor").selector,
+    ];
+    const sponsorableSelectors = [
+      contract.interface.getFunction("sendMessage").selector,
+      contract.interface.getFunction("sendMessageToMany").selector,
+      contract.interface.getFunction("sendStealthMessage").selector,
+    ];
+
+    /** Collect the IDs of the messages a transaction created */
+    const sentMessageIds = (receipt: TransactionReceipt | null): string[] => {
+      const messageIds: string[] = [];
+      for (const log of receipt?.logs ?? []) {
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === "MessageSent") {
+          messageIds.push(parsed.args.messageId.toString());
+        }
+      }
+      return messageIds;
+    };
+
+    const relay = async (data: string, deadline: number) => {
+      if (!ethers.isHexString(data) || !relayableSelectors.some((selector) => data.startsWith(selector))) {
+        throw new Error("Only recall and open calls can be relayed; sends are sponsored");
+      }
+
+      const tx = await forwarder.connect(relayer).execute({ to: contractDeployment.address, deadline, data });
+      console.log(`⏳ Relaying transaction: ${tx.hash}...`);
+
+      const receipt = await tx.wait();
+      const messageIds = sentMessageIds(receipt);
+      console.log(`✅ Relayed transaction (gas used: ${receipt?.gasUsed.toString()})`);
+      return { txHash: tx.hash, messageIds };
+    };
+
+    const sponsor = async (signedTransaction: string) => {
+      const tx = Transaction.from(signedTransaction);
+      const { from, to, data, value, nonce, gasLimit, maxFeePerGas } = tx;
+      if (to?.toLowerCase() !== contractDeployment.address.toLowerCase() || value !== 0n) {
+        throw new Error("Only sends to the contract without ETH are sponsored");
+      }
+      if (!sponsorableSelectors.some((selector) => data.startsWith(selector))) {
+        throw new Error("Only sends are sponsored; relay recalls and opens instead");
+      }
+      if (tx.chainId !== chainId || maxFeePerGas === null || from === null) {
+        throw new Error("Sign an EIP-1559 transaction for this chain");
+      }
+      // A fresh account, so the send cannot be linked to earlier activity nor used to collect funding twice
+      if (nonce !== 0 || (await ethers.provider.getTransactionCount(from)) !== 0) {
+        throw new Error("Only a fresh one-time account's first transaction is sponsored");
+      }
+
+      // Whatever the send leaves unused stays with the one-time account, so keep the funding close to its cost
+      const [gasEstimate, fees] = await Promise.all([
+        ethers.provider.estimateGas({ from, to, data }),
+        ethers.provider.getFeeData(),
+      ]);
+      if (gasLimit > (gasEstimate * 3n) / 2n || maxFeePerGas > (fees.maxFeePerGas ?? 0n) * 2n) {
+        throw new Error("Gas limit or fee cap too high");
+      }
+
+      const funding = await relayer.sendTransaction({ to: from, value: gasLimit * maxFeePerGas });
+      await funding.wait();
+      const sent = await ethers.provider.broadcastTransaction(signedTransaction);
+      console.log(`⏳ Sponsoring transaction of one-time account ${from}: ${sent.hash}...`);
+
+      const receipt = await sent.wait();
+      const messageIds = sentMessageIds(receipt);
+      console.log(`✅ Sponsored message(s) ${messageIds.join(", ")} (gas used: ${receipt?.gasUsed.toString()})`);
+      return { txHash: sent.hash, messageIds };
+    };
+
+    const server = createServer(async (req, res) => {
+      const respond = (status: number, payload: unknown) => sendJson(res, status, payload, allowedOrigin);
+      try {
+        // Browsers on other sites are refused; clients without an Origin header are not browsers
+        const origin = req.headers.origin;
+        if (origin !== undefined && origin !== allowedOrigin) {
+          respond(403, { error: "Origin not allowed" });
+          return;
+        }
+
+        if (req.method === "OPTIONS") {
+          respond(204, {});
+          return;
+        }
+
+        if (req.method === "GET" && req.url === "/info") {
+          respond(200, {
+            forwarder: forwarderAddress,
+            target: contractDeployment.address,
+            relayer: relayer.address,
+            chainId: chainId.toString(),
+          });
+          return;
+        }
+
+        if (req.method === "POST" && (req.url === "/relay" || req.url === "/sponsor")) {
+          // Count both limits on every request, so one exhausted limit does not spare the other
+          const clientAllowed = withinClientLimit(req.socket.remoteAddress ?? "");
+          const originAllowed = withinOriginLimit(origin ?? NO_ORIGIN);
+          if (!clientAllowed || !originAllowed) {
+            respond(429, { error: "Rate limit exceeded, try again in a minute" });
+            return;
+          }
+
+          const body = JSON.parse(await readBody(req));
+          if (req.url === "/sponsor") {
+            respond(200, await sponsor(body.signedTransaction));
+            return;
+          }
+          const deadline = Number(body.deadline ?? Math.floor(Date.now() / 1000) + DEFAULT_DEADLINE_SECONDS);
+          respond(200, await relay(body.data, deadline));
+          return;
+        }
+
+        respond(404, { error: "Not found" });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Relay failed: ${message}`);
+        respond(400, { error: message });
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(Number(taskArguments.port), taskArguments.host, resolve));
+
+    console.log(`\n🛰️  ConfidentialTransmission Relayer`);
+    console.log(`====================================`);
+    console.log(`📍 Contract  : ${contractDeployment.address}`);
+    console.log(`📮 Forwarder : ${forwarderAddress}`);
+    console.log(`⛽ Relayer   : ${relayer.address}`);
+    console.log(`🌐 Listening : http://${taskArguments.host}:${taskArguments.port}`);
+    console.log(`🔐 Origin    : ${allowedOrigin}`);
+    console.log(
+      `🚦 Limits    : ${taskArguments.clientLimit}/min per client, ${taskArguments.originLimit}/min per origin`,
+    );
+    console.log(``);
+
+    // Keep the task alive until the process is stopped
+    await new Promise<void>((resolve) => server.on("close", resolve));
+  });
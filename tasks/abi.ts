@@ -0,0 +1,26 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import { task } from "hardhat/config";
+import { join } from "path";
+
+/** Contracts whose ABIs ship with the SDK (see sdk/contracts.ts) */
+const SDK_CONTRACTS = ["ConfidentialTransmission", "ConfidentialTransmissionViews", "ConfidentialGroups"];
+
+/**
+ * Refresh the ABIs in sdk/abi after every compilation, so the SDK never drifts from the contracts
+ */
+task(TASK_COMPILE).setAction(async function (taskArguments, hre, runSuper) {
+  const result = await runSuper(taskArguments);
+
+  for (const name of SDK_CONTRACTS) {
+    const { abi } = await hre.artifacts.readArtifact(name);
+    const abiPath = join(hre.config.paths.root, "sdk", "abi", `${name}.abi.json`);
+    const content = `${JSON.stringify(abi, null, 2)}\n`;
+    if (!existsSync(abiPath) || readFileSync(abiPath, "utf8") !== content) {
+      writeFileSync(abiPath, content);
+      console.log(`Updated ${name} ABI in sdk/abi`);
+    }
+  }
+
+  return result;
+});
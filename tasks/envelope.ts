@@ -0,0 +1,121 @@
+import { readFileSync, writeFileSync } from "fs";
+import { vars } from "hardhat/config";
+import { basename, extname, join } from "path";
+
+import { DEFAULT_IPFS_GATEWAY, encryptEnvelope, ipfsNodeStorage, pinataStorage } from "../sdk";
+import type { EncryptedEnvelope, StorageBackend } from "../sdk";
+
+/**
+ * Envelope helpers for tasks
+ * ==========================
+ *
+ * Envelopes themselves are built and opened by the SDK (see sdk/envelope.ts), exactly like the
+ * React app does, so recipients can open task-sent files in the browser and vice versa. This file
+ * maps local files to envelopes and picks the storage backend from Hardhat configuration variables.
+ *
+ * Envelopes are stored through a configurable backend, chosen with a task's `--storage` option or
+ * `npx hardhat vars set STORAGE_BACKEND`:
+ *
+ *   pinata  Pinata's pinning API (PINATA_API_KEY / PINATA_SECRET_KEY vars), the default
+ *   ipfs    A local or self-hosted IPFS (Kubo) node's RPC API (IPFS_API_URL var, default http://127.0.0.1:5001)
+ *
+ * Downloads go through the trustless gateway at IPFS_GATEWAY_URL (default https://ipfs.io).
+ */
+
+/** Names accepted by `--storage` */
+export const STORAGE_BACKENDS = ["pinata", "ipfs"];
+
+const DEFAULT_IPFS_API_URL = "http://127.0.0.1:5001";
+
+/** MIME types of common file extensions; anything else is sent as application/octet-stream */
+const MIME_TYPES: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".zip": "application/zip",
+};
+
+/**
+ * Encrypt a local file into an envelope
+ * @returns The envelope and its AES key as a 0x-prefixed 32-byte hex string
+ */
+export function encryptFile(filePath: string): Promise<{ envelope: EncryptedEnvelope; key: string }> {
+  return encryptEnvelope(readFileSync(filePath), {
+    filename: basename(filePath),
+    type: MIME_TYPES[extname(filePath).toLowerCase()] ?? "application/octet-stream",
+  });
+}
+
+/**
+ * Local file name for a received envelope: the stored filename without any directory part, with an
+ * extension derived from the stored type when it has none
+ */
+export function fileNameFor(envelope: EncryptedEnvelope, fallback: string): string {
+  const name = basename(envelope.filename.replace(/\\/g, "/"));
+  const safeName = name === "" || name === "." || name === ".." ? fallback : name;
+  if (extname(safeName) !== "") {
+    return safeName;
+  }
+  const extension = Object.keys(MIME_TYPES).find((ext) => MIME_TYPES[ext] === envelope.type);
+  return extension ? `${safeName}${extension}` : safeName;
+}
+
+/**
+ * Write a received file into a directory, never overwriting an existing file: the message ID is prefixed
+ * instead, then a counter (`7-report.pdf`, `7-2-report.pdf`, ...)
+ * @returns The file name taken from the envelope and the path written
+ */
+export function writeReceivedFile(
+  outDir: string,
+  messageId: bigint,
+  envelope: EncryptedEnvelope,
+  content: Uint8Array,
+): { fileName: string; filePath: string } {
+  const fileName = fileNameFor(envelope, `message-${messageId}.bin`);
+  for (let attempt = 1; ; attempt++) {
+    const candidate =
+      attempt === 1 ? fileName : attempt === 2 ? `${messageId}-${fileName}` : `${messageId}-${attempt - 1}-${fileName}`;
+    const filePath = join(outDir, candidate);
+    try {
+      // "wx" fails on an existing file instead of truncating it
+      writeFileSync(filePath, content, { flag: "wx" });
+      return { fileName, filePath };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+}
+
+/** The gateway to download from: an explicit URL, else the IPFS_GATEWAY_URL var, else the default */
+export function resolveGateway(url?: string): string {
+  return url || vars.get("IPFS_GATEWAY_URL", DEFAULT_IPFS_GATEWAY);
+}
+
+/**
+ * Resolve a storage backend by name (default: the STORAGE_BACKEND var, else Pinata), checking its configuration
+ */
+export function resolveStorageBackend(name?: string): StorageBackend {
+  const backend = name || vars.get("STORAGE_BACKEND", "pinata");
+
+  if (backend === "pinata") {
+    const credentials = { apiKey: vars.get("PINATA_API_KEY", ""), secretKey: vars.get("PINATA_SECRET_KEY", "") };
+    if (!credentials.apiKey || !credentials.secretKey) {
+      throw new Error(`Pinata API keys not configured (npx hardhat vars set PINATA_API_KEY / PINATA_SECRET_KEY)`);
+    }
+    return pinataStorage(credentials, resolveGateway());
+  }
+
+  if (backend === "ipfs") {
+    return ipfsNodeStorage(vars.get("IPFS_API_URL", DEFAULT_IPFS_API_URL), resolveGateway());
+  }
+
+  throw new Error(`Unknown storage backend: ${backend} (expected ${STORAGE_BACKENDS.join(" or ")})`);
+}
@@ -0,0 +1,189 @@
+import { ethers as ethersLib } from "ethers";
+import type { ActionType, HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { contentCIDOf } from "../sdk";
+import type { MessageMetadata } from "../sdk";
+
+/**
+ * Machine-readable task output
+ * ============================
+ *
+ * Tasks that accept `--json` print exactly one JSON document on stdout and nothing else; their
+ * usual progress output moves to stderr. A successful run prints
+ *
+ *   { "ok": true, "result": { ... } }
+ *
+ * and exits 0. A failed run prints
+ *
+ *   { "ok": false, "error": { "code": "INVALID_ARGUMENT", "message": "...", "exitCode": 2 } }
+ *
+ * and exits with the error's code from EXIT_CODES. Amounts, IDs and other uint256 values are
+ * decimal strings; times are unix seconds (null when unset); hidden values are null.
+ */
+
+/** Exit code of a failed `--json` run, by error code */
+export const EXIT_CODES = {
+  /** Anything not covered below */
+  ERROR: 1,
+  /** A task argument is missing, malformed or conflicts with another */
+  INVALID_ARGUMENT: 2,
+  /** The message does not exist or is not addressed to the account used */
+  NOT_FOUND: 3,
+  /** The message key is still held back (time lock, approvals or dead man's switch) */
+  LOCKED: 4,
+  /** The contract rejected the call or transaction */
+  REVERTED: 5,
+  /** The RPC node, relayer or gateway could not be reached */
+  NETWORK: 6,
+} as const;
+
+export type TaskErrorCode = keyof typeof EXIT_CODES;
+
+/** An error with a stable code, reported as such by `--json` runs */
+export class TaskError extends Error {
+  constructor(
+    readonly code: TaskErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "TaskError";
+  }
+}
+
+/** The `error` object of a failed `--json` run */
+export interface JsonError {
+  code: TaskErrorCode;
+  message: string;
+  exitCode: number;
+  /** Revert reason or custom error name, for REVERTED errors */
+  reason?: string;
+}
+
+/** Description of the `--json` flag, shared by every task that accepts it */
+export const JSON_FLAG = "Print a single JSON result (or error) on stdout instead of text";
+
+/** Classify any error thrown by a task */
+export function describeError(error: unknown): JsonError {
+  const message = error instanceof Error ? error.message : String(error);
+  const describe = (code: TaskErrorCode, reason?: string): JsonError => ({
+    code,
+    message,
+    exitCode: EXIT_CODES[code],
+    ...(reason ? { reason } : {}),
+  });
+
+  if (error instanceof TaskError) {
+    return describe(error.code);
+  }
+  if (ethersLib.isError(error, "CALL_EXCEPTION")) {
+    return describe("REVERTED", error.reason ?? error.revert?.name ?? undefined);
+  }
+  // The in-process Hardhat network reports reverts as provider errors
+  const revert = /reverted with (?:reason string|custom error) '(.*)'/.exec(message);
+  if (revert) {
+    return describe("REVERTED", revert[1]);
+  }
+  if (
+    ethersLib.isError(error, "NETWORK_ERROR") ||
+    ethersLib.isError(error, "SERVER_ERROR") ||
+    ethersLib.isError(error, "TIMEOUT") ||
+    /fetch failed|ECONNREFUSED|Cannot connect to the network/.test(message)
+  ) {
+    return describe("NETWORK");
+  }
+  return describe("ERROR");
+}
+
+/** JSON.stringify that writes bigints as decimal strings */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
+
+/**
+ * Wrap a task action so `--json` prints its return value, or the error it throws, as one JSON
+ * document on stdout. Errors then set the process exit code instead of propagating; without
+ * `--json` the action runs unchanged.
+ */
+export function jsonOutput<ResultT>(
+  action: (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) => Promise<ResultT>,
+): ActionType<TaskArguments> {
+  return async function (taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    if (!taskArguments.json) {
+      return action(taskArguments, hre);
+    }
+
+    // Keep stdout for the JSON document; progress output still reaches a terminal through stderr
+    const log = console.log;
+    console.log = console.error;
+    try {
+      const result = await action(taskArguments, hre);
+      log(toJson({ ok: true, result }));
+      return result;
+    } catch (error) {
+      const jsonError = describeError(error);
+      log(toJson({ ok: false, error: jsonError }));
+      process.exitCode = jsonError.exitCode;
+      return undefined;
+    } finally {
+      console.log = log;
+    }
+  };
+}
+
+/** Unix seconds as a number, null for 0 (unset) */
+function timeOrNull(value: bigint): number | null {
+  return value === 0n ? null : Number(value);
+}
+
+/** A message as `list --json` prints it */
+export interface MessageJson {
+  id: string;
+  recipient: string;
+  /** null when the CID is stored FHE encrypted */
+  cid: string | null;
+  timestamp: number;
+  isDeleted: boolean;
+  isRecalled: boolean;
+  isExpired: boolean;
+  isSpam: boolean;
+  isLocked: boolean;
+  /** Whether the recipient or a delegate opened it, which granted them the key */
+  isOpened: boolean;
+  /** ID of the message this one replies to */
+  inReplyTo: string | null;
+  acceptsReplies: boolean;
+  /** Escrowed postage in wei */
+  postage: string;
+  expiresAt: number | null;
+  unlockAt: number | null;
+  switchOwner: string | null;
+  releasableAt: number | null;
+  approvals: { required: string; given: string } | null;
+}
+
+/** Plain JSON view of a message's public metadata */
+export function messageJson(metadata: MessageMetadata): MessageJson {
+  return {
+    id: metadata.id.toString(),
+    recipient: metadata.recipient,
+    cid: contentCIDOf(metadata.contentDigest) || null,
+    timestamp: Number(metadata.timestamp),
+    isDeleted: metadata.isDeleted,
+    isRecalled: metadata.isRecalled,
+    isExpired: metadata.isExpired,
+    isSpam: metadata.isSpam,
+    isLocked: metadata.isLocked,
+    isOpened: metadata.isOpened,
+    inReplyTo: metadata.inReplyTo > 0n ? (metadata.inReplyTo - 1n).toString() : null,
+    acceptsReplies: metadata.acceptsReplies,
+    postage: metadata.postage.toString(),
+    expiresAt: timeOrNull(metadata.expiresAt),
+    unlockAt: timeOrNull(metadata.unlockAt),
+    switchOwner: metadata.switchOwner === ethersLib.ZeroAddress ? null : metadata.switchOwner,
+    releasableAt: timeOrNull(metadata.releasableAt),
+    approvals:
+      metadata.approvalThreshold > 0n
+        ? { required: metadata.approvalThreshold.toString(), given: metadata.approvals.toString() }
+        : null,
+  };
+}
@@ -0,0 +1,168 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { ConfidentialGroups, ConfidentialGroups__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const CONTENT_DIGEST = ethers.sha256(ethers.toUtf8Bytes("encrypted group envelope"));
+const AES_KEY = BigInt(ethers.keccak256(ethers.toUtf8Bytes("group aes key")));
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("ConfidentialGroups")) as ConfidentialGroups__factory;
+  const contract = (await factory.deploy()) as ConfidentialGroups;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("ConfidentialGroups", function () {
+  let signers: Signers;
+  let contract: ConfidentialGroups;
+  let contractAddress: string;
+
+  /** Create a group administered by `admin` with `members`; returns its ID */
+  async function createGroup(admin: HardhatEthersSigner, members: string[]): Promise<bigint> {
+    const groupId = await contract.groupCount();
+    await (await contract.connect(admin).createGroup("team", members)).wait();
+    return groupId;
+  }
+
+  /** Post a message to a group as `sender`, encrypting its own address and a fixed key; returns its index */
+  async function sendToGroup(sender: HardhatEthersSigner, groupId: bigint): Promise<bigint> {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, sender.address)
+      .addAddress(sender.address)
+      .add256(AES_KEY)
+      .encrypt();
+    const [, , , messageCount] = await contract.getGroup(groupId);
+    const tx = await contract
+      .connect(sender)
+      .sendToGroup(groupId, input.handles[0], input.handles[1], input.inputProof, CONTENT_DIGEST);
+    await tx.wait();
+    return messageCount;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  describe("messages", function () {
+    it("should grant the key to every member", async function () {
+      const groupId = await createGroup(signers.alice, [signers.bob.address]);
+      const index = await sendToGroup(signers.alice, groupId);
+
+      const message = await contract.connect(signers.bob).getGroupMessage(groupId, index);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint256, message.encryptedKey, contractAddress, signers.bob),
+      ).to.eq(AES_KEY);
+      expect(await fhevm.userDecryptEbool(message.senderVerified, contractAddress, signers.bob)).to.eq(true);
+    });
+
+    it("should only let members post", async function () {
+      const groupId = await createGroup(signers.alice, []);
+      await expect(sendToGroup(signers.bob, groupId))
+        .to.be.revertedWithCustomError(contract, "NotAMember")
+        .withArgs(signers.bob.address);
+    });
+
+    it("should only share the history an admin asks for", async function () {
+      const groupId = await createGroup(signers.alice, []);
+      await sendToGroup(signers.alice, groupId);
+      const shared = await sendToGroup(signers.alice, groupId);
+
+      await expect(contract.connect(signers.alice).addMember(groupId, signers.bob.address, 1))
+        .to.emit(contract, "MemberAdded")
+        .withArgs(groupId, signers.bob.address, shared);
+      expect(await contract.canRead(groupId, shared - 1n, signers.bob.address)).to.eq(false);
+      expect(await contract.canRead(groupId, shared, signers.bob.address)).to.eq(true);
+      await expect(contract.connect(signers.bob).getGroupMessage(groupId, shared - 1n)).to.be.revertedWithCustomError(
+        contract,
+        "NotAuthorized",
+      );
+      await expect(contract.connect(signers.bob).getGroupMessage(groupId, shared + 1n)).to.be.revertedWithCustomError(
+        contract,
+        "MessageNotFound",
+      );
+    });
+  });
+
+  describe("membership", function () {
+    it("should only let admins add members", async function () {
+      const groupId = await createGroup(signers.alice, [signers.bob.address]);
+      await expect(
+        contract.connect(signers.bob).addMember(groupId, signers.carol.address, 0),
+      ).to.be.revertedWithCustomError(contract, "NotAGroupAdmin");
+      await expect(contract.connect(signers.alice).addMember(groupId, signers.bob.address, 0))
+        .to.be.revertedWithCustomError(contract, "AlreadyAMember")
+        .withArgs(signers.bob.address);
+    });
+
+    it("should stop access when a member leaves", async function () {
+      const groupId = await createGroup(signers.alice, [signers.bob.address]);
+      const index = await sendToGroup(signers.alice, groupId);
+
+      await expect(contract.connect(signers.bob).removeMember(groupId, signers.bob.address))
+        .to.emit(contract, "MemberRemoved")
+        .withArgs(groupId, signers.bob.address);
+      expect(await contract.canRead(groupId, index, signers.bob.address)).to.eq(false);
+      expect(await contract.getGroupsOf(signers.bob.address)).to.deep.eq([]);
+    });
+
+    it("should hand the admin role to a remaining member when the last admin leaves", async function () {
+      const groupId = await createGroup(signers.alice, [signers.bob.address, signers.carol.address]);
+
+      await expect(contract.connect(signers.alice).removeMember(groupId, signers.alice.address))
+        .to.emit(contract, "AdminChanged")
+        .withArgs(groupId, signers.carol.address, true);
+      const [, admins, members] = await contract.getGroup(groupId);
+      expect(admins).to.deep.eq([signers.carol.address]);
+      expect([...members]).to.have.members([signers.bob.address, signers.carol.address]);
+    });
+
+    it("should leave the admin role empty when the last member leaves", async function () {
+      const groupId = await createGroup(signers.alice, []);
+
+      await expect(contract.connect(signers.alice).removeMember(groupId, signers.alice.address)).not.to.emit(
+        contract,
+        "AdminChanged",
+      );
+      const [, admins, members] = await contract.getGroup(groupId);
+      expect(admins).to.deep.eq([]);
+      expect(members).to.deep.eq([]);
+    });
+
+    it("should not demote the only admin", async function () {
+      const groupId = await createGroup(signers.alice, [signers.bob.address]);
+      await expect(
+        contract.connect(signers.alice).setAdmin(groupId, signers.alice.address, false),
+      ).to.be.revertedWithCustomError(contract, "LastAdmin");
+
+      await contract.connect(signers.alice).setAdmin(groupId, signers.bob.address, true);
+      await contract.connect(signers.alice).setAdmin(groupId, signers.alice.address, false);
+      const [, admins] = await contract.getGroup(groupId);
+      expect(admins).to.deep.eq([signers.bob.address]);
+    });
+
+    it("should reject unknown groups", async function () {
+      await expect(contract.getGroup(0)).to.be.revertedWithCustomError(contract, "GroupNotFound");
+    });
+  });
+});
@@ -0,0 +1,1436 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { ContractTransactionResponse, Interface } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  ConfidentialTransmissionClient,
+  deriveStealthKeys,
+  generateStealthAddress,
+  openRequestHash,
+  scanStealthInbox,
+  stealthMetaAddress,
+} from "../sdk";
+import {
+  ConfidentialForwarder,
+  ConfidentialTransmission,
+  ConfidentialTransmission__factory,
+  ConfidentialTransmissionViews,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+/** Options of a test send; everything defaults to a plain, unlocked message without receipts */
+type SendOptions = {
+  outboxTag?: string;
+  receiptReader?: string;
+  ttl?: number;
+  unlockAt?: number;
+  switchOwner?: string;
+  approval?: { approvers: string[]; threshold: number };
+  value?: bigint;
+  /** Store the CID digest FHE encrypted, from the key's input, instead of publicly */
+  hideCid?: boolean;
+  /** Address to encrypt as the sender instead of the sender's own */
+  claimedSender?: string;
+};
+
+/** EIP-170 limit on runtime bytecode */
+const MAX_CONTRACT_SIZE = 24_576;
+
+const CONTENT_DIGEST = ethers.sha256(ethers.toUtf8Bytes("encrypted envelope"));
+const CONTENT_CID = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+const AES_KEY = BigInt(ethers.keccak256(ethers.toUtf8Bytes("aes key")));
+const NO_APPROVAL = { approvers: [], threshold: 0 };
+const VISIBLE_MESSAGES = { includeDeleted: false, since: 0, until: 0 };
+const RECALL_KEY = ethers.id("recall key");
+const OUTBOX_TAG = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes32"], [RECALL_KEY]));
+const POSTAGE = ethers.parseEther("0.01");
+const SWITCH_INTERVAL = 7 * 24 * 3600;
+
+/**
+ * Gas budgets of the measured calls on the FHEVM mock, about 2% above the figures in the README.
+ * Flags outside the packed recipient slot would cost another ~20,000 gas each.
+ */
+const GAS_BUDGET = {
+  sendMessage: 640_000n,
+  sendLockedMessage: 633_000n,
+  recallMessage: 36_500n,
+  markAsSpam: 30_000n,
+};
+
+async function deployFixture() {
+  const forwarder = (await (
+    await ethers.getContractFactory("ConfidentialForwarder")
+  ).deploy()) as ConfidentialForwarder;
+  const factory = (await ethers.getContractFactory("ConfidentialTransmission")) as ConfidentialTransmission__factory;
+  const contract = (await factory.deploy(await forwarder.getAddress())) as ConfidentialTransmission;
+  const contractAddress = await contract.getAddress();
+  const views = (await ethers.getContractAt(
+    "ConfidentialTransmissionViews",
+    await contract.views(),
+  )) as unknown as ConfidentialTransmissionViews;
+  return { forwarder, contract, contractAddress, views };
+}
+
+describe("ConfidentialTransmission", function () {
+  let signers: Signers;
+  let forwarder: ConfidentialForwarder;
+  let contract: ConfidentialTransmission;
+  let contractAddress: string;
+  let views: ConfidentialTransmissionViews;
+
+  /** Send a message to `recipient`, encrypting `sender`'s address (or `claimedSender`) and a key; returns its ID */
+  async function sendMessage(
+    sender: HardhatEthersSigner,
+    recipient: string,
+    options: SendOptions = {},
+  ): Promise<bigint> {
+    const encryptedSender = await fhevm
+      .createEncryptedInput(contractAddress, sender.address)
+      .addAddress(options.claimedSender ?? sender.address)
+      .encrypt();
+    const keyInput = fhevm.createEncryptedInput(contractAddress, sender.address).add256(AES_KEY);
+    if (options.hideCid) {
+      keyInput.add256(BigInt(CONTENT_DIGEST));
+    }
+    const encryptedKey = await keyInput.encrypt();
+
+    const messageId = await contract.messageCount();
+    const tx = await contract
+      .connect(sender)
+      .sendMessage(
+        recipient,
+        options.hideCid ? ethers.ZeroHash : CONTENT_DIGEST,
+        encryptedSender.handles[0],
+        encryptedSender.inputProof,
+        encryptedKey.handles[0],
+        encryptedKey.inputProof,
+        encryptedKey.handles.slice(1),
+        options.outboxTag ?? ethers.ZeroHash,
+        options.ttl ?? 0,
+        options.unlockAt ?? 0,
+        options.switchOwner ?? ethers.ZeroAddress,
+        options.approval ?? NO_APPROVAL,
+        options.receiptReader ?? ethers.ZeroAddress,
+        { value: options.value ?? 0n },
+      );
+    await tx.wait();
+    return messageId;
+  }
+
+  /** Fund the gas of a one-time account's signed send and broadcast it, as the relayer's /sponsor does */
+  async function sponsorTransaction(signedTransaction: string): Promise<{ txHash: string; messageIds: string[] }> {
+    const { from, gasLimit, maxFeePerGas } = ethers.Transaction.from(signedTransaction);
+    await (await signers.deployer.sendTransaction({ to: from!, value: gasLimit * maxFeePerGas! })).wait();
+
+    const tx = await ethers.provider.broadcastTransaction(signedTransaction);
+    const receipt = await tx.wait();
+    const messageIds = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .filter((parsed) => parsed?.name === "MessageSent")
+      .map((parsed) => parsed!.args.messageId.toString());
+    return { txHash: tx.hash, messageIds };
+  }
+
+  /** Send a plain message from `sender` to `recipient` through a sponsored one-time account; returns its ID */
+  async function sendAnonymously(sender: HardhatEthersSigner, recipient: string): Promise<bigint> {
+    const client = new ConfidentialTransmissionClient(contractAddress, { signer: sender, fhevm });
+    const { messageIds } = await client.send({
+      recipients: [recipient],
+      cid: CONTENT_CID,
+      key: ethers.toBeHex(AES_KEY, 32),
+      sponsor: sponsorTransaction,
+    });
+    return messageIds[0];
+  }
+
+  /** Add `entry` to `owner`'s encrypted sender list */
+  async function addFilterEntry(owner: HardhatEthersSigner, entry: string) {
+    const encryptedEntry = await fhevm.createEncryptedInput(contractAddress, owner.address).addAddress(entry).encrypt();
+    const tx = await contract.connect(owner).addSenderFilterEntry(encryptedEntry.handles[0], encryptedEntry.inputProof);
+    await tx.wait();
+  }
+
+  /** Decrypt a message's sender filter result as its recipient */
+  async function isAllowed(messageId: bigint, recipient: HardhatEthersSigner): Promise<boolean> {
+    const { isAllowed } = await contract.messages(messageId);
+    return fhevm.userDecryptEbool(isAllowed, contractAddress, recipient);
+  }
+
+  /** Open a message as `reader` unless it is open already */
+  async function openMessage(messageId: bigint, reader: HardhatEthersSigner) {
+    if (!(await contract.messages(messageId)).isOpened) {
+      await (await contract.connect(reader).openMessage(messageId)).wait();
+    }
+  }
+
+  /** Open a message as `reader` if needed, then fetch it and decrypt its key */
+  async function decryptKey(messageId: bigint, reader: HardhatEthersSigner): Promise<bigint> {
+    await openMessage(messageId, reader);
+    const { encryptedKey } = await contract.connect(reader).getMessage(messageId);
+    return fhevm.userDecryptEuint(FhevmType.euint256, encryptedKey, contractAddress, reader);
+  }
+
+  /** Timestamp of the latest block */
+  async function now(): Promise<number> {
+    return (await ethers.provider.getBlock("latest"))!.timestamp;
+  }
+
+  /** Move the chain's clock forward and mine a block */
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ forwarder, contract, contractAddress, views } = await deployFixture());
+  });
+
+  describe("opening", function () {
+    it("should only grant the key when the recipient opens the message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      const getter = contract.interface.getFunction("messages");
+      expect(getter.outputs.map((output) => output.name)).not.to.include("encryptedKey");
+      await expect(contract.connect(signers.bob).getMessage(messageId)).to.be.revertedWith("Message not opened");
+      await expect(contract.connect(signers.carol).openMessage(messageId)).to.be.revertedWith("Not authorized");
+
+      await expect(contract.connect(signers.bob).openMessage(messageId))
+        .to.emit(contract, "MessageOpened")
+        .withArgs(messageId);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+      await expect(contract.connect(signers.bob).openMessage(messageId)).to.be.revertedWith("Already opened");
+    });
+
+    it("should only accept a signed open request from the recipient", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      const { chainId } = await ethers.provider.getNetwork();
+      const request = ethers.getBytes(openRequestHash(contractAddress, chainId, messageId));
+
+      const forged = await signers.carol.signMessage(request);
+      await expect(contract.openMessageFor(messageId, forged)).to.be.revertedWith("Not authorized");
+      await expect(contract.openMessageFor(messageId, "0x1234")).to.be.revertedWith("Invalid signature");
+
+      await contract.connect(signers.carol).openMessageFor(messageId, await signers.bob.signMessage(request));
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+    });
+  });
+
+  describe("multiple recipients", function () {
+    /** Send one payload from alice to `recipients` with `sendMessageToMany`; returns the message IDs */
+    async function sendToMany(
+      recipients: string[],
+      options: { outboxTags?: string[]; receiptReaders?: string[]; value?: bigint } = {},
+    ): Promise<bigint[]> {
+      const encryptedSender = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .addAddress(signers.alice.address)
+        .encrypt();
+      const encryptedKey = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add256(AES_KEY)
+        .encrypt();
+
+      const firstId = await contract.messageCount();
+      const tx = await contract
+        .connect(signers.alice)
+        .sendMessageToMany(
+          recipients,
+          CONTENT_DIGEST,
+          encryptedSender.handles[0],
+          encryptedSender.inputProof,
+          encryptedKey.handles[0],
+          encryptedKey.inputProof,
+          [],
+          options.outboxTags ?? [],
+          0,
+          0,
+          ethers.ZeroAddress,
+          NO_APPROVAL,
+          options.receiptReaders ?? [],
+          { value: options.value ?? 0n },
+        );
+      await tx.wait();
+      return recipients.map((_, i) => firstId + BigInt(i));
+    }
+
+    it("should give each recipient its own message sharing one encrypted key", async function () {
+      const [bobId, carolId] = await sendToMany([signers.bob.address, signers.carol.address]);
+
+      expect(await decryptKey(bobId, signers.bob)).to.eq(AES_KEY);
+      expect(await decryptKey(carolId, signers.carol)).to.eq(AES_KEY);
+      const bobMessage = await contract.connect(signers.bob).getMessage(bobId);
+      const carolMessage = await contract.connect(signers.carol).getMessage(carolId);
+      expect(bobMessage.encryptedKey).to.eq(carolMessage.encryptedKey);
+      await expect(contract.connect(signers.bob).getMessage(carolId)).to.be.revertedWith("Not authorized");
+    });
+
+    it("should keep delete state per recipient", async function () {
+      const [bobId, carolId] = await sendToMany([signers.bob.address, signers.carol.address]);
+      await contract.connect(signers.bob).deleteMessage(bobId);
+
+      expect((await contract.messages(bobId)).isDeleted).to.eq(true);
+      expect((await contract.messages(carolId)).isDeleted).to.eq(false);
+    });
+
+    it("should reject empty recipient lists and mismatched outbox tags", async function () {
+      await expect(sendToMany([])).to.be.revertedWith("Invalid recipient count");
+      await expect(
+        sendToMany([signers.bob.address, signers.carol.address], { outboxTags: [OUTBOX_TAG] }),
+      ).to.be.revertedWith("Outbox tag count mismatch");
+    });
+
+    it("should charge the sum of the recipients' postage", async function () {
+      await contract.connect(signers.bob).setPostage(POSTAGE);
+      await contract.connect(signers.carol).setPostage(POSTAGE);
+      const options = { receiptReaders: [signers.alice.address, signers.alice.address] };
+
+      await expect(
+        sendToMany([signers.bob.address, signers.carol.address], { ...options, value: POSTAGE }),
+      ).to.be.revertedWith("Incorrect postage");
+      const [bobId, carolId] = await sendToMany([signers.bob.address, signers.carol.address], {
+        ...options,
+        value: 2n * POSTAGE,
+      });
+      expect((await contract.messages(bobId)).postage).to.eq(POSTAGE);
+      expect((await contract.messages(carolId)).postage).to.eq(POSTAGE);
+    });
+  });
+
+  describe("expiry", function () {
+    it("should stop retrieval once the message expires", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { ttl: 3600 });
+      const { timestamp } = await contract.messages(messageId);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+
+      await increaseTime(3600);
+      const metadata = await contract.getMessageMetadata(messageId);
+      expect([metadata.expiresAt, metadata.isExpired]).to.deep.eq([timestamp + 3600n, true]);
+      await expect(contract.connect(signers.bob).getMessage(messageId)).to.be.revertedWith("Message expired");
+    });
+
+    it("should refuse to open a message once it expires", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { ttl: 3600 });
+      await increaseTime(3600);
+
+      await expect(contract.connect(signers.bob).openMessage(messageId)).to.be.revertedWith("Message expired");
+      expect((await contract.messages(messageId)).isOpened).to.eq(false);
+    });
+
+    it("should never expire a message sent without a TTL", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      await increaseTime(365 * 24 * 3600);
+
+      const metadata = await contract.getMessageMetadata(messageId);
+      expect([metadata.expiresAt, metadata.isExpired]).to.deep.eq([0n, false]);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+    });
+  });
+
+  describe("forwarding", function () {
+    it("should give the new recipient the same key without re-encrypting", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { ttl: 3600 });
+      const newMessageId = await contract.messageCount();
+      await openMessage(messageId, signers.bob);
+
+      await expect(contract.connect(signers.bob).forwardMessage(messageId, signers.carol.address, false))
+        .to.emit(contract, "MessageForwarded")
+        .withArgs(messageId, newMessageId);
+      const original = await contract.messages(messageId);
+      const copy = await contract.messages(newMessageId);
+      expect([copy.expiresAt, copy.receiptReader]).to.deep.eq([original.expiresAt, signers.bob.address]);
+      expect(await decryptKey(newMessageId, signers.carol)).to.eq(AES_KEY);
+
+      const { encryptedSender, encryptedKey } = await contract.connect(signers.carol).getMessage(newMessageId);
+      expect(encryptedKey).to.eq((await contract.connect(signers.bob).getMessage(messageId)).encryptedKey);
+      expect(await fhevm.userDecryptEaddress(encryptedSender, contractAddress, signers.carol)).to.eq(
+        signers.alice.address,
+      );
+    });
+
+    it("should replace a withheld sender with an unverified zero address", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      const newMessageId = await contract.messageCount();
+      await openMessage(messageId, signers.bob);
+      await contract.connect(signers.bob).forwardMessage(messageId, signers.carol.address, true);
+      await openMessage(newMessageId, signers.carol);
+
+      const { encryptedSender, senderVerified } = await contract.connect(signers.carol).getMessage(newMessageId);
+      expect(await fhevm.userDecryptEaddress(encryptedSender, contractAddress, signers.carol)).to.eq(
+        ethers.ZeroAddress,
+      );
+      expect(await fhevm.userDecryptEbool(senderVerified, contractAddress, signers.carol)).to.eq(false);
+    });
+
+    it("should only let the recipient forward an opened message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      await expect(
+        contract.connect(signers.carol).forwardMessage(messageId, signers.carol.address, false),
+      ).to.be.revertedWith("Not authorized");
+      await expect(
+        contract.connect(signers.bob).forwardMessage(messageId, signers.carol.address, false),
+      ).to.be.revertedWith("Message not opened");
+
+      const lockedId = await sendMessage(signers.alice, signers.bob.address, { unlockAt: (await now()) + 3600 });
+      await expect(contract.connect(signers.bob).openMessage(lockedId)).to.be.revertedWith("Message locked");
+    });
+  });
+
+  describe("replies", function () {
+    /** Reply to `originalId` as `replier` with the fixed key */
+    async function reply(replier: HardhatEthersSigner, originalId: bigint) {
+      const encryptedKey = await fhevm.createEncryptedInput(contractAddress, replier.address).add256(AES_KEY).encrypt();
+      return contract
+        .connect(replier)
+        .replyToMessage(originalId, CONTENT_DIGEST, encryptedKey.handles[0], encryptedKey.inputProof, []);
+    }
+
+    it("should address the reply to the original message's receipt reader", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { receiptReader: signers.carol.address });
+      const replyId = await contract.messageCount();
+
+      await expect(reply(signers.bob, messageId)).to.emit(contract, "MessageReplied").withArgs(messageId, replyId);
+      const replyMessage = await contract.messages(replyId);
+      expect([replyMessage.recipient, replyMessage.inReplyTo, replyMessage.receiptReader]).to.deep.eq([
+        signers.carol.address,
+        messageId + 1n,
+        signers.bob.address,
+      ]);
+      expect(await contract.getReplyIds(messageId)).to.deep.eq([replyId]);
+    });
+
+    it("should let the original sender decrypt the reply and its verified sender", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { receiptReader: signers.carol.address });
+      const replyId = await contract.messageCount();
+      await reply(signers.bob, messageId);
+
+      expect(await decryptKey(replyId, signers.carol)).to.eq(AES_KEY);
+      const { encryptedSender, senderVerified } = await contract.connect(signers.carol).getMessage(replyId);
+      expect(await fhevm.userDecryptEaddress(encryptedSender, contractAddress, signers.carol)).to.eq(
+        signers.bob.address,
+      );
+      expect(await fhevm.userDecryptEbool(senderVerified, contractAddress, signers.carol)).to.eq(true);
+    });
+
+    it("should only let the recipient reply to a sender that accepts replies", async function () {
+      const withoutReader = await sendMessage(signers.alice, signers.bob.address);
+      await expect(reply(signers.bob, withoutReader)).to.be.revertedWith("Sender does not accept replies");
+
+      const withReader = await sendMessage(signers.alice, signers.bob.address, {
+        receiptReader: signers.carol.address,
+      });
+      await expect(reply(signers.carol, withReader)).to.be.revertedWith("Not authorized");
+    });
+  });
+
+  describe("hidden CID", function () {
+    it("should keep the CID out of public metadata and events", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { hideCid: true });
+
+      const [sent] = await contract.queryFilter(contract.filters.MessageSent(messageId));
+      expect(sent.args.contentDigest).to.eq(ethers.ZeroHash);
+      expect((await contract.getMessageMetadata(messageId)).contentDigest).to.eq(ethers.ZeroHash);
+    });
+
+    it("should let the recipient decrypt the CID digest", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { hideCid: true });
+      await openMessage(messageId, signers.bob);
+
+      const { encryptedCID } = await contract.connect(signers.bob).getMessage(messageId);
+      expect(encryptedCID).to.have.length(1);
+      const digest = await fhevm.userDecryptEuint(FhevmType.euint256, encryptedCID[0], contractAddress, signers.bob);
+      expect(ethers.toBeHex(digest, 32)).to.eq(CONTENT_DIGEST);
+    });
+
+    it("should reject a CID that is both public and hidden, or missing", async function () {
+      const encryptedSender = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .addAddress(signers.alice.address)
+        .encrypt();
+      const encryptedKey = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add256(AES_KEY)
+        .add256(BigInt(CONTENT_DIGEST))
+        .encrypt();
+      const send = (contentDigest: string, encryptedCID: Uint8Array[]) =>
+        contract
+          .connect(signers.alice)
+          .sendMessage(
+            signers.bob.address,
+            contentDigest,
+            encryptedSender.handles[0],
+            encryptedSender.inputProof,
+            encryptedKey.handles[0],
+            encryptedKey.inputProof,
+            encryptedCID,
+            ethers.ZeroHash,
+            0,
+            0,
+            ethers.ZeroAddress,
+            NO_APPROVAL,
+            ethers.ZeroAddress,
+          );
+
+      await expect(send(CONTENT_DIGEST, [encryptedKey.handles[1]])).to.be.revertedWith("CID both public and hidden");
+      await expect(send(ethers.ZeroHash, [])).to.be.revertedWith("Empty content CID");
+    });
+  });
+
+  describe("stealth addresses", function () {
+    /** Send a message from alice to a stealth address generated by `generateStealthAddress` */
+    async function sendStealth(target: { stealthAddress: string; ephemeralPubKey: string; viewTag: string }) {
+      const encryptedSender = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .addAddress(signers.alice.address)
+        .encrypt();
+      const encryptedKey = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add256(AES_KEY)
+        .encrypt();
+      return contract
+        .connect(signers.alice)
+        .sendStealthMessage(
+          target.stealthAddress,
+          target.ephemeralPubKey,
+          target.viewTag,
+          CONTENT_DIGEST,
+          encryptedSender.handles[0],
+          encryptedSender.inputProof,
+          encryptedKey.handles[0],
+          encryptedKey.inputProof,
+          [],
+          ethers.ZeroHash,
+          0,
+          0,
+          ethers.ZeroAddress,
+          NO_APPROVAL,
+          ethers.ZeroAddress,
+        );
+    }
+
+    it("should validate published meta-addresses", async function () {
+      await expect(contract.connect(signers.bob).setStealthMetaAddress("0x1234")).to.be.revertedWith(
+        "Invalid stealth meta-address",
+      );
+    });
+
+    it("should announce the message so only the recipient's keys find and read it", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const keys = await deriveStealthKeys(signers.bob, contractAddress, chainId);
+      await contract.connect(signers.bob).setStealthMetaAddress(stealthMetaAddress(keys));
+
+      const target = generateStealthAddress(await contract.stealthMetaAddressOf(signers.bob.address));
+      const messageId = await contract.messageCount();
+      await expect(sendStealth(target))
+        .to.emit(contract, "Announcement")
+        .withArgs(
+          1,
+          target.stealthAddress,
+          signers.alice.address,
+          target.ephemeralPubKey,
+          ethers.concat([target.viewTag, ethers.toBeHex(messageId, 32)]),
+        );
+      expect((await contract.messages(messageId)).recipient).to.eq(target.stealthAddress);
+
+      const [found] = await scanStealthInbox(contract, keys);
+      expect(found.messageId).to.eq(messageId);
+      // The stealth address holds no ETH, so it signs the open request and anyone submits it
+      const wallet = found.wallet.connect(ethers.provider);
+      const signature = await wallet.signMessage(ethers.getBytes(openRequestHash(contractAddress, chainId, messageId)));
+      await expect(contract.openMessageFor(messageId, signature))
+        .to.emit(contract, "MessageOpened")
+        .withArgs(messageId);
+      const { encryptedKey } = await contract.connect(wallet).getMessage(messageId);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint256, encryptedKey, contractAddress, wallet)).to.eq(AES_KEY);
+
+      const otherKeys = await deriveStealthKeys(signers.carol, contractAddress, chainId);
+      expect(await scanStealthInbox(contract, otherKeys)).to.deep.eq([]);
+    });
+
+    it("should reject a malformed ephemeral key", async function () {
+      const target = { stealthAddress: signers.carol.address, ephemeralPubKey: "0x02", viewTag: "0x00" };
+      await expect(sendStealth(target)).to.be.revertedWith("Invalid ephemeral key");
+    });
+  });
+
+  describe("sender verification", function () {
+    /** Decrypt the encrypted sender of a message and its verification flag as its recipient */
+    async function decryptSender(messageId: bigint, reader: HardhatEthersSigner) {
+      await openMessage(messageId, reader);
+      const { encryptedSender, senderVerified } = await contract.connect(reader).getMessage(messageId);
+      return {
+        sender: await fhevm.userDecryptEaddress(encryptedSender, contractAddress, reader),
+        verified: await fhevm.userDecryptEbool(senderVerified, contractAddress, reader),
+      };
+    }
+
+    it("should verify a sender who encrypts their own address", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+
+      expect(await decryptSender(messageId, signers.bob)).to.deep.eq({ sender: signers.alice.address, verified: true });
+    });
+
+    it("should flag a sender who claims another address", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { claimedSender: signers.carol.address });
+
+      expect(await decryptSender(messageId, signers.bob)).to.deep.eq({
+        sender: signers.carol.address,
+        verified: false,
+      });
+    });
+
+    it("should not verify anonymous sends, which a one-time account submits", async function () {
+      const messageId = await sendAnonymously(signers.carol, signers.bob.address);
+
+      expect(await decryptSender(messageId, signers.bob)).to.deep.eq({
+        sender: signers.carol.address,
+        verified: false,
+      });
+    });
+  });
+
+  describe("batch send", function () {
+    /** Send one message per recipient from alice with `sendBatch`, all inputs in one proof; returns the message IDs */
+    async function sendBatch(
+      recipients: string[],
+      keys: bigint[],
+      contentDigests: string[] = recipients.map(() => CONTENT_DIGEST),
+    ): Promise<bigint[]> {
+      const input = fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .addAddress(signers.alice.address);
+      for (const key of keys) {
+        input.add256(key);
+      }
+      const encrypted = await input.encrypt();
+
+      const firstId = await contract.messageCount();
+      const tx = await contract
+        .connect(signers.alice)
+        .sendBatch(
+          recipients,
+          contentDigests,
+          encrypted.handles[0],
+          encrypted.handles.slice(1),
+          encrypted.inputProof,
+          [],
+          0,
+          0,
+          ethers.ZeroAddress,
+          NO_APPROVAL,
+          [],
+        );
+      await tx.wait();
+      return recipients.map((_, i) => firstId + BigInt(i));
+    }
+
+    it("should give each recipient its own content and key", async function () {
+      const carolKey = AES_KEY + 1n;
+      const carolDigest = ethers.sha256(ethers.toUtf8Bytes("another envelope"));
+      const [bobId, carolId] = await sendBatch(
+        [signers.bob.address, signers.carol.address],
+        [AES_KEY, carolKey],
+        [CONTENT_DIGEST, carolDigest],
+      );
+
+      expect(await decryptKey(bobId, signers.bob)).to.eq(AES_KEY);
+      expect(await decryptKey(carolId, signers.carol)).to.eq(carolKey);
+      expect((await contract.messages(bobId)).contentDigest).to.eq(CONTENT_DIGEST);
+      expect((await contract.messages(carolId)).contentDigest).to.eq(carolDigest);
+      const { senderVerified } = await contract.connect(signers.carol).getMessage(carolId);
+      expect(await fhevm.userDecryptEbool(senderVerified, contractAddress, signers.carol)).to.eq(true);
+      await expect(contract.connect(signers.bob).getMessage(carolId)).to.be.revertedWith("Not authorized");
+    });
+
+    it("should reject mismatched and empty inputs", async function () {
+      const recipients = [signers.bob.address, signers.carol.address];
+
+      await expect(sendBatch([], [])).to.be.revertedWith("Invalid recipient count");
+      await expect(sendBatch(recipients, [AES_KEY, AES_KEY], [CONTENT_DIGEST])).to.be.revertedWith(
+        "CID count mismatch",
+      );
+      await expect(sendBatch(recipients, [AES_KEY])).to.be.revertedWith("Key count mismatch");
+      await expect(sendBatch(recipients, [AES_KEY, AES_KEY], [CONTENT_DIGEST, ethers.ZeroHash])).to.be.revertedWith(
+        "Empty content CID",
+      );
+    });
+  });
+
+  describe("paged views", function () {
+    it("should stay under the EIP-170 contract size limit", async function () {
+      const code = await ethers.provider.getCode(contractAddress);
+      expect(ethers.dataLength(code)).to.be.lessThan(MAX_CONTRACT_SIZE);
+    });
+
+    it("should serve the views from a companion contract", async function () {
+      expect(await views.transmission()).to.eq(contractAddress);
+    });
+
+    it("should page an inbox and skip deleted messages", async function () {
+      for (let i = 0; i < 3; i++) {
+        await sendMessage(signers.alice, signers.bob.address);
+      }
+      await contract.connect(signers.bob).deleteMessage(1);
+
+      const [page, nextOffset, total] = await views.getReceivedMessagesPage(
+        signers.bob.address,
+        VISIBLE_MESSAGES,
+        0,
+        1,
+      );
+      expect(page.map((metadata) => metadata.id)).to.deep.eq([0n]);
+      expect(nextOffset).to.eq(1n);
+      expect(total).to.eq(3n);
+
+      const [rest, end] = await views.getReceivedMessagesPage(signers.bob.address, VISIBLE_MESSAGES, nextOffset, 10);
+      expect(rest.map((metadata) => metadata.id)).to.deep.eq([2n]);
+      expect(end).to.eq(3n);
+
+      const [all] = await views.getReceivedMessagesPage(
+        signers.bob.address,
+        { ...VISIBLE_MESSAGES, includeDeleted: true },
+        0,
+        10,
+      );
+      expect(all.map((metadata) => [metadata.id, metadata.isDeleted])).to.deep.eq([
+        [0n, false],
+        [1n, true],
+        [2n, false],
+      ]);
+    });
+
+    it("should page a filtered inbox in either order through the client", async function () {
+      for (let i = 0; i < 4; i++) {
+        await sendMessage(signers.alice, signers.bob.address);
+      }
+      await contract.connect(signers.bob).deleteMessage(2);
+      const client = new ConfidentialTransmissionClient(contractAddress, { signer: signers.bob });
+
+      const newest = await client.listPage(VISIBLE_MESSAGES, { order: "newest", offset: 1, limit: 2 });
+      expect(newest.messages.map((metadata) => metadata.id)).to.deep.eq([1n, 0n]);
+      expect(newest.total).to.eq(4);
+
+      const oldest = await client.listPage(VISIBLE_MESSAGES, { offset: 1, limit: 2 });
+      expect(oldest.messages.map((metadata) => metadata.id)).to.deep.eq([1n, 3n]);
+    });
+
+    it("should filter an inbox by send time", async function () {
+      await sendMessage(signers.alice, signers.bob.address);
+      const { timestamp } = await contract.messages(0);
+      await ethers.provider.send("evm_increaseTime", [100]);
+      await sendMessage(signers.alice, signers.bob.address);
+
+      const [before] = await views.getReceivedMessagesPage(
+        signers.bob.address,
+        { ...VISIBLE_MESSAGES, until: timestamp + 1n },
+        0,
+        10,
+      );
+      expect(before.map((metadata) => metadata.id)).to.deep.eq([0n]);
+
+      const [after] = await views.getReceivedMessagesPage(
+        signers.bob.address,
+        { ...VISIBLE_MESSAGES, since: timestamp + 1n },
+        0,
+        10,
+      );
+      expect(after.map((metadata) => metadata.id)).to.deep.eq([1n]);
+    });
+
+    it("should reject invalid page sizes", async function () {
+      const maxPageSize = await views.MAX_PAGE_SIZE();
+      await expect(
+        views.getReceivedMessagesPage(signers.bob.address, VISIBLE_MESSAGES, 0, 0),
+      ).to.be.revertedWithCustomError(views, "InvalidPageSize");
+      await expect(
+        views.getReceivedMessagesPage(signers.bob.address, VISIBLE_MESSAGES, 0, maxPageSize + 1n),
+      ).to.be.revertedWithCustomError(views, "InvalidPageSize");
+    });
+
+    it("should resolve an outbox page up to the first unused tag", async function () {
+      const tags = [ethers.id("tag 0"), ethers.id("tag 1"), ethers.id("tag 2")];
+      await sendMessage(signers.alice, signers.bob.address, { outboxTag: tags[0] });
+      await sendMessage(signers.alice, signers.carol.address, { outboxTag: tags[1] });
+      await contract.connect(signers.bob).deleteMessage(0);
+
+      const [page, tagIndices, resolved] = await views.getOutboxPage(tags, VISIBLE_MESSAGES);
+      expect(page.map((metadata) => metadata.recipient)).to.deep.eq([signers.carol.address]);
+      expect(tagIndices).to.deep.eq([1n]);
+      expect(resolved).to.eq(2n);
+    });
+
+    it("should list replies and approval requests", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        receiptReader: signers.carol.address,
+        approval: { approvers: [signers.deployer.address], threshold: 1 },
+      });
+
+      const encryptedKey = await fhevm
+        .createEncryptedInput(contractAddress, signers.bob.address)
+        .add256(AES_KEY)
+        .encrypt();
+      await contract
+        .connect(signers.bob)
+        .replyToMessage(messageId, CONTENT_DIGEST, encryptedKey.handles[0], encryptedKey.inputProof, []);
+
+      const replies = await views.getReplies(messageId);
+      expect(replies.map((metadata) => [metadata.recipient, metadata.inReplyTo])).to.deep.eq([
+        [signers.carol.address, messageId + 1n],
+      ]);
+
+      const requests = await views.getApprovalRequests(signers.deployer.address);
+      expect(requests.map((metadata) => [metadata.id, metadata.approvalThreshold, metadata.isLocked])).to.deep.eq([
+        [messageId, 1n, true],
+      ]);
+    });
+  });
+
+  describe("sender filter", function () {
+    const ALLOWLIST = 1;
+    const BLOCKLIST = 2;
+
+    it("should not store a result while the filter is off", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      expect((await contract.messages(messageId)).isAllowed).to.eq(ethers.ZeroHash);
+    });
+
+    it("should block a listed sender, but not an address someone else claims", async function () {
+      await contract.connect(signers.bob).setSenderFilterMode(BLOCKLIST);
+      await addFilterEntry(signers.bob, signers.carol.address);
+
+      expect(await isAllowed(await sendMessage(signers.carol, signers.bob.address), signers.bob)).to.eq(false);
+      expect(await isAllowed(await sendMessage(signers.alice, signers.bob.address), signers.bob)).to.eq(true);
+
+      // Alice claims Carol's address; the claim is unverified, so Carol's mail is not what gets blocked
+      const claimingCarol = await sendMessage(signers.alice, signers.bob.address, {
+        claimedSender: signers.carol.address,
+      });
+      expect(await isAllowed(claimingCarol, signers.bob)).to.eq(true);
+    });
+
+    it("should only let verified listed senders through an allowlist", async function () {
+      await contract.connect(signers.bob).setSenderFilterMode(ALLOWLIST);
+      await addFilterEntry(signers.bob, signers.alice.address);
+
+      expect(await isAllowed(await sendMessage(signers.alice, signers.bob.address), signers.bob)).to.eq(true);
+      expect(await isAllowed(await sendMessage(signers.carol, signers.bob.address), signers.bob)).to.eq(false);
+
+      // Carol claims Alice's address, which does not get her through
+      const claimingAlice = await sendMessage(signers.carol, signers.bob.address, {
+        claimedSender: signers.alice.address,
+      });
+      expect(await isAllowed(claimingAlice, signers.bob)).to.eq(false);
+    });
+
+    it("should judge forwarded copies by the original sender", async function () {
+      await contract.connect(signers.carol).setSenderFilterMode(ALLOWLIST);
+      await addFilterEntry(signers.carol, signers.alice.address);
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      await openMessage(messageId, signers.bob);
+
+      const forwardedId = await contract.messageCount();
+      await (await contract.connect(signers.bob).forwardMessage(messageId, signers.carol.address, false)).wait();
+      expect(await isAllowed(forwardedId, signers.carol)).to.eq(true);
+
+      // A withheld sender is unverified
+      const withheldId = await contract.messageCount();
+      await (await contract.connect(signers.bob).forwardMessage(messageId, signers.carol.address, true)).wait();
+      expect(await isAllowed(withheldId, signers.carol)).to.eq(false);
+    });
+
+    it("should never let anonymous sends match an entry, whatever sender they claim", async function () {
+      await contract.connect(signers.bob).setSenderFilterMode(ALLOWLIST);
+      await addFilterEntry(signers.bob, signers.alice.address);
+
+      expect(await isAllowed(await sendAnonymously(signers.alice, signers.bob.address), signers.bob)).to.eq(false);
+    });
+  });
+
+  describe("postage", function () {
+    beforeEach(async function () {
+      await contract.connect(signers.bob).setPostage(POSTAGE);
+    });
+
+    it("should require the recipient's exact postage", async function () {
+      await expect(sendMessage(signers.alice, signers.bob.address)).to.be.revertedWith("Incorrect postage");
+      await expect(
+        sendMessage(signers.alice, signers.bob.address, { value: POSTAGE + 1n, receiptReader: signers.carol.address }),
+      ).to.be.revertedWith("Incorrect postage");
+    });
+
+    it("should escrow postage with the message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        value: POSTAGE,
+        receiptReader: signers.carol.address,
+      });
+
+      expect((await contract.messages(messageId)).postage).to.eq(POSTAGE);
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(POSTAGE);
+    });
+
+    it("should refund the receipt reader when the recipient acknowledges", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        value: POSTAGE,
+        receiptReader: signers.carol.address,
+      });
+
+      await openMessage(messageId, signers.bob);
+      const tx = contract.connect(signers.bob).acknowledgeMessage(messageId);
+      await expect(tx).to.changeEtherBalances([contract, signers.carol], [-POSTAGE, POSTAGE]);
+      await expect(tx).to.emit(contract, "PostageSettled").withArgs(messageId, signers.carol.address, POSTAGE, false);
+      expect((await contract.messages(messageId)).postage).to.eq(0n);
+    });
+
+    it("should pay the recipient for spam, exactly once", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        value: POSTAGE,
+        receiptReader: signers.carol.address,
+      });
+
+      await expect(contract.connect(signers.bob).markAsSpam(messageId)).to.changeEtherBalances(
+        [contract, signers.bob],
+        [-POSTAGE, POSTAGE],
+      );
+      expect((await contract.messages(messageId)).isSpam).to.eq(true);
+      await expect(contract.connect(signers.bob).markAsSpam(messageId)).to.be.revertedWith("Already marked as spam");
+    });
+
+    it("should only let the recipient settle postage", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        value: POSTAGE,
+        receiptReader: signers.carol.address,
+      });
+
+      await expect(contract.connect(signers.carol).markAsSpam(messageId)).to.be.revertedWith("Not authorized");
+      await expect(contract.connect(signers.carol).acknowledgeMessage(messageId)).to.be.revertedWith("Not authorized");
+      await expect(contract.connect(signers.carol).refundPostage(messageId)).to.be.revertedWith("Not authorized");
+    });
+
+    it("should let the recipient refund the postage of a deleted or expired message", async function () {
+      const deletedId = await sendMessage(signers.alice, signers.bob.address, {
+        value: POSTAGE,
+        receiptReader: signers.carol.address,
+      });
+      const expiredId = await sendMessage(signers.alice, signers.bob.address, {
+        value: POSTAGE,
+        receiptReader: signers.carol.address,
+        ttl: 60,
+      });
+      await contract.connect(signers.bob).deleteMessage(deletedId);
+      await increaseTime(61);
+
+      const tx = contract.connect(signers.bob).refundPostage(deletedId);
+      await expect(tx).to.changeEtherBalances([contract, signers.carol], [-POSTAGE, POSTAGE]);
+      await expect(tx).to.emit(contract, "PostageSettled").withArgs(deletedId, signers.carol.address, POSTAGE, false);
+      await expect(contract.connect(signers.bob).refundPostage(expiredId)).to.changeEtherBalance(
+        signers.carol,
+        POSTAGE,
+      );
+      await expect(contract.connect(signers.bob).refundPostage(expiredId)).to.be.revertedWith("No postage");
+    });
+
+    it("should not let the sender recall a message to take its postage back", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        value: POSTAGE,
+        receiptReader: signers.carol.address,
+        outboxTag: OUTBOX_TAG,
+      });
+
+      await expect(contract.recallMessage(messageId, RECALL_KEY)).to.be.revertedWith("Postage escrowed");
+      await expect(contract.connect(signers.bob).markAsSpam(messageId)).to.changeEtherBalance(signers.bob, POSTAGE);
+    });
+  });
+
+  describe("recall", function () {
+    it("should let the sender recall with the recall key behind the outbox tag", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { outboxTag: OUTBOX_TAG });
+
+      // The recall key proves authorship, so any account (e.g. a relayer) can submit it
+      await expect(contract.connect(signers.carol).recallMessage(messageId, RECALL_KEY))
+        .to.emit(contract, "MessageRecalled")
+        .withArgs(messageId);
+      expect((await contract.messages(messageId)).isRecalled).to.eq(true);
+      await expect(contract.recallMessage(messageId, RECALL_KEY)).to.be.revertedWith("Already recalled");
+    });
+
+    it("should reject a wrong recall key", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { outboxTag: OUTBOX_TAG });
+
+      await expect(contract.recallMessage(messageId, ethers.id("wrong key"))).to.be.revertedWith("Not authorized");
+      await expect(contract.recallMessage(messageId + 1n, RECALL_KEY)).to.be.revertedWith("Not authorized");
+    });
+
+    it("should block retrieval of a recalled message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { outboxTag: OUTBOX_TAG });
+      await contract.recallMessage(messageId, RECALL_KEY);
+
+      await expect(contract.connect(signers.bob).getMessage(messageId)).to.be.revertedWith("Message recalled");
+    });
+
+    it("should never grant the key of a recalled message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { outboxTag: OUTBOX_TAG });
+      await contract.recallMessage(messageId, RECALL_KEY);
+
+      await expect(contract.connect(signers.bob).openMessage(messageId)).to.be.revertedWith("Message recalled");
+      const { chainId } = await ethers.provider.getNetwork();
+      const signature = await signers.bob.signMessage(
+        ethers.getBytes(openRequestHash(contractAddress, chainId, messageId)),
+      );
+      await expect(contract.openMessageFor(messageId, signature)).to.be.revertedWith("Message recalled");
+      expect((await contract.messages(messageId)).isOpened).to.eq(false);
+    });
+
+    it("should refuse to recall a message the recipient opened", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { outboxTag: OUTBOX_TAG });
+      await openMessage(messageId, signers.bob);
+
+      await expect(contract.recallMessage(messageId, RECALL_KEY)).to.be.revertedWith("Message opened");
+    });
+
+    it("should refuse to recall a deleted message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { outboxTag: OUTBOX_TAG });
+      await contract.connect(signers.bob).deleteMessage(messageId);
+
+      await expect(contract.recallMessage(messageId, RECALL_KEY)).to.be.revertedWith("Message deleted");
+    });
+  });
+
+  describe("acknowledgements", function () {
+    it("should emit MessageRead", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      await openMessage(messageId, signers.bob);
+
+      await expect(contract.connect(signers.bob).acknowledgeMessage(messageId))
+        .to.emit(contract, "MessageRead")
+        .withArgs(messageId, signers.bob.address);
+    });
+
+    it("should let the recipient and the receipt reader decrypt the read flag", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { receiptReader: signers.carol.address });
+      const unread = await contract.getReadReceipt(messageId);
+      expect(await fhevm.userDecryptEbool(unread, contractAddress, signers.bob)).to.eq(false);
+
+      await openMessage(messageId, signers.bob);
+      await contract.connect(signers.bob).acknowledgeMessage(messageId);
+      const read = await contract.getReadReceipt(messageId);
+      expect(await fhevm.userDecryptEbool(read, contractAddress, signers.bob)).to.eq(true);
+      expect(await fhevm.userDecryptEbool(read, contractAddress, signers.carol)).to.eq(true);
+    });
+
+    it("should reject a repeated acknowledgement", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      await openMessage(messageId, signers.bob);
+      await contract.connect(signers.bob).acknowledgeMessage(messageId);
+
+      await expect(contract.connect(signers.bob).acknowledgeMessage(messageId)).to.be.revertedWith(
+        "Already acknowledged",
+      );
+    });
+
+    it("should reject acknowledging a recalled message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { outboxTag: OUTBOX_TAG });
+      await contract.recallMessage(messageId, RECALL_KEY);
+
+      await expect(contract.connect(signers.bob).acknowledgeMessage(messageId)).to.be.revertedWith("Message recalled");
+    });
+
+    it("should reject acknowledging an expired message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { ttl: 60 });
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(contract.connect(signers.bob).acknowledgeMessage(messageId)).to.be.revertedWith("Message expired");
+    });
+  });
+
+  describe("time locks", function () {
+    it("should hold the key back until the unlock time", async function () {
+      const unlockAt = (await now()) + 3600;
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { unlockAt });
+
+      await expect(contract.connect(signers.bob).getMessage(messageId)).to.be.revertedWith("Message locked");
+      await expect(contract.unlock(messageId)).to.be.revertedWith("Message still locked");
+    });
+
+    it("should let anyone unlock the key for the recipient after the unlock time", async function () {
+      const unlockAt = (await now()) + 3600;
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { unlockAt });
+      await increaseTime(3600);
+
+      await expect(contract.connect(signers.carol).unlock(messageId))
+        .to.emit(contract, "MessageUnlocked")
+        .withArgs(messageId);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+      await expect(contract.unlock(messageId)).to.be.revertedWith("Message not locked");
+    });
+
+    it("should not unlock a recalled message", async function () {
+      const unlockAt = (await now()) + 3600;
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { unlockAt, outboxTag: OUTBOX_TAG });
+      await contract.recallMessage(messageId, RECALL_KEY);
+      await increaseTime(3600);
+
+      await expect(contract.unlock(messageId)).to.be.revertedWith("Message recalled");
+      expect((await contract.messages(messageId)).isLocked).to.eq(true);
+    });
+
+    it("should not unlock an expired message", async function () {
+      const unlockAt = (await now()) + 3600;
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { unlockAt, ttl: 7200 });
+      await increaseTime(7200);
+
+      await expect(contract.unlock(messageId)).to.be.revertedWith("Message expired");
+    });
+
+    it("should not lock a message whose unlock time has passed", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { unlockAt: await now() });
+
+      expect((await contract.messages(messageId)).isLocked).to.eq(false);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+    });
+
+    it("should reject an expiry before the unlock time", async function () {
+      const unlockAt = (await now()) + 3600;
+      await expect(sendMessage(signers.alice, signers.bob.address, { unlockAt, ttl: 60 })).to.be.revertedWith(
+        "Expires before unlock",
+      );
+    });
+  });
+
+  describe("dead man's switch", function () {
+    beforeEach(async function () {
+      await contract.connect(signers.alice).configureSwitch(SWITCH_INTERVAL);
+    });
+
+    it("should only register messages to a configured switch", async function () {
+      await expect(
+        sendMessage(signers.alice, signers.bob.address, { switchOwner: signers.carol.address }),
+      ).to.be.revertedWith("Switch not configured");
+      await expect(contract.connect(signers.carol).configureSwitch(3600)).to.be.revertedWith("Interval too short");
+    });
+
+    it("should hold the key back while the owner checks in", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { switchOwner: signers.alice.address });
+      await expect(contract.unlock(messageId)).to.be.revertedWith("Use release for switches");
+
+      await increaseTime(SWITCH_INTERVAL - 60);
+      const heartbeat = await contract.connect(signers.alice).heartbeat();
+      const { timestamp } = (await ethers.provider.getBlock(heartbeat.blockNumber!))!;
+      await expect(heartbeat)
+        .to.emit(contract, "SwitchHeartbeat")
+        .withArgs(signers.alice.address, timestamp + SWITCH_INTERVAL);
+
+      await increaseTime(120);
+      await expect(contract.release(messageId)).to.be.revertedWith("Switch not triggered");
+      await expect(contract.connect(signers.bob).getMessage(messageId)).to.be.revertedWith("Message locked");
+    });
+
+    it("should let anyone release the key once the owner stops checking in", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { switchOwner: signers.alice.address });
+      await increaseTime(SWITCH_INTERVAL);
+
+      await expect(contract.connect(signers.carol).release(messageId))
+        .to.emit(contract, "MessageReleased")
+        .withArgs(messageId);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+      await expect(contract.release(messageId)).to.be.revertedWith("Message not locked");
+    });
+
+    it("should not release a recalled message", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        switchOwner: signers.alice.address,
+        outboxTag: OUTBOX_TAG,
+      });
+      await contract.recallMessage(messageId, RECALL_KEY);
+      await increaseTime(SWITCH_INTERVAL);
+
+      await expect(contract.release(messageId)).to.be.revertedWith("Message recalled");
+      expect((await contract.messages(messageId)).isLocked).to.eq(true);
+    });
+
+    it("should keep a time lock on a switch message after the switch triggers", async function () {
+      const unlockAt = (await now()) + 2 * SWITCH_INTERVAL;
+      const messageId = await sendMessage(signers.alice, signers.bob.address, {
+        switchOwner: signers.alice.address,
+        unlockAt,
+      });
+      await increaseTime(SWITCH_INTERVAL);
+
+      await expect(contract.release(messageId)).to.be.revertedWith("Message still locked");
+      await increaseTime(SWITCH_INTERVAL);
+      await contract.release(messageId);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+    });
+  });
+
+  describe("approvals", function () {
+    /** Send alice -> bob, gated on 2 of deployer, carol and alice */
+    async function sendGated(options: SendOptions = {}): Promise<bigint> {
+      const approvers = [signers.deployer.address, signers.carol.address, signers.alice.address];
+      return sendMessage(signers.alice, signers.bob.address, { ...options, approval: { approvers, threshold: 2 } });
+    }
+
+    it("should release the key to the recipient when the threshold is met", async function () {
+      const messageId = await sendGated();
+
+      await expect(contract.connect(signers.deployer).approveMessage(messageId))
+        .to.emit(contract, "MessageApproved")
+        .withArgs(messageId, signers.deployer.address, 1)
+        .and.not.to.emit(contract, "MessageUnlocked");
+      await expect(contract.connect(signers.bob).getMessage(messageId)).to.be.revertedWith("Message locked");
+
+      await expect(contract.connect(signers.carol).approveMessage(messageId))
+        .to.emit(contract, "MessageUnlocked")
+        .withArgs(messageId);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+      expect(await contract.getApprovalVote(messageId, signers.carol.address)).to.eq(1n);
+    });
+
+    it("should take one decision from each designated approver", async function () {
+      const messageId = await sendGated();
+
+      await expect(contract.connect(signers.bob).approveMessage(messageId)).to.be.revertedWith("Not an approver");
+      await contract.connect(signers.carol).rejectMessage(messageId);
+      await expect(contract.connect(signers.carol).approveMessage(messageId)).to.be.revertedWith("Already decided");
+
+      const [, threshold, approvals, rejections] = await contract.getApprovalGate(messageId);
+      expect([threshold, approvals, rejections]).to.deep.eq([2n, 0n, 1n]);
+      await expect(contract.unlock(messageId)).to.be.revertedWith("Awaiting approvals");
+    });
+
+    it("should wait for the unlock time after the threshold is met", async function () {
+      const unlockAt = (await now()) + 3600;
+      const messageId = await sendGated({ unlockAt });
+      await contract.connect(signers.deployer).approveMessage(messageId);
+      await expect(contract.connect(signers.carol).approveMessage(messageId)).not.to.emit(contract, "MessageUnlocked");
+
+      await increaseTime(3600);
+      await contract.unlock(messageId);
+      expect(await decryptKey(messageId, signers.bob)).to.eq(AES_KEY);
+    });
+
+    it("should reject a threshold above the number of approvers", async function () {
+      await expect(
+        sendMessage(signers.alice, signers.bob.address, {
+          approval: { approvers: [signers.carol.address], threshold: 2 },
+        }),
+      ).to.be.revertedWith("Threshold above approvers");
+    });
+  });
+
+  describe("delegates", function () {
+    it("should share new messages with an active delegate", async function () {
+      await expect(contract.connect(signers.bob).addDelegate(signers.carol.address, 0))
+        .to.emit(contract, "DelegateAdded")
+        .withArgs(signers.bob.address, signers.carol.address, 0);
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+
+      expect(await decryptKey(messageId, signers.carol)).to.eq(AES_KEY);
+      await expect(contract.connect(signers.deployer).getMessage(messageId)).to.be.revertedWith("Not authorized");
+    });
+
+    it("should share earlier messages on request", async function () {
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+      await openMessage(messageId, signers.bob);
+      await contract.connect(signers.bob).addDelegate(signers.carol.address, 0);
+
+      const { encryptedKey } = await contract.connect(signers.carol).getMessage(messageId);
+      const decryption = fhevm.userDecryptEuint(FhevmType.euint256, encryptedKey, contractAddress, signers.carol);
+      await expect(decryption).to.be.rejected;
+
+      await contract.connect(signers.bob).grantDelegateAccess([messageId], signers.carol.address);
+      expect(await decryptKey(messageId, signers.carol)).to.eq(AES_KEY);
+    });
+
+    it("should stop access when a delegate is removed or expires", async function () {
+      await contract.connect(signers.bob).addDelegate(signers.carol.address, 0);
+      await contract.connect(signers.bob).addDelegate(signers.deployer.address, (await now()) + 3600);
+      const messageId = await sendMessage(signers.alice, signers.bob.address);
+
+      await contract.connect(signers.bob).removeDelegate(signers.carol.address);
+      await expect(contract.connect(signers.carol).getMessage(messageId)).to.be.revertedWith("Not authorized");
+
+      await increaseTime(3600);
+      await expect(contract.connect(signers.deployer).getMessage(messageId)).to.be.revertedWith("Not authorized");
+      await expect(
+        contract.connect(signers.bob).grantDelegateAccess([messageId], signers.deployer.address),
+      ).to.be.revertedWith("Not an active delegate");
+    });
+
+    it("should share a locked message's key with delegates once unlocked", async function () {
+      await contract.connect(signers.bob).addDelegate(signers.carol.address, 0);
+      const unlockAt = (await now()) + 3600;
+      const messageId = await sendMessage(signers.alice, signers.bob.address, { unlockAt });
+
+      await increaseTime(3600);
+      await contract.unlock(messageId);
+      expect(await decryptKey(messageId, signers.carol)).to.eq(AES_KEY);
+    });
+  });
+
+  describe("forwarder", function () {
+    it("should reject expired requests and the zero target", async function () {
+      const latest = await ethers.provider.getBlock("latest");
+      const deadline = latest!.timestamp - 1;
+
+      await expect(forwarder.execute({ to: contractAddress, deadline, data: "0x" }))
+        .to.be.revertedWithCustomError(forwarder, "RequestExpired")
+        .withArgs(deadline);
+      await expect(
+        forwarder.execute({ to: ethers.ZeroAddress, deadline: ethers.MaxUint256, data: "0x" }),
+      ).to.be.revertedWithCustomError(forwarder, "InvalidTarget");
+    });
+
+    it("should refuse sends through the forwarder, whose bound inputs anyone could replay", async function () {
+      const forwarderAddress = await forwarder.getAddress();
+      const encryptedSender = await fhevm
+        .createEncryptedInput(contractAddress, forwarderAddress)
+        .addAddress(signers.alice.address)
+        .encrypt();
+      const encryptedKey = await fhevm
+        .createEncryptedInput(contractAddress, forwarderAddress)
+        .add256(AES_KEY)
+        .encrypt();
+      const data = contract.interface.encodeFunctionData("sendMessage", [
+        signers.bob.address,
+        CONTENT_DIGEST,
+        encryptedSender.handles[0],
+        encryptedSender.inputProof,
+        encryptedKey.handles[0],
+        encryptedKey.inputProof,
+        [],
+        ethers.ZeroHash,
+        0,
+        0,
+        ethers.ZeroAddress,
+        NO_APPROVAL,
+        ethers.ZeroAddress,
+      ]);
+
+      await expect(
+        forwarder.connect(signers.carol).execute({ to: contractAddress, deadline: ethers.MaxUint256, data }),
+      ).to.be.revertedWith("Send from a one-time account");
+    });
+
+    it("should reject a replayed sponsored send", async function () {
+      let signedSend = "";
+      const client = new ConfidentialTransmissionClient(contractAddress, { signer: signers.alice, fhevm });
+      await client.send({
+        recipients: [signers.bob.address],
+        cid: CONTENT_CID,
+        key: ethers.toBeHex(AES_KEY, 32),
+        sponsor: (signedTransaction) => {
+          signedSend = signedTransaction;
+          return sponsorTransaction(signedTransaction);
+        },
+      });
+      const { from, data } = ethers.Transaction.from(signedSend);
+      expect(from).not.to.eq(signers.alice.address);
+
+      // The inputs are bound to the one-time account, so another account or the forwarder cannot reuse them
+      const args = contract.interface.decodeFunctionData("sendMessage", data).toArray();
+      args[0] = signers.carol.address;
+      args[7] = ethers.ZeroHash;
+      const replayed = (contract.interface as Interface).encodeFunctionData("sendMessage", args);
+      await expect(signers.carol.sendTransaction({ to: contractAddress, data: replayed })).to.be.reverted;
+      await expect(forwarder.execute({ to: contractAddress, deadline: ethers.MaxUint256, data: replayed })).to.be
+        .reverted;
+      expect(await contract.messageCount()).to.eq(1n);
+    });
+
+    it("should bubble up the target's revert reason", async function () {
+      const data = contract.interface.encodeFunctionData("deleteMessage", [0]);
+
+      await expect(forwarder.execute({ to: contractAddress, deadline: ethers.MaxUint256, data })).to.be.revertedWith(
+        "Not authorized",
+      );
+    });
+  });
+
+  describe("gas", function () {
+    /** Gas used by a transaction */
+    async function gasUsedBy(tx: Promise<ContractTransactionResponse>): Promise<bigint> {
+      const receipt = await (await tx).wait();
+      return receipt!.gasUsed;
+    }
+
+    /** Send the usual client message (public CID, outbox tag and read receipts) and return its gas */
+    async function sendGas(options: SendOptions = {}): Promise<bigint> {
+      const encryptedSender = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .addAddress(signers.alice.address)
+        .encrypt();
+      const encryptedKey = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add256(AES_KEY)
+        .encrypt();
+      return gasUsedBy(
+        contract
+          .connect(signers.alice)
+          .sendMessage(
+            signers.bob.address,
+            CONTENT_DIGEST,
+            encryptedSender.handles[0],
+            encryptedSender.inputProof,
+            encryptedKey.handles[0],
+            encryptedKey.inputProof,
+            [],
+            OUTBOX_TAG,
+            0,
+            options.unlockAt ?? 0,
+            ethers.ZeroAddress,
+            NO_APPROVAL,
+            signers.carol.address,
+          ),
+      );
+    }
+
+    beforeEach(async function () {
+      // Measure steady-state sends: the first message also initialises the counters and FHE mocks
+      await sendMessage(signers.alice, signers.bob.address, {
+        outboxTag: ethers.id("warm-up"),
+        receiptReader: signers.carol.address,
+      });
+    });
+
+    it("should send a message within its gas budget", async function () {
+      const gasUsed = await sendGas();
+      expect(gasUsed).to.be.lessThanOrEqual(GAS_BUDGET.sendMessage);
+    });
+
+    it("should send a time-locked message within its gas budget", async function () {
+      const latest = await ethers.provider.getBlock("latest");
+      const gasUsed = await sendGas({ unlockAt: latest!.timestamp + 3600 });
+      expect(gasUsed).to.be.lessThanOrEqual(GAS_BUDGET.sendLockedMessage);
+    });
+
+    it("should recall a message within its gas budget", async function () {
+      await sendGas();
+      const gasUsed = await gasUsedBy(contract.recallMessage(1, RECALL_KEY));
+      expect(gasUsed).to.be.lessThanOrEqual(GAS_BUDGET.recallMessage);
+    });
+
+    it("should mark a message as spam within its gas budget", async function () {
+      await sendGas();
+      const gasUsed = await gasUsedBy(contract.connect(signers.bob).markAsSpam(1));
+      expect(gasUsed).to.be.lessThanOrEqual(GAS_BUDGET.markAsSpam);
+    });
+  });
+});